@@ -0,0 +1,104 @@
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { compareEventIds, isValidEventId, type StoredCollectionEvent } from '@/lib/events';
+
+interface Params {
+  id: string;
+}
+
+// Server-Sent Events must never be cached or statically rendered
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Keeps proxies from closing idle connections
+const CLIENT_RETRY_MS = 3000; // Reconnect delay suggested to EventSource
+
+export const GET = withStoreRoute<Params>(
+  { failureMessage: 'Failed to open event stream', rateLimit: 'read', collectionParam: 'id' },
+  async ({ request, params: { id: collectionRef }, store }) => {
+    // EventSource sends Last-Event-ID automatically when it reconnects;
+    // the query parameter lets a fresh page resume from a known position.
+    const lastEventId = request.headers.get('last-event-id') || new URL(request.url).searchParams.get('lastEventId');
+    if (lastEventId && !isValidEventId(lastEventId)) {
+      throw new BadRequestError('Invalid Last-Event-ID');
+    }
+
+    // Read-only links resolve to the underlying collection
+    // (also confirms the collection exists: throws CollectionNotFoundError otherwise)
+    const { collectionId } = await requireCollectionAccess(store, collectionRef, request);
+
+    const encoder = new TextEncoder();
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let unsubscribe: (() => Promise<void>) | undefined;
+    let closed = false;
+
+    const cleanup = async () => {
+      if (closed) return;
+      closed = true;
+      if (heartbeat) clearInterval(heartbeat);
+      await unsubscribe?.();
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let lastSentId = lastEventId;
+        // Live events that arrive while the backlog is replayed are held back and deduplicated
+        let pending: StoredCollectionEvent[] | null = [];
+
+        const send = ({ id, event }: StoredCollectionEvent) => {
+          if (closed) return;
+          if (lastSentId && compareEventIds(id, lastSentId) <= 0) return; // Already delivered
+          lastSentId = id;
+          controller.enqueue(encoder.encode(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        };
+
+        request.signal.addEventListener('abort', () => {
+          cleanup();
+          try { controller.close(); } catch { /* already closed */ }
+        });
+
+        try {
+          controller.enqueue(encoder.encode(`retry: ${CLIENT_RETRY_MS}\n\n`));
+
+          unsubscribe = await store.subscribe(collectionId, (stored) => {
+            if (pending) pending.push(stored); else send(stored);
+          });
+          if (closed) {
+            await unsubscribe(); // The client went away while we were subscribing
+            return;
+          }
+
+          // Subscribe first, then replay, so nothing published in between is lost
+          if (lastEventId) {
+            const missed = await store.getEventsSince(collectionId, lastEventId);
+            missed.forEach(send);
+          }
+          const buffered = pending;
+          pending = null;
+          buffered.forEach(send);
+
+          heartbeat = setInterval(() => {
+            if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+          }, HEARTBEAT_INTERVAL_MS);
+        } catch (error) {
+          console.error(`Failed to start event stream for collection ${collectionId}:`, error);
+          await cleanup();
+          controller.error(error);
+        }
+      },
+      cancel() {
+        return cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable response buffering in nginx-style proxies
+      },
+    });
+  }
+);
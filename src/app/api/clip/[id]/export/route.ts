@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { isAttachmentItem } from '@/lib/attachments';
+import {
+  EXPORT_CONTENT_TYPES,
+  createCollectionExport,
+  createExportArchive,
+  formatExportAsMarkdown,
+  formatExportAsText,
+  getExportFilename,
+} from '@/lib/collection-export';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+/**
+ * Downloads the whole collection as `format` json (default), md, txt or zip (with attachments).
+ * Encrypted collections only hold ciphertext, so they can only be exported as json or zip.
+ */
+export const GET = withStoreRoute<Params>(
+  { failureMessage: 'Failed to export collection', rateLimit: 'read', collectionParam: 'id' },
+  async ({ request, params: { id }, store }) => {
+    const format = new URL(request.url).searchParams.get('format') || 'json';
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new BadRequestError('Invalid export format', { details: `Format must be one of: ${EXPORT_FORMATS.join(', ')}.` });
+    }
+    const exportFormat = format as ExportFormat;
+
+    const access = await requireCollectionAccess(store, id, request);
+    if (access.meta.encrypted && (exportFormat === 'md' || exportFormat === 'txt')) {
+      throw new BadRequestError('Export format not available', {
+        details: 'This clipboard is end-to-end encrypted, so the server can only export it as json or zip (still encrypted).',
+      });
+    }
+
+    const exported = createCollectionExport(await store.getCollection(access.collectionId));
+    let body: string | Buffer;
+    if (exportFormat === 'zip') {
+      const blobs = new Map<string, Buffer>();
+      for (const item of exported.items.filter(isAttachmentItem)) {
+        const blob = await store.getAttachmentBlob(access.collectionId, item.id);
+        if (blob) blobs.set(item.id, blob);
+      }
+      body = createExportArchive(exported, blobs);
+    } else if (exportFormat === 'md') {
+      body = formatExportAsMarkdown(exported);
+    } else if (exportFormat === 'txt') {
+      body = formatExportAsText(exported);
+    } else {
+      body = JSON.stringify(exported, null, 2);
+    }
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[exportFormat],
+        'Content-Disposition': `attachment; filename="${getExportFilename(exportFormat)}"`,
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  }
+);
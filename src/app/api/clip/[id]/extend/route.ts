@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { COLLECTION_EXPIRY_SECONDS, isCollectionExpiry } from '@/lib/expiry';
+import type { CollectionExpiry } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+// Restarts a collection's lifetime with the given preset, counted from now ('never' pins it)
+export const POST = withStoreRoute<Params>(
+  { failureMessage: 'Failed to extend collection', rateLimit: 'extend', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    let expiry: CollectionExpiry;
+    try {
+      const body = await request.json();
+      if (!isCollectionExpiry(body?.expiry)) {
+          throw new Error(`Expiry must be one of: ${Object.keys(COLLECTION_EXPIRY_SECONDS).join(', ')}.`);
+      }
+      expiry = body.expiry;
+    } catch (error) {
+      throw new BadRequestError('Invalid request body', { details: error instanceof Error ? error.message : 'Could not parse JSON.' });
+    }
+
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+
+    const expiresAt = await store.setExpiry(access.collectionId, expiry);
+    return NextResponse.json({ expiry, expiresAt }, { status: 200 });
+  }
+);
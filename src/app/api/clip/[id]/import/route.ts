@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, PayloadTooLargeError, ValidationError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { formatFileSize } from '@/lib/attachments';
+import { InvalidImportError, MAX_IMPORT_BYTES, createImportedItems, readImportFile, type ImportFile } from '@/lib/collection-export';
+import { isEncryptedPayload } from '@/lib/e2e-crypto';
+import { sanitizeClipboardHtml } from '@/lib/html-sanitizer';
+import { getItemPosition } from '@/lib/item-order';
+import { collectionImportSchema, type CollectionImportResult } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+/**
+ * Adds every item of an export (the JSON document, or a ZIP export with attachments) to the
+ * collection in one go, keeping their types, timestamps and order, on top of the items already
+ * there. All items fit or none are added.
+ * To import into a new collection, create one first.
+ */
+export const POST = withStoreRoute<Params>(
+  { failureMessage: 'Failed to import items', rateLimit: 'upload', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    const tooLarge = new PayloadTooLargeError('Import too large', { details: `Maximum import size is ${formatFileSize(MAX_IMPORT_BYTES)}.` });
+    if (Number(request.headers.get('content-length') ?? 0) > MAX_IMPORT_BYTES) {
+      throw tooLarge;
+    }
+    const upload = Buffer.from(await request.arrayBuffer());
+    if (upload.byteLength > MAX_IMPORT_BYTES) {
+      throw tooLarge;
+    }
+
+    let file: ImportFile;
+    try {
+      file = readImportFile(upload);
+    } catch (error) {
+      if (error instanceof InvalidImportError) throw new BadRequestError('Invalid import file', { details: error.message });
+      throw error;
+    }
+    const parsed = collectionImportSchema.safeParse(file.document);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error);
+    }
+
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+
+    // Ciphertext is only readable with the key of the collection it came from, and plaintext must never reach an encrypted one
+    if (parsed.data.encrypted !== access.meta.encrypted) {
+      throw new BadRequestError('Import not possible', {
+        details: parsed.data.encrypted
+          ? 'This export is end-to-end encrypted; import it into the clipboard it came from.'
+          : 'This clipboard is end-to-end encrypted; unencrypted exports cannot be imported into it.',
+      });
+    }
+    if (access.meta.encrypted && parsed.data.items.some(item => !isEncryptedPayload(item.content) || (item.htmlContent !== undefined && !isEncryptedPayload(item.htmlContent)))) {
+      throw new BadRequestError('Invalid import file', { details: 'Items of an encrypted export must have encrypted content.' });
+    }
+
+    // Imported items go on top of the current ones, in their exported order
+    const { items: currentItems } = await store.getCollection(access.collectionId);
+    const { entries, skipped } = createImportedItems(parsed.data, file.attachments, Math.max(-Infinity, ...currentItems.map(getItemPosition)));
+    if (!access.meta.encrypted) {
+      // Same treatment as HTML added through the add route
+      entries.forEach(({ item }) => {
+        if (item.htmlContent !== undefined) item.htmlContent = sanitizeClipboardHtml(item.htmlContent);
+      });
+    }
+
+    // Throws CollectionFullError (413) when the items do not fit; nothing is added then
+    const added = await store.addItems(access.collectionId, entries);
+    if (added.length > 0) {
+      await store.publishEvent(access.collectionId, { type: 'items-imported', count: added.length });
+    }
+
+    const result: CollectionImportResult = { imported: added.length, skipped };
+    return NextResponse.json(result, { status: 201 });
+  }
+);
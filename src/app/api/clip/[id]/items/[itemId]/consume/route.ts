@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { NotFoundError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { redactLimitedItem } from '@/lib/storage';
+
+interface Params {
+  id: string;
+  itemId: string;
+}
+
+// Reveals a view-limited item, counting one view and deleting the item after its last one
+export const POST = withStoreRoute<Params>(
+  { failureMessage: 'Failed to reveal item', rateLimit: 'consume', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId, itemId }, store }) => {
+    const access = await requireCollectionAccess(store, collectionId, request);
+
+    const result = await store.consumeItem(access.collectionId, itemId);
+    if (!result) {
+      throw new NotFoundError('Item not found', { details: 'It may have reached its view limit already.' });
+    }
+
+    // Other devices only learn the new count (or that the item is gone), never the content
+    if (result.deleted) {
+      await store.publishEvent(access.collectionId, { type: 'item-deleted', itemId });
+    } else if (result.item.viewsRemaining !== undefined) {
+      await store.publishEvent(access.collectionId, { type: 'item-updated', item: redactLimitedItem(result.item) });
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  }
+);
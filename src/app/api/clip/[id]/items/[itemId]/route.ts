@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, NotFoundError, ValidationError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { isEncryptedPayload } from '@/lib/e2e-crypto';
+import { sanitizeClipboardHtml } from '@/lib/html-sanitizer';
+import { isEditableItem, type ClipboardItemEdit } from '@/lib/item-history';
+import { clipboardItemUpdateSchema } from '@/lib/types';
+
+interface Params {
+  id: string;
+  itemId: string;
+}
+
+// Edits a text, URL or HTML item in place. `version` must match the stored item's version;
+// otherwise the edit is rejected with 412 and the current item, so the client can merge.
+export const PATCH = withStoreRoute<Params>(
+  { failureMessage: 'Failed to update item', rateLimit: 'update', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId, itemId }, store }) => {
+    let rawBody: unknown;
+    try {
+      rawBody = await request.json();
+    } catch {
+      throw new BadRequestError('Invalid request body', { details: 'Could not parse JSON.' });
+    }
+    const parsed = clipboardItemUpdateSchema.safeParse(rawBody);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error);
+    }
+    const { version, ...fields } = parsed.data;
+
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+
+    // End-to-end encrypted collections must never receive plaintext
+    if (access.meta.encrypted && (!isEncryptedPayload(fields.content) || (fields.htmlContent !== undefined && !isEncryptedPayload(fields.htmlContent)))) {
+      throw new BadRequestError('Invalid request body', { details: 'This collection is end-to-end encrypted; item content must be encrypted by the client.' });
+    }
+
+    const existing = await store.getItem(access.collectionId, itemId);
+    if (!existing) {
+      throw new NotFoundError('Item not found');
+    }
+    if (!isEditableItem(existing)) {
+      throw new BadRequestError('Item cannot be edited', { details: 'Only text, URL and HTML items without a view limit can be edited.' });
+    }
+
+    const edit: ClipboardItemEdit = { type: fields.type, content: fields.content };
+    if (fields.htmlContent !== undefined) {
+      edit.htmlContent = access.meta.encrypted ? fields.htmlContent : sanitizeClipboardHtml(fields.htmlContent);
+    }
+
+    const updatedItem = await store.updateItem(access.collectionId, itemId, edit, version);
+    if (!updatedItem) {
+      throw new NotFoundError('Item not found'); // Deleted since it was read above
+    }
+
+    await store.publishEvent(access.collectionId, { type: 'item-updated', item: updatedItem });
+
+    return NextResponse.json(updatedItem, { status: 200 });
+  }
+);
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, ValidationError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { decodeSearchCursor, searchItems } from '@/lib/item-search';
+import { redactLimitedItem } from '@/lib/storage';
+import { itemArrangementSchema, itemBatchDeleteSchema, itemSearchQuerySchema, toValidationErrorResponse, type ItemSearchPage } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+/**
+ * Searches a collection: `q` (words matched against the content, ignoring case), `type` and
+ * `tag` (repeatable or comma separated), `from` / `to` (creation time, ISO 8601), `limit` and `cursor`.
+ * End-to-end encrypted collections only hold ciphertext, so `q` is rejected there.
+ */
+export const GET = withStoreRoute<Params>(
+  { failureMessage: 'Failed to search items', rateLimit: 'read', collectionParam: 'id' },
+  async ({ request, params: { id }, store }) => {
+    const { searchParams } = new URL(request.url);
+    const getList = (name: string) => {
+      const values = searchParams.getAll(name).flatMap(value => value.split(',')).filter(Boolean);
+      return values.length > 0 ? values : undefined;
+    };
+    const parsed = itemSearchQuerySchema.safeParse({
+      q: searchParams.get('q') ?? undefined,
+      types: getList('type'),
+      tags: getList('tag'),
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      cursor: searchParams.get('cursor') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+    if (!parsed.success) {
+      const { body } = toValidationErrorResponse(parsed.error);
+      throw new BadRequestError('Invalid search query', { code: 'VALIDATION_FAILED', details: body.details, extra: { issues: body.issues } });
+    }
+    const cursor = parsed.data.cursor === undefined ? null : decodeSearchCursor(parsed.data.cursor);
+    if (parsed.data.cursor !== undefined && !cursor) {
+      throw new BadRequestError('Invalid search query', { code: 'VALIDATION_FAILED', details: 'cursor: Not a cursor returned by this endpoint.' });
+    }
+
+    const access = await requireCollectionAccess(store, id, request);
+    if (parsed.data.q && access.meta.encrypted) {
+      throw new BadRequestError('Search not available', {
+        details: 'This clipboard is end-to-end encrypted, so the server cannot search its content. Filter by type or date instead.',
+      });
+    }
+
+    const collection = await store.getCollection(access.collectionId);
+    const page: ItemSearchPage = searchItems(collection.items, parsed.data, cursor);
+    return NextResponse.json(page, { status: 200 });
+  }
+);
+
+// Pins, stars, tags and reorders items. Returns the items that changed (unknown IDs are ignored).
+export const PATCH = withStoreRoute<Params>(
+  { failureMessage: 'Failed to arrange items', rateLimit: 'update', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    let rawBody: unknown;
+    try {
+      rawBody = await request.json();
+    } catch {
+      throw new BadRequestError('Invalid request body', { details: 'Could not parse JSON.' });
+    }
+    const parsed = itemArrangementSchema.safeParse(rawBody);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error);
+    }
+
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+
+    const changedItems = (await store.arrangeItems(access.collectionId, parsed.data)).map(redactLimitedItem);
+    for (const item of changedItems) {
+      await store.publishEvent(access.collectionId, { type: 'item-updated', item });
+    }
+
+    return NextResponse.json({ items: changedItems }, { status: 200 });
+  }
+);
+
+// Deletes several items (`{ "ids": [...] }`) or all of them (`{ "all": true }`) in one go.
+// Unknown IDs are ignored; returns the IDs that were deleted.
+export const DELETE = withStoreRoute<Params>(
+  { failureMessage: 'Failed to delete items', rateLimit: 'delete', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    let rawBody: unknown;
+    try {
+      rawBody = await request.json();
+    } catch {
+      throw new BadRequestError('Invalid request body', { details: 'Could not parse JSON.' });
+    }
+    const parsed = itemBatchDeleteSchema.safeParse(rawBody);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error);
+    }
+
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+
+    const deletedItems = await store.deleteItems(access.collectionId, parsed.data.all ? 'all' : parsed.data.ids ?? []);
+    const deletedIds = deletedItems.map(({ id }) => id);
+    if (deletedIds.length > 0) {
+      await store.publishEvent(access.collectionId, { type: 'items-deleted', itemIds: deletedIds });
+    }
+
+    return NextResponse.json({ deletedIds }, { status: 200 });
+  }
+);
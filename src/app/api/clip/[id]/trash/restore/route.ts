@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, ValidationError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { redactLimitedItem } from '@/lib/storage';
+import { itemRestoreSchema } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+// Moves items out of the trash (`{ "ids": [...] }`). Expired or unknown IDs are ignored; returns the restored items.
+export const POST = withStoreRoute<Params>(
+  { failureMessage: 'Failed to restore items', rateLimit: 'update', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    let rawBody: unknown;
+    try {
+      rawBody = await request.json();
+    } catch {
+      throw new BadRequestError('Invalid request body', { details: 'Could not parse JSON.' });
+    }
+    const parsed = itemRestoreSchema.safeParse(rawBody);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error);
+    }
+
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+
+    // Throws CollectionFullError (413) when the items no longer fit
+    const restoredItems = (await store.restoreItems(access.collectionId, parsed.data.ids)).map(redactLimitedItem);
+    for (const item of restoredItems) {
+      await store.publishEvent(access.collectionId, { type: 'item-added', item });
+    }
+
+    return NextResponse.json({ items: restoredItems }, { status: 200 });
+  }
+);
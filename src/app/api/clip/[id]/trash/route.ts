@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, ValidationError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { TRASH_RETENTION_MS } from '@/lib/storage';
+import { itemBatchDeleteSchema, type CollectionTrash } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+// Lists deleted items that can still be restored. Only for editors: read-only links never see the trash.
+export const GET = withStoreRoute<Params>(
+  { failureMessage: 'Failed to load the trash', rateLimit: 'read', collectionParam: 'id' },
+  async ({ request, params: { id }, store }) => {
+    const access = await requireCollectionAccess(store, id, request, { write: true });
+
+    const trash: CollectionTrash = {
+      items: await store.getTrash(access.collectionId),
+      retentionSeconds: TRASH_RETENTION_MS / 1000,
+    };
+    return NextResponse.json(trash, { status: 200 });
+  }
+);
+
+// Deletes items from the trash for good (`{ "ids": [...] }`) or empties it (`{ "all": true }`).
+// IDs that are not in the trash are ignored; returns the IDs that were purged.
+export const DELETE = withStoreRoute<Params>(
+  { failureMessage: 'Failed to empty the trash', rateLimit: 'delete', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    let rawBody: unknown;
+    try {
+      rawBody = await request.json();
+    } catch {
+      throw new BadRequestError('Invalid request body', { details: 'Could not parse JSON.' });
+    }
+    const parsed = itemBatchDeleteSchema.safeParse(rawBody);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error);
+    }
+
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+
+    const purgedIds = await store.purgeTrash(access.collectionId, parsed.data.all ? 'all' : parsed.data.ids ?? []);
+    return NextResponse.json({ purgedIds }, { status: 200 });
+  }
+);
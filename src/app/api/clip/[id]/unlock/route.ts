@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, UnauthorizedError } from '@/lib/api-errors';
+import { createSession, resolveCollectionRef, validatePassphrase, verifyPassphrase } from '@/lib/collection-auth';
+
+interface Params {
+  id: string;
+}
+
+// Exchanges a collection passphrase for a short-lived session token
+export const POST = withStoreRoute<Params>(
+  { failureMessage: 'Failed to unlock collection', rateLimit: 'unlock', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    let passphrase: string;
+    try {
+      const body = await request.json();
+      const validationError = validatePassphrase(body?.passphrase);
+      if (validationError) {
+          throw new Error(validationError);
+      }
+      passphrase = body.passphrase;
+    } catch (error) {
+      throw new BadRequestError('Invalid request body', { details: error instanceof Error ? error.message : 'Could not parse JSON.' });
+    }
+
+    // Viewers unlock through their read-only token; the session belongs to the collection itself
+    const { collectionId: resolvedId } = await resolveCollectionRef(store, collectionId);
+    const meta = await store.getCollectionMeta(resolvedId);
+    if (!meta.passwordHash) {
+      throw new BadRequestError('Collection is not password protected');
+    }
+
+    if (!(await verifyPassphrase(passphrase, meta.passwordHash))) {
+      throw new UnauthorizedError('Incorrect passphrase', { code: 'INCORRECT_PASSPHRASE' });
+    }
+
+    const session = await createSession(store, resolvedId);
+    return NextResponse.json(session, { status: 200 });
+  }
+);
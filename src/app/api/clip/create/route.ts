@@ -1,12 +1,36 @@
 
 import { NextResponse } from 'next/server';
-import { getRedisClient, getRedisInitializationError } from '@/lib/redis';
-import type { SharedClipCollection } from '@/lib/types';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, ServerConfigError } from '@/lib/api-errors';
+import { READ_ONLY_TOKEN_PREFIX } from '@/lib/storage';
+import { COLLECTION_EXPIRY_SECONDS, DEFAULT_COLLECTION_EXPIRY, isCollectionExpiry } from '@/lib/expiry';
+import { createSession, hashPassphrase, validatePassphrase } from '@/lib/collection-auth';
+import { randomBytes } from 'crypto';
+import type { CollectionExpiry } from '@/lib/types';
 
 // Define the structure for the response
 interface CreateResponse {
     url: string;
     id: string;
+    passwordProtected: boolean;
+    encrypted: boolean;
+    expiry: CollectionExpiry;
+    slidingExpiry: boolean;
+    expiresAt: string | null; // null when the collection never expires
+    // View-only link for broadcasting; it cannot add or delete items
+    readOnlyToken: string;
+    readOnlyUrl: string;
+    // Present for protected collections so the creator does not have to unlock right away
+    sessionToken?: string;
+    sessionExpiresAt?: string;
+}
+
+// Optional JSON body accepted by POST /api/clip/create
+interface CreateRequestBody {
+    passphrase?: string;
+    encrypted?: boolean; // End-to-end encrypted collection; the key never reaches the server
+    expiry?: CollectionExpiry; // Defaults to 7 days
+    slidingExpiry?: boolean; // Restart the countdown whenever the collection is opened
 }
 
 // Helper function to determine the base URL at runtime - CRITICAL for share URLs
@@ -53,72 +77,50 @@ const getRuntimeBaseUrl = (): string | null => {
 };
 
 
-export async function POST() {
-  const initError = getRedisInitializationError();
-  // Allow connection errors to be handled later if client can be created initially
-  if (initError && !initError.startsWith('Redis Client Error') && !initError.startsWith('Failed to create Redis client')) {
-      console.error('API Config Error: Redis setup failed before connection attempt.', initError);
-      return NextResponse.json(
-          { error: 'Server configuration error (Redis)', details: initError },
-          { status: 500 }
-      );
-  }
+export const POST = withStoreRoute({ failureMessage: 'Failed to create clip collection', rateLimit: 'create' }, async ({ request, store }) => {
+   // --- Optional request body (an empty body creates an open collection) ---
+   let body: CreateRequestBody = {};
+   try {
+       const rawBody = await request.text();
+       body = rawBody.trim() ? JSON.parse(rawBody) : {};
+   } catch {
+       throw new BadRequestError('Invalid request body', { details: 'Could not parse JSON.' });
+   }
+   if (body.passphrase !== undefined && body.passphrase !== '') {
+       const passphraseError = validatePassphrase(body.passphrase);
+       if (passphraseError) {
+           throw new BadRequestError('Invalid passphrase', { details: passphraseError });
+       }
+   }
+   const passphrase = body.passphrase || undefined;
+   if (body.expiry !== undefined && !isCollectionExpiry(body.expiry)) {
+       throw new BadRequestError('Invalid expiry', { details: `Expiry must be one of: ${Object.keys(COLLECTION_EXPIRY_SECONDS).join(', ')}.` });
+   }
+   const expiry = body.expiry ?? DEFAULT_COLLECTION_EXPIRY;
 
    // --- URL Construction: Must happen before DB interaction if failure prevents URL gen ---
    const baseUrl = getRuntimeBaseUrl();
    if (!baseUrl) {
-       return NextResponse.json(
-           { error: 'Server configuration error', details: 'Cannot determine application base URL. NEXT_PUBLIC_BASE_URL environment variable might be missing or invalid.' },
-           { status: 500 }
-       );
+       throw new ServerConfigError('Cannot determine application base URL. NEXT_PUBLIC_BASE_URL environment variable might be missing or invalid.');
    }
    // --- End URL Construction ---
 
-
-  let redis;
-  try {
-     redis = await getRedisClient();
-  } catch (error) {
-     console.error('API Runtime Error: Failed to get Redis client:', error);
-     const errorDetails = error instanceof Error ? error.message : 'Could not connect to Redis.';
-     // Check if it's the specific initialization error related to URL format
-     if (initializationError && (initializationError.includes('invalid URL') || initializationError.includes('https'))) {
-        return NextResponse.json(
-            { error: 'Server configuration error (Redis)', details: initializationError },
-            { status: 500 }
-        );
-     }
-     return NextResponse.json(
-         { error: 'Failed to connect to database', details: errorDetails },
-         { status: 500 }
-     );
-  }
-
-  try {
     const collectionId = crypto.randomUUID();
-    const now = new Date().toISOString();
-
-    const newCollection: SharedClipCollection = {
-      id: collectionId,
-      items: [],
-      createdAt: now,
-    };
-
-    const collectionKey = `clip:${collectionId}`;
-    const expirationInSeconds = 7 * 24 * 60 * 60; // 7 days
-
-    const setResult = await redis.set(collectionKey, JSON.stringify(newCollection), {
-        EX: expirationInSeconds,
-        // NX: true // Optional: Only set if the key does not already exist
+    // Opaque, so a read-only link reveals nothing about the editor link
+    const readOnlyToken = `${READ_ONLY_TOKEN_PREFIX}${randomBytes(18).toString('base64url')}`;
+
+    // Only a salted hash of the passphrase is stored
+    const passwordHash = passphrase ? await hashPassphrase(passphrase) : undefined;
+
+    // Stores the collection metadata; items are added later
+    const collection = await store.createCollection(collectionId, {
+      passwordHash,
+      encrypted: body.encrypted === true,
+      expiry,
+      slidingExpiry: body.slidingExpiry === true,
+      readOnlyToken,
     });
 
-    // Check if SET command was successful (node-redis v4 returns 'OK' on success)
-    if (setResult !== 'OK') {
-        console.error(`Failed to set collection ${collectionId} in Redis. Result: ${setResult}`);
-        // Provide a more specific error if possible, otherwise generic
-        throw new Error('Failed to save new collection data to Redis.');
-    }
-
 
     const collectionUrl = `${baseUrl}/clip/${collectionId}`;
     console.log(`Create API: Successfully generated collection URL: ${collectionUrl}`);
@@ -126,16 +128,19 @@ export async function POST() {
     const response: CreateResponse = {
       url: collectionUrl,
       id: collectionId,
+      passwordProtected: !!passwordHash,
+      encrypted: body.encrypted === true,
+      expiry,
+      slidingExpiry: body.slidingExpiry === true,
+      expiresAt: collection.expiresAt ?? null,
+      readOnlyToken,
+      readOnlyUrl: `${baseUrl}/clip/${readOnlyToken}`,
     };
+    if (passwordHash) {
+      const session = await createSession(store, collectionId);
+      response.sessionToken = session.token;
+      response.sessionExpiresAt = session.expiresAt;
+    }
 
     return NextResponse.json(response, { status: 201 });
-
-  } catch (error) {
-    console.error('Failed to create clip collection:', error);
-    const errorDetails = error instanceof Error ? error.message : 'An unknown error occurred.';
-    return NextResponse.json(
-        { error: 'Failed to create clip collection', details: errorDetails },
-        { status: 500 }
-    );
-  }
-}
+});
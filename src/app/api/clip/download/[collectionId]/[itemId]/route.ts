@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { withStoreRoute } from '@/lib/api-route';
+import { NotFoundError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { isAttachmentItem, isImageMimeType, normalizeAttachmentMimeType } from '@/lib/attachments';
+
+interface Params {
+  collectionId: string;
+  itemId: string;
+}
+
+export const GET = withStoreRoute<Params>(
+  { failureMessage: 'Failed to download attachment', rateLimit: 'read', collectionParam: 'collectionId' },
+  async ({ request, params: { collectionId, itemId }, store }) => {
+    const access = await requireCollectionAccess(store, collectionId, request);
+
+    const item = await store.getItem(access.collectionId, itemId);
+    if (!item || !isAttachmentItem(item)) {
+      throw new NotFoundError('Attachment not found');
+    }
+
+    const blob = await store.getAttachmentBlob(access.collectionId, itemId);
+    if (blob === null) {
+      throw new NotFoundError('Attachment data not found or expired');
+    }
+
+    const { filename, mimeType, checksum } = item.attachment;
+    // Blobs are served from our own origin, so only known raster images are shown inline with their
+    // own type; everything else (HTML, SVG, ...) is forced to download as opaque bytes
+    const inline = isImageMimeType(mimeType) && !new URL(request.url).searchParams.has('download');
+    const disposition = `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(filename)}`;
+
+    return new NextResponse(blob, {
+      status: 200,
+      headers: {
+        'Content-Type': inline ? normalizeAttachmentMimeType(mimeType) : 'application/octet-stream',
+        'Content-Length': String(blob.byteLength),
+        'Content-Disposition': disposition,
+        'ETag': `"${checksum}"`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox',
+      },
+    });
+  }
+);
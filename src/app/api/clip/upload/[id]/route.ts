@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { withStoreRoute } from '@/lib/api-route';
+import { BadRequestError, PayloadTooLargeError, ValidationError } from '@/lib/api-errors';
+import { requireCollectionAccess } from '@/lib/collection-auth';
+import { isEncryptedPayload } from '@/lib/e2e-crypto';
+import { MAX_ATTACHMENT_SIZE_BYTES, formatFileSize, getAttachmentItemType, getMaxAttachmentBlobBytes, normalizeAttachmentMimeType } from '@/lib/attachments';
+import { itemTagsSchema, type ClipboardItemData } from '@/lib/types';
+
+interface Params {
+  id: string;
+}
+
+export const POST = withStoreRoute<Params>(
+  { failureMessage: 'Failed to upload attachment', rateLimit: 'upload', collectionParam: 'id' },
+  async ({ request, params: { id: collectionId }, store }) => {
+    // Expect multipart/form-data with a single `file` field and optional `tags` fields
+    let file: File;
+    let rawTags: FormDataEntryValue[];
+    try {
+      const formData = await request.formData();
+      const fileEntry = formData.get('file');
+      if (!fileEntry || typeof fileEntry === 'string') {
+          throw new Error('Missing "file" field in form data.');
+      }
+      file = fileEntry;
+      rawTags = formData.getAll('tags');
+    } catch (error) {
+      throw new BadRequestError('Invalid request body', { details: error instanceof Error ? error.message : 'Could not parse form data.' });
+    }
+    const parsedTags = itemTagsSchema.safeParse(rawTags);
+    if (!parsedTags.success) {
+      throw new ValidationError(parsedTags.error);
+    }
+
+    if (file.size === 0) {
+      throw new BadRequestError('Invalid request body', { details: 'Uploaded file is empty.' });
+    }
+    const access = await requireCollectionAccess(store, collectionId, request, { write: true });
+    if (file.size > getMaxAttachmentBlobBytes(access.meta.encrypted)) {
+      throw new PayloadTooLargeError('File too large', { details: `Maximum upload size is ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)}.` });
+    }
+
+    const blob = Buffer.from(await file.arrayBuffer());
+    const mimeType = normalizeAttachmentMimeType(file.type);
+    const filename = file.name || 'upload';
+
+    // In encrypted collections the file name is ciphertext too (the bytes are opaque to us either way)
+    if (access.meta.encrypted && !isEncryptedPayload(filename)) {
+      throw new BadRequestError('Invalid request body', { details: 'This collection is end-to-end encrypted; files must be encrypted by the client.' });
+    }
+
+    const newItem: ClipboardItemData = {
+      id: crypto.randomUUID(),
+      type: getAttachmentItemType(mimeType),
+      content: filename, // Plain-text representation of the attachment
+      attachment: {
+        filename,
+        mimeType,
+        size: blob.byteLength,
+        checksum: createHash('sha256').update(blob).digest('hex'),
+      },
+      createdAt: new Date().toISOString(),
+    };
+    if (parsedTags.data.length > 0) newItem.tags = parsedTags.data;
+
+    // The blob is stored alongside the item and expires with the collection
+    await store.addItem(access.collectionId, newItem, blob);
+
+    await store.publishEvent(access.collectionId, { type: 'item-added', item: newItem });
+
+    return NextResponse.json(newItem, { status: 201 });
+  }
+);
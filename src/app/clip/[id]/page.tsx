@@ -1,15 +1,31 @@
 
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation'; // Use App Router hooks
 import ClipboardManager from '@/components/clipboard-manager';
 import { Button } from '@/components/ui/button';
-import { Loader2, ArrowLeft, Copy, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Loader2, ArrowLeft, Copy, RefreshCw, AlertTriangle, Lock, ShieldCheck, Clock, Eye, Download, Upload } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import type { SharedClipCollection } from '@/lib/types';
+import type { CollectionExpiry, CollectionImportResult, ExportFormat, SharedClipCollection } from '@/lib/types';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'; // Import Tooltip components
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { clearSessionToken, fetchWithSession, saveSessionToken } from '@/lib/clip-session';
+import { decryptItems, importKeyFromFragment } from '@/lib/e2e-crypto';
+import { COLLECTION_EXPIRY_LABELS, formatTimeRemaining } from '@/lib/expiry';
+import { formatFileSize } from '@/lib/attachments';
+import { Progress } from '@/components/ui/progress';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+
+// Labels of the export menu; Markdown and text need readable content, so encrypted clipboards only offer JSON and ZIP
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  md: 'Markdown',
+  txt: 'Plain text',
+  zip: 'ZIP (with files)',
+};
 
 export default function SharedClipPage() {
   const params = useParams();
@@ -21,7 +37,37 @@ export default function SharedClipPage() {
   const [error, setError] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  // Password-protected collections: shown until a passphrase is exchanged for a session token
+  const [isLocked, setIsLocked] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
+  // End-to-end encrypted collections: the key travels in the URL fragment and is read once on mount
+  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | null>(null);
+  const [isKeyLoaded, setIsKeyLoaded] = useState(false);
+
+  // Expiry countdown, ticking once per second
+  const [now, setNow] = useState(() => Date.now());
+  const [isExtending, setIsExtending] = useState(false);
+
+  // Export downloads and imports from a JSON or ZIP export (into this clipboard or a new one)
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importIntoNewRef = useRef(false);
+
   const collectionUrl = typeof window !== 'undefined' ? window.location.href : '';
+  // Editors get a view-only link too; it keeps the key fragment so viewers can decrypt
+  const readOnlyUrl = typeof window !== 'undefined' && collectionData?.readOnlyToken
+    ? `${window.location.origin}/clip/${collectionData.readOnlyToken}${window.location.hash}`
+    : null;
+
+  useEffect(() => {
+    if (!collectionData?.expiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [collectionData?.expiresAt]);
 
 
   const fetchCollection = async () => {
@@ -29,15 +75,29 @@ export default function SharedClipPage() {
       setIsRefreshing(true); // Indicate refresh start
       setError(null);
       try {
-        const response = await fetch(`/api/clip/${collectionId}`);
+        const response = await fetchWithSession(collectionId, `/api/clip/${collectionId}`);
+        if (response.status === 401) {
+            // Protected collection without a valid session: ask for the passphrase
+            clearSessionToken(collectionId);
+            setCollectionData(null);
+            setIsLocked(true);
+            return;
+        }
         if (!response.ok) {
              const errorData = await response.json().catch(() => ({ error: `HTTP error! status: ${response.status}` }));
              throw new Error(errorData.error || `Failed to fetch collection (Status: ${response.status})`);
         }
         const data: SharedClipCollection = await response.json();
+        if (data.encrypted) {
+            if (!encryptionKey) {
+                throw new Error('This clipboard is end-to-end encrypted, but the link is missing its decryption key. Open the full link (including the part after #).');
+            }
+            data.items = await decryptItems(encryptionKey, data.items);
+        }
         // Ensure items are sorted by date, newest first (API should ideally handle this)
         data.items.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
         setCollectionData(data);
+        setIsLocked(false);
       } catch (fetchError) {
          console.error("Error fetching collection:", fetchError);
          const message = fetchError instanceof Error ? fetchError.message : 'An unexpected error occurred.';
@@ -52,6 +112,14 @@ export default function SharedClipPage() {
 
 
   useEffect(() => {
+    importKeyFromFragment(window.location.hash).then(key => {
+        setEncryptionKey(key);
+        setIsKeyLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isKeyLoaded) return; // Items cannot be decrypted before the key is imported
     if (collectionId) {
       fetchCollection();
     } else {
@@ -62,9 +130,155 @@ export default function SharedClipPage() {
     // Intentionally empty dependency array to run only once on mount,
     // manual refresh is provided. Add collectionId if needed but be mindful of loops.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [collectionId]);
+  }, [collectionId, isKeyLoaded]);
 
 
+ const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!collectionId || !passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+        const response = await fetch(`/api/clip/${collectionId}/unlock`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ passphrase }),
+        });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(result.details || result.error || `Unlock failed (Status: ${response.status})`);
+        }
+        saveSessionToken(collectionId, result.token, result.expiresAt);
+        setPassphrase('');
+        setIsLoading(true);
+        await fetchCollection();
+    } catch (unlockFailure) {
+        const message = unlockFailure instanceof Error ? unlockFailure.message : 'Could not unlock the clipboard.';
+        setUnlockError(message);
+    } finally {
+        setIsUnlocking(false);
+    }
+ };
+
+ const handleExtend = async (expiry: CollectionExpiry) => {
+    if (!collectionId || isExtending) return;
+    setIsExtending(true);
+    try {
+        const response = await fetchWithSession(collectionId, `/api/clip/${collectionId}/extend`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ expiry }),
+        });
+        if (response.status === 401) {
+            clearSessionToken(collectionId);
+            setIsLocked(true);
+            return;
+        }
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(result.details || result.error || `Extend failed (Status: ${response.status})`);
+        }
+        setCollectionData(prev => prev ? { ...prev, expiry: result.expiry, expiresAt: result.expiresAt } : prev);
+        toast({
+            title: 'Expiry Updated',
+            description: result.expiresAt
+                ? `This clipboard now expires ${new Date(result.expiresAt).toLocaleString()}.`
+                : 'This clipboard will no longer expire.',
+        });
+    } catch (extendError) {
+        const message = extendError instanceof Error ? extendError.message : 'Could not change the expiry.';
+        toast({ title: 'Extend Failed', description: message, variant: 'destructive' });
+    } finally {
+        setIsExtending(false);
+    }
+ };
+
+ const handleExport = async (format: ExportFormat) => {
+    if (!collectionId || isExporting) return;
+    setIsExporting(true);
+    try {
+        const response = await fetchWithSession(collectionId, `/api/clip/${collectionId}/export?format=${format}`);
+        if (response.status === 401) {
+            clearSessionToken(collectionId);
+            setIsLocked(true);
+            return;
+        }
+        if (!response.ok) {
+            const result = await response.json().catch(() => ({}));
+            throw new Error(result.details || result.error || `Export failed (Status: ${response.status})`);
+        }
+        const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? `clipboard.${format}`;
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (exportError) {
+        const message = exportError instanceof Error ? exportError.message : 'Could not export the clipboard.';
+        toast({ title: 'Export Failed', description: message, variant: 'destructive' });
+    } finally {
+        setIsExporting(false);
+    }
+ };
+
+ const chooseImportFile = (intoNewClipboard: boolean) => {
+    importIntoNewRef.current = intoNewClipboard;
+    importInputRef.current?.click();
+ };
+
+ const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again should import it again
+    if (!file || !collectionId || isImporting) return;
+    const intoNewClipboard = importIntoNewRef.current;
+    setIsImporting(true);
+    try {
+        let targetId = collectionId;
+        if (intoNewClipboard) {
+            const response = await fetch('/api/clip/create', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ expiry: collectionData?.expiry }),
+            });
+            const result = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                throw new Error(result.details || result.error || `Could not create a clipboard (Status: ${response.status})`);
+            }
+            targetId = result.id;
+        }
+        const response = await fetchWithSession(targetId, `/api/clip/${targetId}/import`, {
+            method: 'POST',
+            headers: { 'Content-Type': file.type || 'application/octet-stream' },
+            body: file,
+        });
+        if (response.status === 401) {
+            clearSessionToken(collectionId);
+            setIsLocked(true);
+            return;
+        }
+        const result: Partial<CollectionImportResult> & { error?: string; details?: string } = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(result.details || result.error || `Import failed (Status: ${response.status})`);
+        }
+        const imported = result.imported ?? 0;
+        toast({
+            title: 'Import Complete',
+            description: `${imported} ${imported === 1 ? 'item' : 'items'} imported${result.skipped ? `; ${result.skipped} images or files were skipped because the export did not contain them` : ''}.`,
+        });
+        if (intoNewClipboard) {
+            router.push(`/clip/${targetId}`);
+        } else {
+            await fetchCollection();
+        }
+    } catch (importError) {
+        const message = importError instanceof Error ? importError.message : 'Could not import the file.';
+        toast({ title: 'Import Failed', description: message, variant: 'destructive' });
+    } finally {
+        setIsImporting(false);
+    }
+ };
+
  const handleCopyToClipboard = (url: string) => {
     // Check if clipboard API is available
     if (!navigator.clipboard || !navigator.clipboard.writeText) {
@@ -132,6 +346,44 @@ export default function SharedClipPage() {
     );
   }
 
+  if (isLocked) {
+    return (
+      <div className="flex flex-col items-center gap-6">
+        <Card className="w-full max-w-md shadow-md">
+          <form onSubmit={handleUnlock}>
+            <CardHeader className="text-center">
+              <Lock className="h-10 w-10 mx-auto text-accent mb-2" />
+              <CardTitle>This Clipboard Is Locked</CardTitle>
+              <CardDescription>Enter the passphrase that was set when this shared clipboard was created.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoFocus
+                autoComplete="current-password"
+                disabled={isUnlocking}
+                aria-label="Passphrase"
+              />
+              {unlockError && <p className="text-sm text-destructive">{unlockError}</p>}
+            </CardContent>
+            <CardFooter className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => router.push('/')}>
+                <ArrowLeft className="mr-2 h-4 w-4" /> Home
+              </Button>
+              <Button type="submit" className="flex-grow" disabled={!passphrase || isUnlocking}>
+                {isUnlocking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                {isUnlocking ? 'Unlocking...' : 'Unlock'}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <TooltipProvider>
@@ -184,9 +436,62 @@ export default function SharedClipPage() {
                    <p>Return to the main page</p>
                  </TooltipContent>
              </Tooltip>
-             <h1 className="text-2xl font-semibold">
+             <h1 className="text-2xl font-semibold flex items-center gap-2">
+                {collectionData?.passwordProtected && <Lock className="h-5 w-5 text-muted-foreground" aria-label="Passphrase protected" />}
+                {collectionData?.encrypted && <ShieldCheck className="h-5 w-5 text-emerald-600" aria-label="End-to-end encrypted" />}
                 Shared Clipboard
+                {collectionData?.readOnly && (
+                  <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs font-normal text-muted-foreground">
+                    <Eye className="h-3 w-3" /> Read-only
+                  </span>
+                )}
              </h1>
+             <div className="flex items-center gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={isExporting}>
+                    {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Download as</DropdownMenuLabel>
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                    <DropdownMenuItem
+                      key={format}
+                      disabled={collectionData?.encrypted && (format === 'md' || format === 'txt')}
+                      onSelect={() => handleExport(format)}
+                    >
+                      {EXPORT_FORMAT_LABELS[format]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {!collectionData?.readOnly && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={isImporting}>
+                    {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                    Import
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Import a JSON or ZIP export</DropdownMenuLabel>
+                  <DropdownMenuItem onSelect={() => chooseImportFile(false)}>Into this clipboard</DropdownMenuItem>
+                  {/* A new clipboard would have a different key, so encrypted exports stay in their own clipboard */}
+                  {!collectionData?.encrypted && (
+                    <DropdownMenuItem onSelect={() => chooseImportFile(true)}>Into a new clipboard</DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              )}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.zip,application/json,application/zip"
+                className="hidden"
+                onChange={handleImportFile}
+              />
               <Tooltip>
                   <TooltipTrigger asChild>
                      <Button onClick={fetchCollection} variant="outline" size="sm" disabled={isRefreshing}>
@@ -198,11 +503,60 @@ export default function SharedClipPage() {
                      <p>Reload the items in this shared clipboard</p>
                    </TooltipContent>
                </Tooltip>
+             </div>
          </div>
 
         <p className="text-sm text-muted-foreground">
-          Items added here are synced across all devices using this URL. Keep this URL handy!
+          {collectionData?.readOnly
+            ? 'You are viewing this clipboard through a read-only link. New items appear here live.'
+            : 'Items added here appear live on all devices using this URL. Keep this URL handy!'}
         </p>
+        {collectionData?.encrypted && (
+          <p className="text-xs text-muted-foreground mt-1">
+            End-to-end encrypted: items are encrypted in your browser and the key is only in this link.
+          </p>
+        )}
+        {collectionData && (
+          <div className="mt-2 flex items-center justify-center gap-2 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            <span>
+              {collectionData.expiresAt
+                ? `Expires in ${formatTimeRemaining(new Date(collectionData.expiresAt).getTime() - now)}${collectionData.slidingExpiry ? ' (restarts when opened)' : ''}`
+                : 'Never expires'}
+            </span>
+            {!collectionData.readOnly && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" disabled={isExtending}>
+                  {isExtending ? 'Updating...' : 'Extend'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuLabel>Keep for (from now)</DropdownMenuLabel>
+                {(Object.keys(COLLECTION_EXPIRY_LABELS) as CollectionExpiry[]).map(option => (
+                  <DropdownMenuItem key={option} onSelect={() => handleExtend(option)}>
+                    {COLLECTION_EXPIRY_LABELS[option]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            )}
+          </div>
+        )}
+        {collectionData?.usage && (
+          <div className="mt-2 mx-auto max-w-xs space-y-1" title="Usage of this clipboard's storage quota">
+            <Progress
+              value={Math.min(100, Math.max(
+                (collectionData.usage.items / collectionData.usage.maxItems) * 100,
+                (collectionData.usage.bytes / collectionData.usage.maxBytes) * 100
+              ))}
+              className="h-1.5"
+            />
+            <p className="text-xs text-muted-foreground">
+              {collectionData.usage.items} of {collectionData.usage.maxItems} items · {formatFileSize(collectionData.usage.bytes)} of {formatFileSize(collectionData.usage.maxBytes)}
+            </p>
+          </div>
+        )}
          <div className="mt-4 flex items-center gap-2 justify-center">
              <input
                 type="text"
@@ -229,13 +583,36 @@ export default function SharedClipPage() {
                   </TooltipContent>
                </Tooltip>
          </div>
+         {readOnlyUrl && (
+           <div className="mt-2 flex items-center gap-2 justify-center">
+             <input
+                type="text"
+                value={readOnlyUrl}
+                readOnly
+                className="flex-grow max-w-md p-2 border rounded-md bg-muted text-muted-foreground text-sm"
+                aria-label="Read-only Clipboard URL"
+                onFocus={(e) => e.target.select()}
+             />
+             <Tooltip>
+                 <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => handleCopyToClipboard(readOnlyUrl)}>
+                        <Eye className="h-4 w-4" />
+                        <span className="sr-only">Copy Read-only URL</span>
+                    </Button>
+                 </TooltipTrigger>
+                 <TooltipContent>
+                    <p>Copy a view-only link (cannot add or delete items)</p>
+                 </TooltipContent>
+             </Tooltip>
+           </div>
+         )}
       </div>
 
       {/* Clipboard Manager for the specific collection */}
       <div className="w-full max-w-3xl">
         {collectionId ? (
           // Pass the collection ID and potentially fetched items
-          <ClipboardManager collectionId={collectionId} initialItems={collectionData?.items} />
+          <ClipboardManager collectionId={collectionId} initialItems={collectionData?.items} encryptionKey={collectionData?.encrypted ? encryptionKey : null} readOnly={collectionData?.readOnly} onUnauthorized={() => setIsLocked(true)} />
         ) : (
            // Should not happen if loading/error states are handled, but good fallback
            <p className='text-destructive text-center'>Error: Invalid Collection ID found.</p>
@@ -5,17 +5,35 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ClipboardManager from '@/components/clipboard-manager';
 import { Button } from '@/components/ui/button';
-import { Loader2, Share, Copy } from 'lucide-react';
+import { Loader2, Share, Copy, Lock, ShieldCheck, Clock, Eye } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'; // Import Tooltip components
 import { cn } from '@/lib/utils'; // Import cn utility
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { saveSessionToken } from '@/lib/clip-session';
+import { createLocalClipboardStore, migrateLocalHistoryToCollection } from '@/lib/local-store';
+import { exportKeyToFragment, generateCollectionKey } from '@/lib/e2e-crypto';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { COLLECTION_EXPIRY_LABELS, DEFAULT_COLLECTION_EXPIRY } from '@/lib/expiry';
+import type { CollectionExpiry } from '@/lib/types';
 
 export default function Home() {
   const router = useRouter();
   const [isCreating, setIsCreating] = useState(false);
   const [newCollectionUrl, setNewCollectionUrl] = useState<string | null>(null);
+  const [newReadOnlyUrl, setNewReadOnlyUrl] = useState<string | null>(null); // View-only link for broadcasting
   const [clientBaseUrl, setClientBaseUrl] = useState<string | undefined>(undefined);
+  // Local history store shared with the local ClipboardManager so it can be migrated on creation
+  const [localStore] = useState(() => createLocalClipboardStore());
+  const [moveLocalHistory, setMoveLocalHistory] = useState(true);
+  const [passphrase, setPassphrase] = useState(''); // Optional; empty creates an open clipboard
+  const [encryptCollection, setEncryptCollection] = useState(false); // End-to-end encryption, key kept in the URL fragment
+  const [expiry, setExpiry] = useState<CollectionExpiry>(DEFAULT_COLLECTION_EXPIRY);
+  const [slidingExpiry, setSlidingExpiry] = useState(false); // Restart the countdown whenever the clipboard is opened
+  const [localStoreVersion, setLocalStoreVersion] = useState(0); // Bumped to reload the local list after migration
 
   // Log the base URL available on the client side
   useEffect(() => {
@@ -27,9 +45,17 @@ export default function Home() {
   const handleCreateSharedCollection = async () => {
     setIsCreating(true);
     setNewCollectionUrl(null);
+    setNewReadOnlyUrl(null);
     try {
       const response = await fetch('/api/clip/create', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(passphrase ? { passphrase } : {}),
+          ...(encryptCollection ? { encrypted: true } : {}),
+          expiry,
+          slidingExpiry: slidingExpiry && expiry !== 'never',
+        }),
       });
 
       let responseBody: any = {};
@@ -59,18 +85,36 @@ export default function Home() {
          throw new Error(`Failed to create clip collection (Details: ${errorDetails || errorMessage})`);
       }
 
-      const { url, id } = responseBody;
+      const { url, id, sessionToken, sessionExpiresAt, encrypted, readOnlyUrl } = responseBody;
 
       if (!url || !id) {
           throw new Error('Invalid response from server: Missing URL or ID.');
       }
 
+      // The key never reaches the server: it only exists in the fragment of the share URL
+      const encryptionKey = encrypted ? await generateCollectionKey() : null;
+      const keyFragment = encryptionKey ? `#${await exportKeyToFragment(encryptionKey)}` : '';
+      const shareUrl = `${url}${keyFragment}`;
+
+      // The creator of a protected clipboard is unlocked right away in this tab
+      if (sessionToken && sessionExpiresAt) {
+          saveSessionToken(id, sessionToken, sessionExpiresAt);
+      }
+      setPassphrase('');
+
       console.log(`Shared collection created. Received URL: ${url}`); // Log the URL received from API
-      setNewCollectionUrl(url);
+      setNewCollectionUrl(shareUrl);
+      setNewReadOnlyUrl(readOnlyUrl ? `${readOnlyUrl}${keyFragment}` : null);
       toast({
           title: 'Shared Clipboard Ready!',
-          description: 'A unique URL has been created. Copy and share it to sync items across devices.',
+          description: encryptionKey
+              ? 'A unique URL has been created. The decryption key is part of the link, so keep the whole URL.'
+              : 'A unique URL has been created. Copy and share it to sync items across devices.',
       });
+
+      if (moveLocalHistory) {
+          await moveLocalHistoryInto(id, encryptionKey);
+      }
       // Optional: redirect immediately:
       // router.push(url); // Use the received URL for redirection
 
@@ -87,6 +131,30 @@ export default function Home() {
     }
   };
 
+  // Moves the local history into a freshly created shared collection.
+  // Items that fail to upload stay in the local history so nothing is lost.
+  const moveLocalHistoryInto = async (collectionId: string, encryptionKey: CryptoKey | null) => {
+      try {
+          const localItems = await localStore.load();
+          if (localItems.length === 0) return;
+
+          const { migrated, failed } = await migrateLocalHistoryToCollection(localItems, collectionId, encryptionKey);
+          await localStore.save(localItems.filter(item => !migrated.includes(item.id)));
+          setLocalStoreVersion(version => version + 1);
+
+          toast({
+              title: failed.length ? 'Local History Partially Moved' : 'Local History Moved',
+              description: failed.length
+                  ? `${migrated.length} item(s) moved to the shared clipboard; ${failed.length} could not be moved and remain local.`
+                  : `${migrated.length} item(s) moved from your local history to the shared clipboard.`,
+              variant: failed.length ? 'destructive' : 'default',
+          });
+      } catch (error) {
+          console.error('Failed to move local history:', error);
+          toast({ title: 'Local History Not Moved', description: 'Your local items are unchanged.', variant: 'destructive' });
+      }
+  };
+
   const handleCopyToClipboard = (url: string) => {
      // Check if clipboard API is available
     if (!navigator.clipboard || !navigator.clipboard.writeText) {
@@ -147,7 +215,7 @@ export default function Home() {
               <CardHeader>
                   <CardTitle>Shared Clipboard</CardTitle>
                   <CardDescription>
-                      Click below to generate a unique, shareable URL. Anyone with the URL can view and add items to this clipboard for 7 days. Data is stored securely.
+                      Click below to generate a unique, shareable URL. Anyone with the URL can view and add items to this clipboard until it expires, unless you protect it with a passphrase. Data is stored securely.
                   </CardDescription>
               </CardHeader>
               <CardContent>
@@ -181,6 +249,29 @@ export default function Home() {
                                 </Tooltip>
                           </div>
                            <p className="text-xs text-muted-foreground text-center">Copy this URL and open it on other devices to sync.</p>
+                           {newReadOnlyUrl && (
+                              <div className="flex items-center gap-2">
+                                  <input
+                                      type="text"
+                                      value={newReadOnlyUrl}
+                                      readOnly
+                                      className="flex-grow p-2 border rounded-md bg-muted text-muted-foreground text-sm"
+                                      aria-label="Read-only Clipboard URL"
+                                      onFocus={(e) => e.target.select()}
+                                  />
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                       <Button variant="outline" size="icon" onClick={() => handleCopyToClipboard(newReadOnlyUrl)} aria-label="Copy Read-only URL">
+                                           <Eye className="h-4 w-4" />
+                                           <span className="sr-only">Copy Read-only URL</span>
+                                       </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                      <p>Copy a view-only link (cannot add or delete items)</p>
+                                    </TooltipContent>
+                                  </Tooltip>
+                              </div>
+                           )}
                           <Button
                              onClick={() => router.push(newCollectionUrl)}
                              className={cn(
@@ -197,7 +288,69 @@ export default function Home() {
                       </p>
                   )}
               </CardContent>
-              <CardFooter>
+              <CardFooter className="flex-col gap-3">
+                   <div className="w-full space-y-1">
+                      <Label htmlFor="collection-passphrase" className="flex items-center gap-1 text-sm font-normal text-muted-foreground">
+                          <Lock className="h-3 w-3" /> Passphrase (optional)
+                      </Label>
+                      <Input
+                          id="collection-passphrase"
+                          type="password"
+                          value={passphrase}
+                          onChange={(e) => setPassphrase(e.target.value)}
+                          placeholder="Leave empty for an open clipboard"
+                          autoComplete="new-password"
+                          disabled={isCreating}
+                      />
+                   </div>
+                   <div className="w-full flex flex-wrap items-center gap-3">
+                      <Label htmlFor="collection-expiry" className="flex items-center gap-1 text-sm font-normal text-muted-foreground">
+                          <Clock className="h-3 w-3" /> Expires after
+                      </Label>
+                      <Select value={expiry} onValueChange={(value) => setExpiry(value as CollectionExpiry)} disabled={isCreating}>
+                          <SelectTrigger id="collection-expiry" className="w-40">
+                              <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                              {(Object.keys(COLLECTION_EXPIRY_LABELS) as CollectionExpiry[]).map(option => (
+                                  <SelectItem key={option} value={option}>{COLLECTION_EXPIRY_LABELS[option]}</SelectItem>
+                              ))}
+                          </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2">
+                          <Checkbox
+                              id="sliding-expiry"
+                              checked={slidingExpiry && expiry !== 'never'}
+                              onCheckedChange={(checked) => setSlidingExpiry(checked === true)}
+                              disabled={isCreating || expiry === 'never'}
+                          />
+                          <Label htmlFor="sliding-expiry" className="text-sm font-normal text-muted-foreground">
+                              Restart the countdown whenever it is opened
+                          </Label>
+                      </div>
+                   </div>
+                   <div className="flex items-center gap-2 self-start">
+                      <Checkbox
+                          id="encrypt-collection"
+                          checked={encryptCollection}
+                          onCheckedChange={(checked) => setEncryptCollection(checked === true)}
+                          disabled={isCreating}
+                      />
+                      <Label htmlFor="encrypt-collection" className="flex items-center gap-1 text-sm font-normal text-muted-foreground">
+                          <ShieldCheck className="h-3 w-3" /> End-to-end encrypt (the server only sees ciphertext; lose the link and the data is unreadable)
+                      </Label>
+                   </div>
+                   <div className="flex items-center gap-2 self-start">
+                      <Checkbox
+                          id="move-local-history"
+                          checked={moveLocalHistory}
+                          onCheckedChange={(checked) => setMoveLocalHistory(checked === true)}
+                          disabled={isCreating}
+                      />
+                      <Label htmlFor="move-local-history" className="text-sm font-normal text-muted-foreground">
+                          Move my local history into the new shared clipboard
+                      </Label>
+                   </div>
                    <Button
                       onClick={handleCreateSharedCollection}
                       disabled={isCreating}
@@ -221,12 +374,12 @@ export default function Home() {
                <CardHeader>
                    <CardTitle>Local Clipboard</CardTitle>
                    <CardDescription>
-                       Items added here are stored <span className="font-semibold">only in your current browser session</span> and are not shared or synced automatically. Use the "Shared Clipboard" feature above for cross-device syncing.
+                       Items added here are saved <span className="font-semibold">only in this browser</span> (they survive reloads) and are not shared or synced automatically. Use the "Shared Clipboard" feature above for cross-device syncing.
                    </CardDescription>
                </CardHeader>
                <CardContent>
                    {/* collectionId={null} indicates local mode */}
-                   <ClipboardManager collectionId={null} />
+                   <ClipboardManager key={localStoreVersion} collectionId={null} localStore={localStore} />
                </CardContent>
            </Card>
         </div>
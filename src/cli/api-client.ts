@@ -0,0 +1,169 @@
+// Relative imports: the CLI is run with tsx from any directory, where the "@/" alias is not configured
+import { CliError, type CliConfig, type SessionCache } from './config';
+import type { ConsumeResult } from '../lib/storage';
+import type { ClipboardItemData, CollectionEvent, CollectionExpiry, NewClipboardItem, SharedClipCollection } from '../lib/types';
+
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+// Response of POST /api/clip/create
+export interface CreatedCollection {
+  id: string;
+  url: string;
+  passwordProtected: boolean;
+  encrypted: boolean;
+  expiry: CollectionExpiry;
+  slidingExpiry: boolean;
+  expiresAt: string | null;
+  readOnlyToken: string;
+  readOnlyUrl: string;
+  sessionToken?: string;
+  sessionExpiresAt?: string;
+}
+
+export interface CreateCollectionOptions {
+  passphrase?: string;
+  encrypted?: boolean;
+  expiry?: CollectionExpiry;
+  slidingExpiry?: boolean;
+}
+
+// The server could not be reached at all; `watch` retries these instead of giving up
+class ConnectionError extends CliError {}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Same message the web UI shows: the API's `details`, else its `error`
+const readJson = async <T>(response: Response): Promise<T> => {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new CliError(body.details || body.error || `Request failed with status ${response.status}.`);
+  }
+  return body as T;
+};
+
+/**
+ * Thin client for the /api/clip/* routes. `collectionRef` is a collection ID or a read-only
+ * token. Requests carry the cached unlock session; a 401 unlocks with the configured
+ * passphrase once and retries.
+ */
+export const createApiClient = ({ baseUrl, collections }: CliConfig, sessions: SessionCache, configPath: string) => {
+  const unlock = async (collectionRef: string): Promise<void> => {
+    const passphrase = collections[collectionRef]?.passphrase;
+    if (!passphrase) {
+      throw new CliError(`Collection ${collectionRef} is passphrase protected. Add its "passphrase" to ${configPath}.`);
+    }
+    const response = await fetch(new URL(`/api/clip/${collectionRef}/unlock`, baseUrl), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ passphrase }),
+    });
+    const { token, expiresAt } = await readJson<{ token: string; expiresAt: string }>(response);
+    await sessions.save(collectionRef, token, expiresAt);
+  };
+
+  const request = async (collectionRef: string, pathname: string, init: RequestInit = {}, unlockOnDenied = true): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    const token = await sessions.get(collectionRef);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    let response: Response;
+    try {
+      response = await fetch(new URL(pathname, baseUrl), { ...init, headers });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new ConnectionError(`Could not reach ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (response.status === 401 && unlockOnDenied) {
+      await unlock(collectionRef);
+      return request(collectionRef, pathname, init, false);
+    }
+    return response;
+  };
+
+  return {
+    createCollection: async (options: CreateCollectionOptions): Promise<CreatedCollection> => {
+      const response = await fetch(new URL('/api/clip/create', baseUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      });
+      return readJson<CreatedCollection>(response);
+    },
+
+    getCollection: async (collectionRef: string): Promise<SharedClipCollection> =>
+      readJson<SharedClipCollection>(await request(collectionRef, `/api/clip/${collectionRef}`)),
+
+    addItem: async (collectionRef: string, item: NewClipboardItem): Promise<ClipboardItemData> =>
+      readJson<ClipboardItemData>(await request(collectionRef, `/api/clip/add/${collectionRef}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(item),
+      })),
+
+    uploadFile: async (collectionRef: string, file: File, tags: string[] = []): Promise<ClipboardItemData> => {
+      const formData = new FormData();
+      formData.append('file', file);
+      tags.forEach(tag => formData.append('tags', tag));
+      return readJson<ClipboardItemData>(await request(collectionRef, `/api/clip/upload/${collectionRef}`, { method: 'POST', body: formData }));
+    },
+
+    // Counts a view of a view-limited item and returns its content
+    consumeItem: async (collectionRef: string, itemId: string): Promise<ConsumeResult> =>
+      readJson<ConsumeResult>(await request(collectionRef, `/api/clip/${collectionRef}/items/${itemId}/consume`, { method: 'POST' })),
+
+    downloadAttachment: async (collectionRef: string, itemId: string): Promise<Buffer> => {
+      const response = await request(collectionRef, `/api/clip/download/${collectionRef}/${itemId}?download=1`);
+      if (!response.ok) await readJson(response); // Throws with the API's message
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    /**
+     * Follows the collection's event stream until `signal` aborts, reconnecting with backoff
+     * when the connection drops. Last-Event-ID makes the server replay anything missed meanwhile.
+     */
+    watch: async (collectionRef: string, onEvent: (event: CollectionEvent) => Promise<void> | void, signal?: AbortSignal): Promise<void> => {
+      let lastEventId: string | null = null;
+      let delayMs = RECONNECT_MIN_DELAY_MS;
+      while (!signal?.aborted) {
+        try {
+          const response = await request(collectionRef, `/api/clip/${collectionRef}/events`, {
+            headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+            signal,
+          });
+          if (!response.ok || !response.body) await readJson(response);
+          delayMs = RECONNECT_MIN_DELAY_MS;
+
+          const reader = response.body!.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            let boundary: number;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+              const block = buffer.slice(0, boundary);
+              buffer = buffer.slice(boundary + 2);
+              // Only `id:` and `data:` matter; comments (heartbeats), `event:` and `retry:` lines are skipped
+              let data = '';
+              for (const line of block.split('\n')) {
+                if (line.startsWith('id: ')) lastEventId = line.slice('id: '.length);
+                else if (line.startsWith('data: ')) data += line.slice('data: '.length);
+              }
+              if (data) await onEvent(JSON.parse(data) as CollectionEvent);
+            }
+          }
+        } catch (error) {
+          if (signal?.aborted) return;
+          // Problems the server reported (e.g. a deleted collection) will not go away by reconnecting
+          if (error instanceof CliError && !(error instanceof ConnectionError)) throw error;
+          console.error(`Connection lost (${error instanceof Error ? error.message : String(error)}); reconnecting...`);
+        }
+        await sleep(delayMs);
+        delayMs = Math.min(delayMs * 2, RECONNECT_MAX_DELAY_MS);
+      }
+    },
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
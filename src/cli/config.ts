@@ -0,0 +1,117 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+
+/*
+ * Configuration of the crossclip CLI: a JSON file at --config, $CROSSCLIP_CONFIG or
+ * $XDG_CONFIG_HOME/crossclip/config.json (~/.config/crossclip/config.json by default).
+ *
+ *   {
+ *     "baseUrl": "https://clip.example.com",
+ *     "collections": {
+ *       "<collection ID or read-only token>": {
+ *         "passphrase": "...",          // passphrase-protected collections
+ *         "key": "key=..."              // encrypted collections: the part after # in the share URL
+ *       }
+ *     }
+ *   }
+ *
+ * $CROSSCLIP_URL overrides baseUrl. Unlock sessions are cached next to the config in
+ * sessions.json, so protected collections are not unlocked (and rate limited) on every command.
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface CollectionCredentials {
+  passphrase?: string;
+  key?: string;
+}
+
+const cliConfigSchema = z.object({
+  baseUrl: z.string().url(),
+  collections: z.record(z.object({ passphrase: z.string().optional(), key: z.string().optional() })).default({}),
+});
+
+export type CliConfig = z.infer<typeof cliConfigSchema>;
+
+interface CachedSession {
+  token: string;
+  expiresAt: string; // ISO timestamp
+}
+
+export const getConfigPath = (override?: string): string => {
+  if (override) return path.resolve(override);
+  if (process.env.CROSSCLIP_CONFIG) return path.resolve(process.env.CROSSCLIP_CONFIG);
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'crossclip', 'config.json');
+};
+
+const readJsonFile = async (filePath: string): Promise<unknown | null> => {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return null;
+    throw error;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new CliError(`${filePath} is not valid JSON.`);
+  }
+};
+
+// Config files hold passphrases and keys, so only the owner may read them
+const writeJsonFile = async (filePath: string, value: unknown) => {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`, { mode: 0o600 });
+};
+
+export const loadConfig = async (configPath: string): Promise<CliConfig> => {
+  const raw = ((await readJsonFile(configPath)) ?? {}) as Record<string, unknown>;
+  const parsed = cliConfigSchema.safeParse({ ...raw, baseUrl: process.env.CROSSCLIP_URL || raw.baseUrl });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new CliError(
+      issue.path[0] === 'baseUrl'
+        ? `No server configured: set "baseUrl" in ${configPath} or the CROSSCLIP_URL environment variable.`
+        : `Invalid config in ${configPath}: ${issue.path.join('.')}: ${issue.message}`
+    );
+  }
+  return parsed.data;
+};
+
+// Adds or updates one collection's credentials, keeping everything else in the file as it is
+export const saveCollectionCredentials = async (configPath: string, collectionId: string, credentials: CollectionCredentials) => {
+  const raw = ((await readJsonFile(configPath)) ?? {}) as { collections?: Record<string, CollectionCredentials> };
+  raw.collections = { ...raw.collections, [collectionId]: { ...raw.collections?.[collectionId], ...credentials } };
+  await writeJsonFile(configPath, raw);
+};
+
+export const createSessionCache = (configPath: string) => {
+  const sessionsPath = path.join(path.dirname(configPath), 'sessions.json');
+  const readSessions = async () => ((await readJsonFile(sessionsPath)) ?? {}) as Record<string, CachedSession>;
+
+  return {
+    get: async (collectionId: string): Promise<string | null> => {
+      const session = (await readSessions())[collectionId];
+      return session && new Date(session.expiresAt).getTime() > Date.now() ? session.token : null;
+    },
+    save: async (collectionId: string, token: string, expiresAt: string) => {
+      const time = Date.now();
+      // Drop expired sessions while the file is being rewritten anyway
+      const sessions = Object.fromEntries(
+        Object.entries(await readSessions()).filter(([, session]) => new Date(session.expiresAt).getTime() > time)
+      );
+      sessions[collectionId] = { token, expiresAt };
+      await writeJsonFile(sessionsPath, sessions);
+    },
+  };
+};
+
+export type SessionCache = ReturnType<typeof createSessionCache>;
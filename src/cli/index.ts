@@ -0,0 +1,353 @@
+/**
+ * crossclip: command-line client for shared collections, talking to the /api/clip/* routes.
+ *
+ * Usage: npm run --silent crossclip -- <command> [options]
+ *
+ *   create [--passphrase <p>] [--encrypted] [--expiry 1h|1d|7d|30d|never] [--save]
+ *   push <collection> [file...] [--type text|url] [--tag <tag>]...
+ *   pull <collection> [--latest] [--output <dir>] [--reveal]
+ *   watch <collection> [--output <dir>]
+ *
+ * <collection> is a collection ID, a read-only token or a share link (its #key= is used for
+ * encrypted collections). push reads stdin unless files are given. Every command accepts
+ * --config <path> and --json. See config.ts for the config file.
+ */
+import { readFile, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { createApiClient, type ApiClient } from './api-client';
+import { CliError, createSessionCache, getConfigPath, loadConfig, saveCollectionCredentials, type CliConfig } from './config';
+import { MAX_ATTACHMENT_SIZE_BYTES, formatFileSize, isAttachmentItem } from '../lib/attachments';
+import {
+  decryptBytes,
+  decryptItem,
+  encryptFile,
+  encryptItemFields,
+  exportKeyToFragment,
+  generateCollectionKey,
+  importKeyFromFragment,
+} from '../lib/e2e-crypto';
+import { newClipboardItemSchema, toValidationErrorResponse, type ClipboardItemData, type CollectionExpiry } from '../lib/types';
+
+const USAGE = `Usage: crossclip <command> [options]
+
+Commands:
+  create                       Create a collection and print its links
+    --passphrase <p>           Require a passphrase to open it
+    --encrypted                End-to-end encrypt it (the key is part of the printed link)
+    --expiry <preset>          1h, 1d, 7d (default), 30d or never
+    --save                     Store the passphrase and key in the config file
+  push <collection> [file...]  Add stdin as one item, or upload the given files
+    --type <text|url>          Item type for stdin (detected by default)
+    --tag <tag>                Tag the new items (repeatable)
+  pull <collection>            Print all items (newest last) and save attachments
+    --latest                   Only the newest item
+    --output <dir>, -o         Where attachments are saved (default: current directory)
+    --reveal                   Also consume a view of view-limited items to print them
+  watch <collection>           Print items as they are added, until interrupted
+    --output <dir>, -o         Save new attachments to this directory
+
+Options:
+  --config <path>              Config file (default: $CROSSCLIP_CONFIG or ~/.config/crossclip/config.json)
+  --json                       Print JSON (one object per line for watch)
+  --help, -h                   Show this help
+
+<collection> is a collection ID, a read-only token or a share link.`;
+
+const EXPIRY_PRESETS: CollectionExpiry[] = ['1h', '1d', '7d', '30d', 'never'];
+
+// The server stores the MIME type as sent; browsers set it from the extension, so do the same for common files
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+};
+
+type Options = ReturnType<typeof parseCommandLine>['values'];
+
+interface Context {
+  api: ApiClient;
+  config: CliConfig;
+  configPath: string;
+  options: Options;
+}
+
+interface ResolvedCollection {
+  id: string; // Collection ID or read-only token, as used in API paths
+  key: CryptoKey | null; // Encryption key of end-to-end encrypted collections
+}
+
+const parseCommandLine = (args: string[]) => {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        passphrase: { type: 'string' },
+        encrypted: { type: 'boolean' },
+        expiry: { type: 'string' },
+        save: { type: 'boolean' },
+        type: { type: 'string' },
+        tag: { type: 'string', multiple: true },
+        latest: { type: 'boolean' },
+        output: { type: 'string', short: 'o' },
+        reveal: { type: 'boolean' },
+      },
+    });
+  } catch (error) {
+    throw new CliError(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+  }
+};
+
+// Keys are stored as the share link fragment ("key=..."); a bare key value is accepted too
+const normalizeKeyFragment = (value: string): string => {
+  const fragment = value.replace(/^#/, '');
+  return fragment.includes('=') ? fragment : `key=${fragment}`;
+};
+
+const resolveCollection = async (reference: string | undefined, { collections }: CliConfig): Promise<ResolvedCollection> => {
+  if (!reference) throw new CliError(`Missing <collection>.\n\n${USAGE}`);
+  let id = reference;
+  let fragment = '';
+  if (/^https?:\/\//.test(reference)) {
+    const url = new URL(reference);
+    id = url.pathname.split('/').filter(Boolean).pop() ?? '';
+    fragment = url.hash;
+  }
+  if (!id) throw new CliError(`${reference} is not a collection link.`);
+
+  fragment ||= collections[id]?.key ?? '';
+  if (!fragment) return { id, key: null };
+  const key = await importKeyFromFragment(normalizeKeyFragment(fragment));
+  if (!key) throw new CliError(`The encryption key for ${id} is invalid.`);
+  return { id, key };
+};
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// "name.txt", then "name (1).txt", ... so pulling twice never overwrites earlier downloads
+const writeUniqueFile = async (directory: string, filename: string, data: Buffer): Promise<string> => {
+  const safeName = path.basename(filename).replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_') || 'attachment';
+  const { name, ext } = path.parse(safeName);
+  for (let attempt = 0; ; attempt++) {
+    const filePath = path.join(directory, attempt === 0 ? safeName : `${name} (${attempt})${ext}`);
+    try {
+      await writeFile(filePath, data, { flag: 'wx' });
+      return filePath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'EEXIST') throw error;
+    }
+  }
+};
+
+const saveAttachment = async (api: ApiClient, { id, key }: ResolvedCollection, item: ClipboardItemData & { attachment: { filename: string } }, directory: string) => {
+  let data = await api.downloadAttachment(id, item.id);
+  if (key) data = Buffer.from(await decryptBytes(key, new Uint8Array(data).buffer));
+  const filePath = await writeUniqueFile(directory, item.attachment.filename, data);
+  console.error(`Saved ${filePath} (${formatFileSize(data.byteLength)})`);
+};
+
+const createCollection = async ({ api, configPath, options }: Context) => {
+  const expiry = options.expiry as CollectionExpiry | undefined;
+  if (expiry !== undefined && !EXPIRY_PRESETS.includes(expiry)) {
+    throw new CliError(`--expiry must be one of ${EXPIRY_PRESETS.join(', ')}.`);
+  }
+  const created = await api.createCollection({ passphrase: options.passphrase, encrypted: options.encrypted, expiry });
+
+  // As in the browser, the key is generated here and only ever travels in the link fragment
+  const keyFragment = options.encrypted ? await exportKeyToFragment(await generateCollectionKey()) : undefined;
+  const url = keyFragment ? `${created.url}#${keyFragment}` : created.url;
+  const readOnlyUrl = keyFragment ? `${created.readOnlyUrl}#${keyFragment}` : created.readOnlyUrl;
+
+  if (created.sessionToken && created.sessionExpiresAt) {
+    await createSessionCache(configPath).save(created.id, created.sessionToken, created.sessionExpiresAt);
+  }
+  if (options.save) {
+    await saveCollectionCredentials(configPath, created.id, { passphrase: options.passphrase, key: keyFragment });
+  }
+
+  if (options.json) {
+    const { sessionToken: _token, sessionExpiresAt: _expiresAt, ...collection } = created;
+    console.log(JSON.stringify({ ...collection, url, readOnlyUrl }, null, 2));
+    return;
+  }
+  console.log(`Collection:     ${created.id}`);
+  console.log(`Share link:     ${url}`);
+  console.log(`Read-only link: ${readOnlyUrl}`);
+  console.log(`Expires:        ${created.expiresAt ?? 'never'}`);
+  if (keyFragment && !options.save) {
+    console.error('The encryption key only exists in these links; pass --save to keep it in the config file.');
+  }
+};
+
+const pushItems = async ({ api, config, options }: Context, [reference, ...files]: string[]) => {
+  const collection = await resolveCollection(reference, config);
+  const tags = options.tag ?? [];
+  const added: ClipboardItemData[] = [];
+
+  if (files.length > 0) {
+    for (const filePath of files) {
+      const { size } = await stat(filePath).catch(() => {
+        throw new CliError(`Cannot read ${filePath}.`);
+      });
+      if (size > MAX_ATTACHMENT_SIZE_BYTES) {
+        throw new CliError(`${filePath} is larger than the ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)} attachment limit.`);
+      }
+      const filename = path.basename(filePath);
+      const type = MIME_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+      let file = new File([await readFile(filePath)], filename, { type });
+      if (collection.key) file = await encryptFile(collection.key, file, filename);
+      const item = await api.uploadFile(collection.id, file, tags);
+      added.push(item);
+      if (!options.json) console.log(`Uploaded ${filename} as ${item.type} item ${item.id}`);
+    }
+  } else {
+    if (process.stdin.isTTY) {
+      throw new CliError('Nothing to push: pipe text into "crossclip push <collection>" or name files to upload.');
+    }
+    // A single trailing newline is what `echo` and most tools add, not part of the clip
+    const content = (await readStdin()).replace(/\r?\n$/, '');
+    if (!content) throw new CliError('Nothing to push: stdin was empty.');
+    if (options.type !== undefined && options.type !== 'text' && options.type !== 'url') {
+      throw new CliError('--type must be text or url.');
+    }
+    const type = options.type ?? (/^https?:\/\/\S+$/.test(content) ? 'url' : 'text');
+    const fields = collection.key ? await encryptItemFields(collection.key, { content }) : { content };
+    const parsed = newClipboardItemSchema.safeParse({ type, content: fields.content, tags: tags.length > 0 ? tags : undefined });
+    if (!parsed.success) {
+      throw new CliError(toValidationErrorResponse(parsed.error).body.details);
+    }
+    const item = await api.addItem(collection.id, parsed.data);
+    added.push(item);
+    if (!options.json) console.log(`Added ${item.type} item ${item.id}`);
+  }
+
+  if (options.json) console.log(JSON.stringify(added, null, 2));
+};
+
+// Returns the item as it should be printed: decrypted and, with --reveal, with view-limited content consumed
+const prepareItem = async (api: ApiClient, collection: ResolvedCollection, item: ClipboardItemData, reveal: boolean): Promise<ClipboardItemData | null> => {
+  let readable = item;
+  if (item.viewsRemaining !== undefined) {
+    if (!reveal) {
+      console.error(`Skipped view-limited item ${item.id} (${item.viewsRemaining} views left); pass --reveal to consume a view.`);
+      return null;
+    }
+    readable = (await api.consumeItem(collection.id, item.id)).item;
+  }
+  return collection.key ? decryptItem(collection.key, readable) : readable;
+};
+
+const getCreatedAtTime = (item: ClipboardItemData): number => new Date(item.createdAt).getTime();
+
+const pullItems = async ({ api, config, options }: Context, [reference]: string[]) => {
+  const collection = await resolveCollection(reference, config);
+  const { encrypted, items } = await api.getCollection(collection.id);
+  if (encrypted && !collection.key) {
+    throw new CliError(`Collection ${collection.id} is end-to-end encrypted: use its share link or add its "key" to the config file.`);
+  }
+
+  // Oldest first, so the newest item ends up at the bottom of the terminal
+  const ordered = [...items].sort((a, b) => getCreatedAtTime(a) - getCreatedAtTime(b));
+  const selected = options.latest ? ordered.slice(-1) : ordered;
+  if (selected.length === 0) throw new CliError(`Collection ${collection.id} is empty.`);
+
+  const pulled: ClipboardItemData[] = [];
+  for (const item of selected) {
+    const readable = await prepareItem(api, collection, item, options.reveal === true);
+    if (readable) pulled.push(readable);
+  }
+
+  // With --json attachments are only downloaded when a directory was asked for
+  const outputDirectory = options.output ?? (options.json ? undefined : process.cwd());
+  if (outputDirectory) {
+    for (const item of pulled) {
+      if (isAttachmentItem(item)) await saveAttachment(api, collection, item, outputDirectory);
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(options.latest ? pulled[0] ?? null : pulled, null, 2));
+    return;
+  }
+  const texts = pulled.filter(item => !isAttachmentItem(item)).map(item => item.content);
+  if (texts.length > 0) process.stdout.write(`${texts.join('\n\n')}\n`);
+};
+
+const watchItems = async ({ api, config, options }: Context, [reference]: string[]) => {
+  const collection = await resolveCollection(reference, config);
+  const { encrypted } = await api.getCollection(collection.id);
+  if (encrypted && !collection.key) {
+    throw new CliError(`Collection ${collection.id} is end-to-end encrypted: use its share link or add its "key" to the config file.`);
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  process.once('SIGTERM', () => controller.abort());
+  if (!options.json) console.error(`Watching ${collection.id} for new items (Ctrl+C to stop)...`);
+
+  await api.watch(collection.id, async (event) => {
+    if (event.type === 'items-imported') {
+      console.error(`${event.count} items were imported; run "crossclip pull" to get them.`);
+      return;
+    }
+    if (event.type !== 'item-added') return;
+    // Watching never uses up views; view-limited items are announced only
+    const item = await prepareItem(api, collection, event.item, false);
+    if (!item) return;
+
+    if (options.output && isAttachmentItem(item)) await saveAttachment(api, collection, item, options.output);
+    if (options.json) {
+      console.log(JSON.stringify(item));
+    } else if (isAttachmentItem(item)) {
+      if (!options.output) console.log(`[${item.type}] ${item.attachment.filename} (${formatFileSize(item.attachment.size)})`);
+    } else {
+      console.log(item.content);
+    }
+  }, controller.signal);
+};
+
+const COMMANDS: Record<string, (context: Context, positionals: string[]) => Promise<void>> = {
+  create: createCollection,
+  push: pushItems,
+  pull: pullItems,
+  watch: watchItems,
+};
+
+const main = async () => {
+  const { values: options, positionals } = parseCommandLine(process.argv.slice(2));
+  const [command, ...commandArgs] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  const run = COMMANDS[command];
+  if (!run) throw new CliError(`Unknown command "${command}".\n\n${USAGE}`);
+
+  const configPath = getConfigPath(options.config);
+  const config = await loadConfig(configPath);
+  const api = createApiClient(config, createSessionCache(configPath), configPath);
+  await run({ api, config, configPath, options }, commandArgs);
+};
+
+main().catch((error) => {
+  console.error(error instanceof CliError ? error.message : error);
+  process.exitCode = 1;
+});
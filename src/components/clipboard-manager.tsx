@@ -1,42 +1,178 @@
 
 'use client';
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import TagInput from '@/components/tag-input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToastAction } from '@/components/ui/toast';
 import { toast } from '@/hooks/use-toast';
-import { Clipboard, FileText, Trash2, Upload, Copy, Link as LinkIcon, Code, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Clipboard, FileText, Trash2, Upload, Copy, Link as LinkIcon, Code, AlertTriangle, ChevronLeft, ChevronRight, Paperclip, Image as ImageIcon, File as FileIcon, Download, Radio, Eye, Flame, RefreshCw, Pencil, Check, History as HistoryIcon, RotateCcw, Pin, PinOff, Star, GripVertical, Search, X, Tag as TagIcon } from 'lucide-react';
 import { Skeleton } from './ui/skeleton';
-import type { ClipboardItemData } from '@/lib/types';
+import { CLIPBOARD_ITEM_TYPES, clipboardItemUpdateSchema, newClipboardItemSchema, toValidationErrorResponse, type ClipboardItemData, type ClipboardItemRevision, type ClipboardItemType, type CollectionEvent, type ItemArrangement, type ItemSearchPage } from '@/lib/types';
+import { arrangeItemList, sortItems } from '@/lib/item-order';
+import { isEmptyItemFilter, matchesItemFilter, type ItemFilter } from '@/lib/item-search';
+import { countItemTags } from '@/lib/item-tags';
+import { applyItemEdit, getItemVersion, isEditableItem, type ClipboardItemEdit } from '@/lib/item-history';
+import { clearSessionToken, fetchWithSession, withSessionToken } from '@/lib/clip-session';
+import { decryptBytes, decryptItem, decryptItems, encryptFile, encryptItemFields } from '@/lib/e2e-crypto';
+import { createLocalClipboardStore, type LocalClipboardStore } from '@/lib/local-store';
+import { createMutationQueue, type MutationOptions, type MutationQueueStatus } from '@/lib/mutation-queue';
+import { MAX_ATTACHMENT_SIZE_BYTES, formatFileSize, getAttachmentDownloadPath, getAttachmentItemType, isAttachmentItem } from '@/lib/attachments';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'; // Import Tooltip components
+import { cn } from '@/lib/utils';
+import { sanitizeClipboardHtml } from '@/lib/html-sanitizer';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface ClipboardManagerProps {
   collectionId: string | null; // null for local-only mode, string for shared collection
   initialItems?: ClipboardItemData[]; // Optional initial items for shared collections
+  localStore?: LocalClipboardStore; // Persistence for local-only mode; defaults to IndexedDB with a localStorage fallback
+  localRetentionLimit?: number; // Max items kept by the default local store
+  onUnauthorized?: () => void; // Called when a password-protected collection rejects the unlock session
+  encryptionKey?: CryptoKey | null; // End-to-end encrypted collections: key from the URL fragment (initialItems must already be decrypted)
+  readOnly?: boolean; // Opened through a read-only link: no input card and no delete buttons
 }
 
 const ITEMS_PER_PAGE = 10; // Number of items to display per page
+const SEARCH_DEBOUNCE_MS = 300; // Wait for a pause in typing before searching
+const ITEM_DRAG_TYPE = 'application/x-crossclip-item'; // Drag payload for reordering, so the add card ignores it
 
-export default function ClipboardManager({ collectionId, initialItems }: ClipboardManagerProps) {
+// View limits offered for new shared text items ('unlimited' keeps the content visible)
+const VIEW_LIMIT_OPTIONS = ['unlimited', '1', '3', '5', '10'] as const;
+
+// Items whose content is withheld by the server until they are consumed
+const isViewLimited = (item: ClipboardItemData): boolean => item.viewsRemaining !== undefined;
+
+// --- Attachment helpers (local mode keeps the blob inline as a data URL) ---
+const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file.'));
+    reader.readAsDataURL(file);
+  });
+
+// Clipboard images usually arrive without a name (or as "image.png"); give them a unique one
+const clipboardBlobToFile = (blob: Blob, index = 0): File => {
+  const extension = (blob.type.split('/')[1] || 'bin').split('+')[0];
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return new File([blob], `pasted-image-${timestamp}${index ? `-${index}` : ''}.${extension}`, { type: blob.type });
+};
+
+const computeSha256Hex = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export default function ClipboardManager({ collectionId, initialItems, localStore, localRetentionLimit, onUnauthorized, encryptionKey, readOnly = false }: ClipboardManagerProps) {
   const [textInput, setTextInput] = useState('');
   const [htmlInput, setHtmlInput] = useState<string | undefined>(undefined);
   const [clipboardItems, setClipboardItems] = useState<ClipboardItemData[]>(initialItems || []);
   const [isLoading, setIsLoading] = useState(!initialItems); // Start loading if no initial items
   const [isProcessing, setIsProcessing] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
+  const [inputError, setInputError] = useState<string | null>(null); // Validation problem with the text being added, shown under the input
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLive, setIsLive] = useState(false); // True while the real-time event stream is connected
+  const [defaultLocalStore] = useState(() => createLocalClipboardStore({ retentionLimit: localRetentionLimit }));
+  const store = localStore ?? defaultLocalStore;
+  const hasLoadedLocalItems = useRef(false); // Prevents overwriting stored history before it has been read
+  // Encrypted collections: object URLs of decrypted attachment blobs, keyed by item ID
+  const [decryptedAttachmentUrls, setDecryptedAttachmentUrls] = useState<Record<string, string>>({});
+  // View-limited items: limit for the next added item, and full items revealed on this device
+  const [viewLimit, setViewLimit] = useState<(typeof VIEW_LIMIT_OPTIONS)[number]>('unlimited');
+  const [newItemTags, setNewItemTags] = useState<string[]>([]); // Tags for the next text item or file
+  const [revealedItems, setRevealedItems] = useState<Record<string, ClipboardItemData>>({});
+  const revealedItemsRef = useRef(revealedItems);
+  revealedItemsRef.current = revealedItems;
+  // Shared mode: changes are sent in order and retried after conflicts, rate limits and network failures
+  const [mutationStatus, setMutationStatus] = useState<MutationQueueStatus>({ pending: 0, retrying: false });
+  const [mutationQueue] = useState(() => createMutationQueue({ onStatusChange: setMutationStatus }));
+  // Inline editing (one item at a time) and the item whose earlier versions are shown
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  // Drag-to-reorder: the item being dragged and the item it would be dropped on
+  const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Search and type filter. Shared collections are searched on the server (one page at a time);
+  // local history and end-to-end encrypted collections, whose content the server cannot read, in the browser.
+  const [searchText, setSearchText] = useState('');
+  const [debouncedSearchText, setDebouncedSearchText] = useState('');
+  const [typeFilter, setTypeFilter] = useState<ClipboardItemType[]>([]);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [taggingItemId, setTaggingItemId] = useState<string | null>(null); // Item whose tags are being edited
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]); // Multi-select for bulk actions
+  const [serverSearch, setServerSearch] = useState<{ itemIds: string[]; nextCursor: string | null; total: number } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [localResultLimit, setLocalResultLimit] = useState(ITEMS_PER_PAGE);
 
   // Pagination State
   const [currentPage, setCurrentPage] = useState(1);
 
   const isSharedMode = useMemo(() => collectionId !== null, [collectionId]);
 
-  // --- Pagination Calculations ---
-  const totalPages = Math.ceil(clipboardItems.length / ITEMS_PER_PAGE);
+  // --- API requests (shared mode): attach the unlock session and report expired sessions ---
+  const apiFetch = async (url: string, init?: RequestInit): Promise<Response> => {
+      if (!collectionId) return fetch(url, init);
+      const response = await fetchWithSession(collectionId, url, init);
+      if (response.status === 401) {
+          clearSessionToken(collectionId);
+          onUnauthorized?.();
+      }
+      return response;
+  };
+
+  // Same as apiFetch, but queued behind earlier changes and retried on transient failures
+  // (blindly only when `idempotent`, see mutation-queue.ts)
+  const apiMutate = (url: string, init: RequestInit, options?: MutationOptions): Promise<Response> =>
+      mutationQueue.run(() => apiFetch(url, init), options);
+
+  // --- Pagination Calculations (pinned items are listed separately, above the pages) ---
+  const pinnedItems = useMemo(() => clipboardItems.filter(item => item.pinned), [clipboardItems]);
+  const unpinnedItems = useMemo(() => clipboardItems.filter(item => !item.pinned), [clipboardItems]);
+  const totalPages = Math.ceil(unpinnedItems.length / ITEMS_PER_PAGE);
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
   const endIndex = startIndex + ITEMS_PER_PAGE;
-  const paginatedItems = clipboardItems.slice(startIndex, endIndex);
+  const paginatedItems = unpinnedItems.slice(startIndex, endIndex);
+
+  // --- Search Results ---
+  const searchFilter = useMemo<ItemFilter>(
+      () => ({ q: debouncedSearchText.trim() || undefined, types: typeFilter, tags: tagFilter }),
+      [debouncedSearchText, typeFilter, tagFilter]
+  );
+  const isFiltering = !isEmptyItemFilter(searchFilter);
+  const useServerSearch = isSharedMode && !encryptionKey;
+  const localMatches = useMemo(
+      () => (isFiltering && !useServerSearch ? clipboardItems.filter(item => matchesItemFilter(item, searchFilter)) : []),
+      [clipboardItems, isFiltering, searchFilter, useServerSearch]
+  );
+  // Server results are shown from the live list, so later edits and deletions apply to them too
+  const searchResults = useServerSearch
+      ? (serverSearch?.itemIds ?? []).flatMap(id => clipboardItems.find(item => item.id === id) ?? [])
+      : localMatches.slice(0, localResultLimit);
+  const searchTotal = useServerSearch ? (serverSearch?.total ?? 0) : localMatches.length;
+  const hasMoreResults = useServerSearch ? !!serverSearch?.nextCursor : localMatches.length > localResultLimit;
+
+  // Selected items that are still in the list, in list order
+  const selectedItems = useMemo(() => clipboardItems.filter(item => selectedItemIds.includes(item.id)), [clipboardItems, selectedItemIds]);
+  const shownItems = isFiltering ? searchResults : [...pinnedItems, ...paginatedItems];
+
+  // Tags in use, most used first, for the filter chips and autocompletion
+  const tagCounts = useMemo(() => countItemTags(clipboardItems), [clipboardItems]);
+  const knownTags = useMemo(
+      () => Object.keys(tagCounts).sort((a, b) => tagCounts[b] - tagCounts[a] || a.localeCompare(b)),
+      [tagCounts]
+  );
 
   // --- Pagination Handlers ---
   const goToNextPage = () => {
@@ -58,15 +194,14 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
       setIsLoading(true);
       setApiError(null);
       try {
-          const response = await fetch(`/api/clip/${collectionId}`);
+          const response = await apiFetch(`/api/clip/${collectionId}`);
           if (!response.ok) {
               const errorData = await response.json().catch(() => ({ error: `HTTP error! status: ${response.status}` }));
               throw new Error(errorData.error || `Failed to fetch items (Status: ${response.status})`);
           }
           const data = await response.json();
-           // Ensure items are sorted by date, newest first
-           data.items.sort((a: ClipboardItemData, b: ClipboardItemData) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-          setClipboardItems(data.items || []);
+          const items: ClipboardItemData[] = encryptionKey ? await decryptItems(encryptionKey, data.items || []) : (data.items || []);
+          setClipboardItems(sortItems(items)); // Ensure items are in list order (see item-order.ts)
           setCurrentPage(1); // Reset to first page on fetch
       } catch (error) {
           console.error("Error fetching items:", error);
@@ -78,29 +213,251 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
           setIsLoading(false);
       }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [collectionId, isSharedMode]); // Re-fetch if collectionId changes
+  }, [collectionId, isSharedMode, encryptionKey]); // Re-fetch if collectionId changes
 
   // Fetch items when component mounts in shared mode or when initialItems change
   useEffect(() => {
       if (isSharedMode && !initialItems) { // Fetch only if shared and no initial items provided
           fetchItems();
-      } else {
-         setIsLoading(false); // Mark as not loading if local or initial items provided
+      } else if (isSharedMode) {
+         setIsLoading(false); // Initial items provided; local mode loads from its store below
       }
   }, [fetchItems, isSharedMode, initialItems]);
 
+   // --- Local mode persistence: load the stored history once, then save on every change ---
+   useEffect(() => {
+        if (isSharedMode) return;
+        let cancelled = false;
+        hasLoadedLocalItems.current = false;
+        setIsLoading(true);
+        store.load()
+            .then(items => {
+                if (cancelled) return;
+                setClipboardItems(items);
+                setCurrentPage(1);
+            })
+            .catch(error => {
+                console.error('Failed to load local clipboard history:', error);
+                toast({ title: 'Local History Unavailable', description: 'Could not read your saved local history.', variant: 'destructive' });
+            })
+            .finally(() => {
+                if (cancelled) return;
+                hasLoadedLocalItems.current = true;
+                setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+   }, [isSharedMode, store]);
+
+   useEffect(() => {
+        if (isSharedMode || !hasLoadedLocalItems.current) return;
+        store.save(clipboardItems).catch(error => {
+            console.error('Failed to save local clipboard history:', error);
+            toast({ title: 'Local Save Failed', description: 'Your browser storage may be full. Recent items might not survive a reload.', variant: 'destructive' });
+        });
+   }, [clipboardItems, isSharedMode, store]);
+
    // Update local state if initialItems prop changes (e.g., parent refreshes)
    useEffect(() => {
         if (initialItems) {
             // Sort initial items as well
-            const sortedInitialItems = [...initialItems].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-            setClipboardItems(sortedInitialItems);
+            setClipboardItems(sortItems(initialItems));
             setCurrentPage(1); // Reset to first page if initial items change
             setIsLoading(false); // Ensure loading is false if initial items are provided
         }
    }, [initialItems]);
 
 
+   // --- Live updates (shared mode only) ---
+   // Other devices' changes arrive as Server-Sent Events. EventSource reconnects on its own
+   // and sends the Last-Event-ID header, so the server replays anything missed in between.
+   useEffect(() => {
+        if (!isSharedMode || !collectionId || typeof EventSource === 'undefined') return;
+
+        const source = new EventSource(withSessionToken(collectionId, `/api/clip/${collectionId}/events`));
+        const parseEvent = (message: MessageEvent): CollectionEvent | null => {
+            try {
+                return JSON.parse(message.data);
+            } catch (error) {
+                console.warn('Ignoring malformed collection event:', error);
+                return null;
+            }
+        };
+
+        source.onopen = () => setIsLive(true);
+        source.onerror = () => setIsLive(false);
+
+        source.addEventListener('item-added', async (message) => {
+            const event = parseEvent(message as MessageEvent);
+            if (event?.type !== 'item-added') return;
+            const addedItem = encryptionKey ? await decryptItem(encryptionKey, event.item) : event.item;
+            setClipboardItems(prevItems =>
+                // Our own additions are already in the list; restored items go back to their old position
+                prevItems.some(item => item.id === addedItem.id) ? prevItems : sortItems([addedItem, ...prevItems])
+            );
+        });
+
+        source.addEventListener('item-updated', async (message) => {
+            const event = parseEvent(message as MessageEvent);
+            if (event?.type !== 'item-updated') return;
+            const updatedItem = encryptionKey ? await decryptItem(encryptionKey, event.item) : event.item;
+            // Pinning and reordering also arrive as updates, so the list is re-sorted
+            setClipboardItems(prevItems => sortItems(prevItems.map(item => (item.id === updatedItem.id ? updatedItem : item))));
+        });
+
+        source.addEventListener('items-deleted', (message) => {
+            const event = parseEvent(message as MessageEvent);
+            if (event?.type !== 'items-deleted') return;
+            setClipboardItems(prevItems => prevItems.filter(item => !event.itemIds.includes(item.id) || revealedItemsRef.current[item.id]));
+        });
+
+        source.addEventListener('items-imported', (message) => {
+            const event = parseEvent(message as MessageEvent);
+            if (event?.type !== 'items-imported') return;
+            // Imports are announced with a count only; the items themselves are reloaded
+            fetchItems();
+        });
+
+        source.addEventListener('item-deleted', (message) => {
+            const event = parseEvent(message as MessageEvent);
+            if (event?.type !== 'item-deleted') return;
+            // A secret revealed here stays visible on this device after its last view deleted it
+            setClipboardItems(prevItems => prevItems.filter(item => item.id !== event.itemId || revealedItemsRef.current[item.id]));
+        });
+
+        return () => {
+            source.close();
+            setIsLive(false);
+        };
+   }, [collectionId, isSharedMode, encryptionKey, fetchItems]);
+
+   // --- Encrypted attachments: download, decrypt and expose as object URLs for previews/downloads ---
+   useEffect(() => {
+        if (!encryptionKey || !collectionId) return;
+        const pending = clipboardItems.filter(item => isAttachmentItem(item) && !decryptedAttachmentUrls[item.id]);
+        if (pending.length === 0) return;
+
+        let cancelled = false;
+        (async () => {
+            const decryptedUrls: Record<string, string> = {};
+            for (const item of pending) {
+                try {
+                    const response = await fetchWithSession(collectionId, getAttachmentDownloadPath(collectionId, item.id));
+                    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                    const plaintext = await decryptBytes(encryptionKey, await response.arrayBuffer());
+                    decryptedUrls[item.id] = URL.createObjectURL(new Blob([plaintext], { type: item.attachment?.mimeType }));
+                } catch (error) {
+                    console.warn(`Could not decrypt attachment ${item.id}:`, error);
+                }
+            }
+            if (cancelled) {
+                Object.values(decryptedUrls).forEach(url => URL.revokeObjectURL(url));
+                return;
+            }
+            setDecryptedAttachmentUrls(prev => ({ ...prev, ...decryptedUrls }));
+        })();
+        return () => { cancelled = true; };
+   // eslint-disable-next-line react-hooks/exhaustive-deps
+   }, [clipboardItems, encryptionKey, collectionId]);
+
+   // Release decrypted blobs when the component goes away
+   const decryptedAttachmentUrlsRef = useRef(decryptedAttachmentUrls);
+   decryptedAttachmentUrlsRef.current = decryptedAttachmentUrls;
+   useEffect(() => () => {
+        Object.values(decryptedAttachmentUrlsRef.current).forEach(url => URL.revokeObjectURL(url));
+   }, []);
+
+   // Keep the current page in range when live deletions (or pinning) shrink the list
+   useEffect(() => {
+        const pageCount = Math.max(1, Math.ceil(unpinnedItems.length / ITEMS_PER_PAGE));
+        if (currentPage > pageCount) setCurrentPage(pageCount);
+   }, [unpinnedItems.length, currentPage]);
+
+
+   // --- Search (debounced; server-side for shared collections that are not end-to-end encrypted) ---
+   const fetchSearchPage = async (filter: ItemFilter, cursor?: string): Promise<ItemSearchPage> => {
+        const query = new URLSearchParams({ limit: String(ITEMS_PER_PAGE) });
+        if (filter.q) query.set('q', filter.q);
+        if (filter.types?.length) query.set('type', filter.types.join(','));
+        if (filter.tags?.length) query.set('tag', filter.tags.join(','));
+        if (cursor) query.set('cursor', cursor);
+        const response = await apiFetch(`/api/clip/${collectionId}/items?${query}`);
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.details || result.error || 'Search failed.');
+        }
+        return result;
+   };
+
+   useEffect(() => {
+        const timer = setTimeout(() => setDebouncedSearchText(searchText), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+   }, [searchText]);
+
+   const searchFilterRef = useRef(searchFilter);
+   searchFilterRef.current = searchFilter;
+   useEffect(() => {
+        setLocalResultLimit(ITEMS_PER_PAGE);
+        setSearchError(null);
+        setServerSearch(null);
+        if (!useServerSearch || !isFiltering) return;
+
+        let cancelled = false;
+        setIsSearching(true);
+        fetchSearchPage(searchFilter)
+            .then(page => {
+                if (!cancelled) setServerSearch({ itemIds: page.items.map(item => item.id), nextCursor: page.nextCursor, total: page.total });
+            })
+            .catch(error => {
+                console.error('Error searching items:', error);
+                if (!cancelled) setSearchError(error instanceof Error ? error.message : 'Search failed.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsSearching(false);
+            });
+        return () => { cancelled = true; };
+   // eslint-disable-next-line react-hooks/exhaustive-deps
+   }, [searchFilter, useServerSearch, isFiltering]);
+
+   const handleLoadMoreResults = async () => {
+        if (!useServerSearch) {
+            setLocalResultLimit(prev => prev + ITEMS_PER_PAGE);
+            return;
+        }
+        if (!serverSearch?.nextCursor || isSearching) return;
+        const filter = searchFilter;
+        setIsSearching(true);
+        try {
+            const page = await fetchSearchPage(filter, serverSearch.nextCursor);
+            if (searchFilterRef.current !== filter) return; // The search changed while this page loaded
+            setServerSearch(prev => prev && {
+                itemIds: [...prev.itemIds, ...page.items.map(item => item.id)],
+                nextCursor: page.nextCursor,
+                total: page.total,
+            });
+        } catch (error) {
+            console.error('Error loading more search results:', error);
+            setSearchError(error instanceof Error ? error.message : 'Search failed.');
+        } finally {
+            setIsSearching(false);
+        }
+   };
+
+   const toggleTypeFilter = (type: ClipboardItemType) => {
+        setTypeFilter(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+   };
+
+   const toggleTagFilter = (tag: string) => {
+        setTagFilter(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+   };
+
+   const clearSearch = () => {
+        setSearchText('');
+        setDebouncedSearchText('');
+        setTypeFilter([]);
+        setTagFilter([]);
+   };
+
+
   // --- Basic URL validation ---
   const isValidUrl = (string: string): boolean => {
       // Basic check, improve if needed
@@ -114,6 +471,7 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
 
     setIsProcessing(true);
     setApiError(null);
+    setInputError(null);
 
     let type: ClipboardItemData['type'] = 'text';
     if (isValidUrl(textInput)) {
@@ -127,24 +485,50 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
       content: textInput,
       htmlContent: type === 'html' ? htmlInput : undefined,
     };
+    if (isSharedMode && viewLimit !== 'unlimited') {
+      newItemData.viewLimit = Number(viewLimit);
+    }
+    if (newItemTags.length > 0) {
+      newItemData.tags = newItemTags;
+    }
 
 
     if (isSharedMode && collectionId) {
         // --- Add item via API ---
         try {
-            const response = await fetch(`/api/clip/add/${collectionId}`, {
+            // Encrypted collections only ever receive ciphertext
+            const payload = encryptionKey ? await encryptItemFields(encryptionKey, newItemData) : newItemData;
+            // Same schema as the server, so size problems are reported before uploading
+            const validation = newClipboardItemSchema.safeParse(payload);
+            if (!validation.success) {
+                setInputError(toValidationErrorResponse(validation.error).body.details);
+                return; // Keep the input so it can be shortened
+            }
+            const response = await apiMutate(`/api/clip/add/${collectionId}`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(newItemData),
+                body: JSON.stringify(validation.data),
             });
-            const addedItem = await response.json();
+            const responseBody = await response.json();
+            if (response.status === 400 || response.status === 413) {
+                setInputError(responseBody.details || responseBody.error || 'The item was rejected by the server.');
+                return;
+            }
             if (!response.ok) {
-                 throw new Error(addedItem.error || addedItem.details || 'Failed to add item.');
+                 throw new Error(responseBody.error || responseBody.details || 'Failed to add item.');
+            }
+            const addedItem: ClipboardItemData = encryptionKey ? await decryptItem(encryptionKey, responseBody) : responseBody;
+            if (isViewLimited(addedItem)) {
+                // The author already knows the content; list it hidden like everyone else sees it
+                setClipboardItems(prevItems => [{ ...addedItem, content: '', htmlContent: undefined }, ...prevItems]);
+                setViewLimit('unlimited');
+                toast({ title: 'Secret Added', description: `Content is hidden and will be deleted after ${addedItem.viewLimit === 1 ? 'its first view' : `${addedItem.viewLimit} views`}.` });
+            } else {
+                // Prepend the successfully added item (returned from API) to the local state
+                setClipboardItems(prevItems => [addedItem, ...prevItems]);
+                toast({ title: 'Item Added', description: `${type.charAt(0).toUpperCase() + type.slice(1)} content added to the shared clipboard.`, });
             }
-             // Prepend the successfully added item (returned from API) to the local state
-            setClipboardItems(prevItems => [addedItem, ...prevItems]);
             setCurrentPage(1); // Go to first page to see the new item
-            toast({ title: 'Item Added', description: `${type.charAt(0).toUpperCase() + type.slice(1)} content added to the shared clipboard.`, });
         } catch (error) {
              console.error('Failed to add item via API:', error);
              const message = error instanceof Error ? error.message : 'Could not add item.';
@@ -155,7 +539,13 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
         }
 
     } else {
-        // --- Add item locally (Session Storage) ---
+        // --- Add item locally (persisted by the local store) ---
+        const validation = newClipboardItemSchema.safeParse(newItemData);
+        if (!validation.success) {
+            setInputError(toValidationErrorResponse(validation.error).body.details);
+            setIsProcessing(false);
+            return;
+        }
          const newItem: ClipboardItemData = {
              ...newItemData,
              id: crypto.randomUUID(),
@@ -170,6 +560,128 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
     // Clear input fields regardless of success/failure in adding
     setTextInput('');
     setHtmlInput(undefined);
+    setNewItemTags([]);
+  };
+
+  // --- Add Image / File Attachments ---
+  // Uploads (shared mode) or inlines (local mode) a single file. Throws on failure.
+  const addAttachment = async (file: File) => {
+    const mimeType = file.type || 'application/octet-stream';
+    const type = getAttachmentItemType(mimeType);
+    const label = type === 'image' ? 'Image' : 'File';
+
+    if (isSharedMode && collectionId) {
+        // --- Upload via API (multipart form data) ---
+        const uploadFile = encryptionKey ? await encryptFile(encryptionKey, file, file.name) : file;
+        const formData = new FormData();
+        formData.append('file', uploadFile, uploadFile.name);
+        newItemTags.forEach(tag => formData.append('tags', tag));
+        const response = await apiMutate(`/api/clip/upload/${collectionId}`, {
+            method: 'POST',
+            body: formData,
+        });
+        const responseBody = await response.json();
+        if (!response.ok) {
+            throw new Error(responseBody.details || responseBody.error || 'Failed to upload file.');
+        }
+        const addedItem: ClipboardItemData = encryptionKey ? await decryptItem(encryptionKey, responseBody) : responseBody;
+        setClipboardItems(prevItems => [addedItem, ...prevItems]);
+        toast({ title: `${label} Added`, description: `${file.name} added to the shared clipboard.` });
+    } else {
+        // --- Keep the file locally as a data URL ---
+        const newItem: ClipboardItemData = {
+            id: crypto.randomUUID(),
+            type,
+            content: file.name,
+            attachment: {
+                filename: file.name,
+                mimeType,
+                size: file.size,
+                checksum: await computeSha256Hex(file),
+                dataUrl: await readFileAsDataUrl(file),
+            },
+            createdAt: new Date(),
+        };
+        if (newItemTags.length > 0) newItem.tags = newItemTags;
+        setClipboardItems(prevItems => [newItem, ...prevItems]);
+        toast({ title: `${label} Added Locally`, description: `${file.name} added to your local history.` });
+    }
+    setCurrentPage(1); // Go to first page to see the new item
+  };
+
+  // Adds several files one after another, reporting failures per file
+  const addAttachments = async (files: File[]) => {
+    for (const file of files) {
+        if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+            toast({ title: 'File Too Large', description: `${file.name} is ${formatFileSize(file.size)}. The limit is ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)}.`, variant: 'destructive' });
+            continue;
+        }
+        try {
+            await addAttachment(file);
+        } catch (error) {
+            console.error('Failed to add attachment:', error);
+            const message = error instanceof Error ? error.message : 'Could not add file.';
+            setApiError(message);
+            toast({ title: 'Upload Failed', description: `Could not add ${file.name}: ${message}`, variant: 'destructive' });
+        }
+    }
+  };
+
+  const handleAddAttachments = async (files: File[]) => {
+    if (isProcessing || files.length === 0) return;
+    setIsProcessing(true);
+    setApiError(null);
+    try {
+        await addAttachments(files);
+        setNewItemTags([]);
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = ''; // Allow selecting the same file again later
+    handleAddAttachments(files);
+  };
+
+  // --- Paste event on the textarea: files/screenshots become attachments, text pastes normally ---
+  const handleTextareaPaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length === 0) return; // Let the browser insert text as usual
+    event.preventDefault();
+    handleAddAttachments(files.map((file, index) => file.name ? file : clipboardBlobToFile(file, index)));
+  };
+
+  // --- Drag and Drop onto the input card ---
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    if (!isDragging) setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Ignore leave events fired when moving between child elements
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragging(false);
+    handleAddAttachments(Array.from(event.dataTransfer.files));
+  };
+
+  // Source for previews/downloads: API route for shared items, inline data URL for local ones
+  const getAttachmentSrc = (item: ClipboardItemData, download = false): string | undefined => {
+    if (isSharedMode && collectionId) {
+        // Encrypted blobs are only usable once decrypted in the browser
+        if (encryptionKey) return decryptedAttachmentUrls[item.id];
+        return withSessionToken(collectionId, getAttachmentDownloadPath(collectionId, item.id, download));
+    }
+    return item.attachment?.dataUrl;
   };
 
   // --- Paste from System Clipboard ---
@@ -190,6 +702,20 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
             let foundText = false;
             let foundHtml = false;
 
+            // Images (e.g. screenshots) take priority and are added directly as image items
+            const imageFiles: File[] = [];
+            for (const [index, item] of clipboardContents.entries()) {
+                const imageType = item.types.find(type => type.startsWith('image/'));
+                if (!imageType) continue;
+                try {
+                    imageFiles.push(clipboardBlobToFile(await item.getType(imageType), index));
+                } catch (err) { console.error("Error reading image from clipboard:", err); }
+            }
+            if (imageFiles.length > 0) {
+                await addAttachments(imageFiles);
+                return;
+            }
+
             for (const item of clipboardContents) {
                 if (item.types.includes('text/html')) {
                     try {
@@ -224,7 +750,7 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
                 }
             }
              if (!foundText && !foundHtml) {
-                 toast({ title: 'Paste Result', description: 'No text or HTML content found in clipboard.', variant: 'default' });
+                 toast({ title: 'Paste Result', description: 'No text, HTML or image content found in clipboard.', variant: 'default' });
             }
         } else if (navigator.clipboard && typeof navigator.clipboard.readText === 'function') {
              // Fallback for browsers that only support readText
@@ -253,18 +779,237 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
     }
   };
 
+  // --- View-limited items: consume one view on the server and keep the revealed content here ---
+  const revealItem = async (item: ClipboardItemData): Promise<ClipboardItemData> => {
+      const revealed = revealedItems[item.id];
+      if (revealed) return revealed;
+      if (!collectionId) throw new Error('Only shared items can be view-limited.');
+
+      const response = await apiMutate(`/api/clip/${collectionId}/items/${item.id}/consume`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+          if (response.status === 404) {
+              setClipboardItems(prevItems => prevItems.filter(listItem => listItem.id !== item.id));
+          }
+          throw new Error(result.details || result.error || 'Failed to reveal item.');
+      }
+      const fullItem: ClipboardItemData = encryptionKey ? await decryptItem(encryptionKey, result.item) : result.item;
+      setRevealedItems(prev => ({ ...prev, [item.id]: fullItem }));
+      setClipboardItems(prevItems => prevItems.map(listItem => (listItem.id === item.id ? { ...listItem, viewsRemaining: fullItem.viewsRemaining } : listItem)));
+      if (result.deleted) {
+          toast({ title: 'Last View Used', description: 'This item has been deleted from the shared clipboard. It stays visible here until you dismiss it.' });
+      }
+      return fullItem;
+  };
+
+  const handleRevealItem = async (item: ClipboardItemData) => {
+      if (isProcessing) return;
+      setIsProcessing(true);
+      setApiError(null);
+      try {
+          await revealItem(item);
+      } catch (error) {
+          console.error('Failed to reveal item:', error);
+          const message = error instanceof Error ? error.message : 'Could not reveal item.';
+          toast({ title: 'Reveal Failed', description: message, variant: 'destructive' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  // --- Edit Item (text, URL and HTML items) ---
+  // Saves `edit` as the item's next version. Returns a message to show when the edit was
+  // rejected (validation, or a newer version saved elsewhere), null on success; throws on other failures.
+  const saveItemEdit = async (item: ClipboardItemData, edit: ClipboardItemEdit): Promise<string | null> => {
+      if (isSharedMode && collectionId) {
+          const payload = encryptionKey ? await encryptItemFields(encryptionKey, edit) : edit;
+          const validation = clipboardItemUpdateSchema.safeParse({ ...payload, version: getItemVersion(item) });
+          if (!validation.success) {
+              return toValidationErrorResponse(validation.error).body.details;
+          }
+          const response = await apiMutate(`/api/clip/${collectionId}/items/${item.id}`, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(validation.data),
+          }, { idempotent: true });
+          const responseBody = await response.json();
+          if (response.status === 412 && responseBody.item) {
+              // Someone else saved first: show their version so the edit can be redone on top of it
+              const currentItem: ClipboardItemData = encryptionKey ? await decryptItem(encryptionKey, responseBody.item) : responseBody.item;
+              setClipboardItems(prevItems => prevItems.map(listItem => (listItem.id === currentItem.id ? currentItem : listItem)));
+              return responseBody.details || 'This item was changed on another device.';
+          }
+          if (response.status === 400 || response.status === 413) {
+              return responseBody.details || responseBody.error || 'The edit was rejected by the server.';
+          }
+          if (!response.ok) {
+              throw new Error(responseBody.error || responseBody.details || 'Failed to update item.');
+          }
+          const updatedItem: ClipboardItemData = encryptionKey ? await decryptItem(encryptionKey, responseBody) : responseBody;
+          setClipboardItems(prevItems => prevItems.map(listItem => (listItem.id === updatedItem.id ? updatedItem : listItem)));
+      } else {
+          const validation = newClipboardItemSchema.safeParse(edit);
+          if (!validation.success) {
+              return toValidationErrorResponse(validation.error).body.details;
+          }
+          setClipboardItems(prevItems => prevItems.map(listItem => (listItem.id === item.id ? applyItemEdit(listItem, edit) : listItem)));
+      }
+      return null;
+  };
+
+  const startEditing = (item: ClipboardItemData) => {
+      setEditingItemId(item.id);
+      setEditText(item.content);
+      setEditError(null);
+  };
+
+  const cancelEditing = () => {
+      setEditingItemId(null);
+      setEditError(null);
+  };
+
+  const handleSaveEdit = async (item: ClipboardItemData) => {
+      if (isProcessing) return;
+      if (editText === item.content) {
+          cancelEditing(); // Nothing changed
+          return;
+      }
+      setIsProcessing(true);
+      setApiError(null);
+      try {
+          // The editor works on plain text, so edited HTML items lose their formatting
+          const problem = await saveItemEdit(item, { type: isValidUrl(editText) ? 'url' : 'text', content: editText });
+          if (problem) {
+              setEditError(problem);
+              return;
+          }
+          cancelEditing();
+          toast({ title: 'Item Updated', description: isSharedMode ? 'Your edit was saved to the shared clipboard.' : 'Your edit was saved to your local history.' });
+      } catch (error) {
+          console.error('Failed to update item:', error);
+          const message = error instanceof Error ? error.message : 'Could not update item.';
+          setEditError(message);
+          toast({ title: 'Update Failed', description: `Could not update item: ${message}`, variant: 'destructive' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  // Restoring saves an earlier version again as the newest one, so nothing is lost
+  const handleRestoreRevision = async (item: ClipboardItemData, revision: ClipboardItemRevision) => {
+      if (isProcessing) return;
+      setIsProcessing(true);
+      setApiError(null);
+      try {
+          const problem = await saveItemEdit(item, { type: revision.type, content: revision.content, htmlContent: revision.htmlContent });
+          if (problem) {
+              toast({ title: 'Restore Failed', description: problem, variant: 'destructive' });
+              return;
+          }
+          toast({ title: 'Version Restored', description: `Version ${revision.version} is the current content again.` });
+      } catch (error) {
+          console.error('Failed to restore item version:', error);
+          const message = error instanceof Error ? error.message : 'Could not restore this version.';
+          toast({ title: 'Restore Failed', description: message, variant: 'destructive' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  // --- Pin, Star and Reorder ---
+  // Applied to the list right away; shared collections then save it and take the server's
+  // positions. A failed save reloads the list so it matches what is stored.
+  const handleArrangeItems = async (arrangement: ItemArrangement) => {
+      const changedItems = arrangeItemList(clipboardItems, arrangement);
+      if (changedItems.length === 0) return;
+      const mergeArrangement = (items: ClipboardItemData[], arranged: ClipboardItemData[]) => {
+          const arrangedById = new Map(arranged.map(item => [item.id, item]));
+          return sortItems(items.map(item => {
+              const arrangedItem = arrangedById.get(item.id);
+              return arrangedItem
+                  ? { ...item, pinned: arrangedItem.pinned, starred: arrangedItem.starred, position: arrangedItem.position, tags: arrangedItem.tags }
+                  : item;
+          }));
+      };
+      setClipboardItems(prevItems => mergeArrangement(prevItems, changedItems));
+      if (!isSharedMode || !collectionId) return; // Local mode: saved with the rest of the history
+
+      try {
+          const response = await apiMutate(`/api/clip/${collectionId}/items`, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(arrangement),
+          }, { idempotent: true });
+          const result = await response.json();
+          if (!response.ok) {
+              throw new Error(result.details || result.error || 'Failed to save the new order.');
+          }
+          setClipboardItems(prevItems => mergeArrangement(prevItems, result.items ?? []));
+      } catch (error) {
+          console.error('Failed to arrange items:', error);
+          const message = error instanceof Error ? error.message : 'Could not save the change.';
+          toast({ title: 'Change Not Saved', description: message, variant: 'destructive' });
+          fetchItems();
+      }
+  };
+
+  const handleTogglePinned = (item: ClipboardItemData) => handleArrangeItems({ flags: [{ id: item.id, pinned: !item.pinned }] });
+  const handleToggleStarred = (item: ClipboardItemData) => handleArrangeItems({ flags: [{ id: item.id, starred: !item.starred }] });
+  // Saved on every change while the tag editor is open
+  const handleSetTags = (item: ClipboardItemData, tags: string[]) => handleArrangeItems({ flags: [{ id: item.id, tags }] });
+
+  // Items are only dragged within the section they are shown in (the pinned items, or the current page)
+  const handleItemDragStart = (event: React.DragEvent<HTMLDivElement>, itemId: string) => {
+      event.dataTransfer.setData(ITEM_DRAG_TYPE, itemId);
+      event.dataTransfer.effectAllowed = 'move';
+      setDraggedItemId(itemId);
+  };
+
+  const handleItemDragOver = (event: React.DragEvent<HTMLDivElement>, targetId: string, sectionIds: string[]) => {
+      if (!draggedItemId || draggedItemId === targetId || !sectionIds.includes(draggedItemId)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTargetId(targetId);
+  };
+
+  const handleItemDragEnd = () => {
+      setDraggedItemId(null);
+      setDropTargetId(null);
+  };
+
+  const handleItemDrop = (event: React.DragEvent<HTMLDivElement>, targetId: string, sectionIds: string[]) => {
+      event.preventDefault();
+      const draggedId = event.dataTransfer.getData(ITEM_DRAG_TYPE) || draggedItemId;
+      handleItemDragEnd();
+      const fromIndex = draggedId ? sectionIds.indexOf(draggedId) : -1;
+      const toIndex = sectionIds.indexOf(targetId);
+      if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+      const order = [...sectionIds];
+      order.splice(toIndex, 0, ...order.splice(fromIndex, 1));
+      handleArrangeItems({ order });
+  };
+
   // --- Delete Item ---
   const handleDeleteItem = async (id: string) => {
      if (isProcessing) return;
      setIsProcessing(true);
      setApiError(null);
 
+     if (revealedItems[id]?.viewsRemaining === 0) {
+        // Already deleted on the server by its last view; only the local copy is left
+        setClipboardItems(prevItems => prevItems.filter(item => item.id !== id));
+        setIsProcessing(false);
+        return;
+     }
+
+     const deletedItem = clipboardItems.find(item => item.id === id);
+
      if (isSharedMode && collectionId) {
         // --- Delete item via API ---
         try {
-            const response = await fetch(`/api/clip/delete/${collectionId}/${id}`, {
+            const response = await apiMutate(`/api/clip/delete/${collectionId}/${id}`, {
                  method: 'DELETE',
-            });
+            }, { idempotent: true });
             const result = await response.json();
              if (!response.ok) {
                  throw new Error(result.error || result.details || 'Failed to delete item.');
@@ -281,7 +1026,7 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
                 }
                 return newItems;
             });
-            toast({ title: 'Item Deleted', description: 'Item removed from the shared clipboard.' });
+            toast({ title: 'Item Deleted', description: 'Item moved to the trash of the shared clipboard.', action: deletedItem && renderUndoAction([deletedItem]) });
         } catch (error) {
              console.error('Failed to delete item via API:', error);
              const message = error instanceof Error ? error.message : 'Could not delete item.';
@@ -304,13 +1049,136 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
             }
             return newItems;
         });
-        toast({ title: 'Item Deleted Locally', description: 'Item removed from your local history.' });
+        toast({ title: 'Item Deleted Locally', description: 'Item removed from your local history.', action: deletedItem && renderUndoAction([deletedItem]) });
         setIsProcessing(false);
      }
   };
 
+  // --- Multi-select and Bulk Actions ---
+  const toggleItemSelected = (itemId: string) => {
+      setSelectedItemIds(prev => (prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]));
+  };
+
+  // Deletes with one request (shared mode) and drops the items from the list; returns what was
+  // removed, for undoing. Throws on failure.
+  const deleteItems = async (itemIds: string[] | 'all'): Promise<ClipboardItemData[]> => {
+      const deletedItems = itemIds === 'all' ? clipboardItems : clipboardItems.filter(item => itemIds.includes(item.id));
+      if (isSharedMode && collectionId) {
+          const response = await apiMutate(`/api/clip/${collectionId}/items`, {
+              method: 'DELETE',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(itemIds === 'all' ? { all: true } : { ids: itemIds }),
+          }, { idempotent: true });
+          const result = await response.json();
+          if (!response.ok) {
+              throw new Error(result.error || result.details || 'Failed to delete items.');
+          }
+      }
+      setClipboardItems(prevItems => (itemIds === 'all' ? [] : prevItems.filter(item => !itemIds.includes(item.id))));
+      setSelectedItemIds(prev => (itemIds === 'all' ? [] : prev.filter(id => !itemIds.includes(id))));
+      return deletedItems;
+  };
+
+  // Brings deleted items back: out of the server's trash in shared mode, from the kept copies locally
+  const handleUndoDelete = async (deletedItems: ClipboardItemData[]) => {
+      try {
+          let restoredItems = deletedItems;
+          if (isSharedMode && collectionId) {
+              const response = await apiMutate(`/api/clip/${collectionId}/trash/restore`, {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ ids: deletedItems.map(item => item.id) }),
+              }, { idempotent: true });
+              const result = await response.json();
+              if (!response.ok) {
+                  throw new Error(result.error || result.details || 'Failed to restore items.');
+              }
+              restoredItems = encryptionKey ? await decryptItems(encryptionKey, result.items) : result.items;
+          }
+          setClipboardItems(prevItems => sortItems([...restoredItems.filter(item => !prevItems.some(({ id }) => id === item.id)), ...prevItems]));
+          const count = restoredItems.length;
+          toast({ title: 'Deletion Undone', description: `${count} ${count === 1 ? 'item' : 'items'} restored.` });
+      } catch (error) {
+          console.error('Failed to restore deleted items:', error);
+          const message = error instanceof Error ? error.message : 'Could not restore the items.';
+          toast({ title: 'Undo Failed', description: message, variant: 'destructive' });
+      }
+  };
+
+  const renderUndoAction = (deletedItems: ClipboardItemData[]) => (
+      <ToastAction altText="Undo the deletion" onClick={() => void handleUndoDelete(deletedItems)}>Undo</ToastAction>
+  );
+
+  const handleDeleteSelected = async () => {
+      if (isProcessing || selectedItems.length === 0) return;
+      setIsProcessing(true);
+      setApiError(null);
+      const count = selectedItems.length;
+      try {
+          const deletedItems = await deleteItems(selectedItems.map(item => item.id));
+          toast({
+              title: 'Items Deleted',
+              description: `${count} ${count === 1 ? 'item' : 'items'} ${isSharedMode ? 'moved to the trash' : 'removed from your local history'}.`,
+              action: renderUndoAction(deletedItems),
+          });
+      } catch (error) {
+          console.error('Failed to delete selected items:', error);
+          const message = error instanceof Error ? error.message : 'Could not delete items.';
+          setApiError(message);
+          toast({ title: 'Deletion Failed', description: `Could not delete items: ${message}`, variant: 'destructive' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  const handleClearCollection = async () => {
+      if (isProcessing) return;
+      setIsProcessing(true);
+      setApiError(null);
+      try {
+          const deletedItems = await deleteItems('all');
+          setCurrentPage(1);
+          toast({
+              title: 'Clipboard Cleared',
+              description: isSharedMode ? 'All items were moved to the trash of the shared clipboard.' : 'Your local history is empty now.',
+              action: deletedItems.length > 0 ? renderUndoAction(deletedItems) : undefined,
+          });
+      } catch (error) {
+          console.error('Failed to clear collection:', error);
+          const message = error instanceof Error ? error.message : 'Could not clear the clipboard.';
+          setApiError(message);
+          toast({ title: 'Clear Failed', description: message, variant: 'destructive' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  // Copies the text of the selected items, in list order, as one block. Files and secrets that
+  // were not revealed yet are skipped (revealing many secrets at once would burn their views).
+  const handleCopySelected = async () => {
+      const texts = selectedItems.flatMap(listItem => {
+          const item = revealedItems[listItem.id] ?? listItem;
+          return isAttachmentItem(item) || (isViewLimited(listItem) && !revealedItems[listItem.id]) ? [] : [item.content];
+      });
+      const skipped = selectedItems.length - texts.length;
+      if (texts.length === 0) {
+          toast({ title: 'Nothing to Copy', description: 'Files and hidden items cannot be copied as text.', variant: 'destructive' });
+          return;
+      }
+      try {
+          await navigator.clipboard.writeText(texts.join('\n\n'));
+          toast({
+              title: 'Copied!',
+              description: `${texts.length} ${texts.length === 1 ? 'item' : 'items'} copied as one text block.${skipped > 0 ? ` Skipped ${skipped} (files or hidden items).` : ''}`,
+          });
+      } catch (error) {
+          console.error('Failed to copy selected items:', error);
+          toast({ title: 'Copy Failed', description: 'Could not write to the clipboard. Grant permission or copy manually.', variant: 'destructive' });
+      }
+  };
+
   // --- Copy Item to System Clipboard ---
-  const handleCopyToClipboard = async (item: ClipboardItemData) => {
+  const handleCopyToClipboard = async (listItem: ClipboardItemData) => {
     if (isProcessing) return;
     setIsProcessing(true);
     setApiError(null);
@@ -326,11 +1194,31 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
              return;
         }
 
-        if (item.type === 'html' && item.htmlContent && navigator.clipboard.write && typeof window.ClipboardItem === 'function') {
+        // Copying a view-limited item counts as viewing it
+        const item = isViewLimited(listItem) ? await revealItem(listItem) : listItem;
+
+        if (item.type === 'image' && isAttachmentItem(item) && navigator.clipboard.write && typeof window.ClipboardItem === 'function') {
+             const src = getAttachmentSrc(item);
+             try {
+                 if (!src) throw new Error('Image data unavailable.');
+                 const imageBlob = await (await fetch(src)).blob();
+                 // Browsers reliably accept only PNG images on the clipboard
+                 await navigator.clipboard.write([new ClipboardItem({ [imageBlob.type || item.attachment.mimeType]: imageBlob })]);
+                 toast({ title: 'Copied Image', description: `${item.attachment.filename} copied to clipboard.` });
+             } catch (clipboardError) {
+                 console.warn('Image copy failed, falling back to copying the file name:', clipboardError);
+                 await navigator.clipboard.writeText(item.content);
+                 toast({ title: 'Copied File Name', description: 'This image format cannot be placed on the clipboard; copied its name instead.' });
+             }
+        } else if (item.type === 'file' && isSharedMode && collectionId && !encryptionKey) {
+            // Share the download link rather than the raw bytes
+            await navigator.clipboard.writeText(new URL(getAttachmentDownloadPath(collectionId, item.id, true), window.location.origin).toString());
+            toast({ title: 'Copied Download Link', description: 'A download link for this file was copied to clipboard.' });
+        } else if (item.type === 'html' && item.htmlContent && navigator.clipboard.write && typeof window.ClipboardItem === 'function') {
              try {
                  // Prepare blobs for ClipboardItem API
                  const plainTextBlob = new Blob([item.content], { type: 'text/plain' });
-                 const htmlBlob = new Blob([item.htmlContent], { type: 'text/html' });
+                 const htmlBlob = new Blob([sanitizeClipboardHtml(item.htmlContent)], { type: 'text/html' });
                  const clipboardItem = new ClipboardItem({
                      'text/plain': plainTextBlob,
                      'text/html': htmlBlob,
@@ -373,13 +1261,14 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
       case 'text':
         return <p className="text-sm whitespace-pre-wrap break-words">{item.content}</p>;
       case 'html':
-         // Render HTML content safely using dangerouslySetInnerHTML
+         // HTML is sanitized again right before rendering: items may predate server-side
+         // sanitization, come from local history, or be decrypted in the browser
          // Ensure the container has appropriate styling (e.g., prose for Tailwind Typography)
          return (
             <div
                className="text-sm prose prose-sm dark:prose-invert max-w-none"
                // Use item.htmlContent if available, otherwise fallback to item.content
-               dangerouslySetInnerHTML={{ __html: item.htmlContent || item.content }}
+               dangerouslySetInnerHTML={{ __html: sanitizeClipboardHtml(item.htmlContent || item.content) }}
             />
          );
       case 'url':
@@ -390,6 +1279,40 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
             {item.content} {/* Display the original URL text */}
           </a>
         );
+      case 'image':
+      case 'file': {
+        if (!isAttachmentItem(item)) {
+            return <p className="text-sm text-muted-foreground">Attachment details are missing.</p>;
+        }
+        const { filename, mimeType, size } = item.attachment;
+        const previewSrc = getAttachmentSrc(item);
+        return (
+          <div className="space-y-2">
+            {item.type === 'image' && previewSrc && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={previewSrc}
+                alt={filename}
+                loading="lazy"
+                className="max-h-36 max-w-full rounded-md border object-contain bg-muted"
+              />
+            )}
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate" title={filename}>{filename}</span>
+              <span className="text-xs text-muted-foreground flex-shrink-0">{mimeType} · {formatFileSize(size)}</span>
+            </div>
+            {previewSrc && (
+              <a
+                href={getAttachmentSrc(item, true)}
+                download={filename}
+                className="inline-flex items-center text-xs text-accent hover:underline"
+              >
+                <Download className="mr-1 h-3 w-3" /> Download
+              </a>
+            )}
+          </div>
+        );
+      }
       default:
         return <p className="text-sm text-muted-foreground">Unsupported item type: {item.type}</p>;
     }
@@ -401,10 +1324,246 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
         case 'text': return <FileText className="h-5 w-5 flex-shrink-0"/>;
         case 'html': return <Code className="h-5 w-5 flex-shrink-0" />;
         case 'url': return <LinkIcon className="h-5 w-5 flex-shrink-0" />;
+        case 'image': return <ImageIcon className="h-5 w-5 flex-shrink-0" />;
+        case 'file': return <FileIcon className="h-5 w-5 flex-shrink-0" />;
         default: return <Clipboard className="h-5 w-5 flex-shrink-0"/>;
      }
   }
 
+  // Small inline thumbnail shown in the item header for image items
+  const renderItemThumbnail = (item: ClipboardItemData) => {
+     const src = item.type === 'image' ? getAttachmentSrc(item) : undefined;
+     if (!src) return null;
+     // eslint-disable-next-line @next/next/no-img-element
+     return <img src={src} alt="" className="h-5 w-5 flex-shrink-0 rounded-sm border object-cover" />;
+  }
+
+  // One history entry. `sectionIds` are the items shown alongside it (pinned section or current page),
+  // in order; a dragged item can only be dropped within its own section.
+  const renderItemCard = (listItem: ClipboardItemData, sectionIds: string[]) => {
+      const item = revealedItems[listItem.id] ?? listItem;
+      const isHidden = isViewLimited(listItem) && !revealedItems[listItem.id];
+      const canReorder = !readOnly && sectionIds.length > 1 && editingItemId !== item.id;
+      return (
+        <Card
+          key={item.id}
+          className={cn(
+              'shadow-sm transition-all hover:shadow-md overflow-hidden',
+              draggedItemId === item.id && 'opacity-50',
+              dropTargetId === item.id && 'ring-2 ring-accent/60'
+          )}
+          draggable={canReorder}
+          onDragStart={canReorder ? (e) => handleItemDragStart(e, item.id) : undefined}
+          onDragOver={canReorder ? (e) => handleItemDragOver(e, item.id, sectionIds) : undefined}
+          onDragLeave={canReorder ? () => setDropTargetId(prev => (prev === item.id ? null : prev)) : undefined}
+          onDrop={canReorder ? (e) => handleItemDrop(e, item.id, sectionIds) : undefined}
+          onDragEnd={canReorder ? handleItemDragEnd : undefined}
+        >
+           <CardHeader className="flex flex-row items-center justify-between py-2 px-4 border-b bg-muted/50">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground truncate mr-2">
+                 <Checkbox
+                     checked={selectedItemIds.includes(item.id)}
+                     onCheckedChange={() => toggleItemSelected(item.id)}
+                     className="flex-shrink-0"
+                     aria-label={`Select ${item.type} item`}
+                 />
+                 {canReorder && <GripVertical className="h-4 w-4 flex-shrink-0 cursor-grab" aria-hidden="true" />}
+                 {renderItemThumbnail(item) ?? getItemIcon(item.type)}
+                 <span className="capitalize truncate">{item.type}</span>
+                 {listItem.starred && <Star className="h-3 w-3 flex-shrink-0 fill-amber-400 text-amber-500" aria-label="Starred" />}
+                 {isViewLimited(listItem) && (
+                     <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-normal text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                         <Flame className="h-3 w-3" />
+                         {listItem.viewsRemaining === 0
+                             ? 'Deleted from server'
+                             : `${listItem.viewsRemaining} ${listItem.viewsRemaining === 1 ? 'view' : 'views'} left`}
+                     </span>
+                 )}
+             </div>
+             <span className="text-xs text-muted-foreground flex-shrink-0" title={item.updatedAt ? `Edited ${formatTimestamp(item.updatedAt)}` : undefined}>
+                {formatTimestamp(item.createdAt)}{item.updatedAt && ' (edited)'}
+            </span>
+          </CardHeader>
+          {/* Limit content height and make it scrollable if it overflows */}
+          <CardContent className="p-4 max-h-48 overflow-y-auto">
+            {isHidden ? (
+              <div className="flex flex-col items-center gap-2 py-2 text-center">
+                <p className="text-sm text-muted-foreground">
+                  This content is hidden. Revealing or copying it uses one of its remaining views.
+                </p>
+                <Button variant="outline" size="sm" onClick={() => handleRevealItem(listItem)} disabled={isProcessing}>
+                  <Eye className="mr-2 h-4 w-4" /> Reveal
+                </Button>
+              </div>
+            ) : editingItemId === item.id ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={editText}
+                  onChange={(e) => {
+                      setEditText(e.target.value);
+                      setEditError(null);
+                  }}
+                  rows={4}
+                  className="resize-y"
+                  disabled={isProcessing}
+                  aria-label="Edit item content"
+                  aria-invalid={!!editError}
+                  autoFocus
+                />
+                {item.type === 'html' && (
+                  <p className="text-xs text-muted-foreground italic">Saving replaces the rich formatting with plain text.</p>
+                )}
+                {editError && (
+                  <p className="text-sm text-destructive flex items-center gap-1" role="alert">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" /> {editError}
+                  </p>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={cancelEditing} disabled={isProcessing}>Cancel</Button>
+                  <Button size="sm" onClick={() => handleSaveEdit(item)} disabled={isProcessing || !editText.trim()}>
+                    <Check className="mr-2 h-4 w-4" /> Save
+                  </Button>
+                </div>
+              </div>
+            ) : renderItemContent(item)}
+          </CardContent>
+          {historyItemId === item.id && item.history && item.history.length > 0 && (
+            <div className="border-t px-4 py-2 space-y-2 max-h-48 overflow-y-auto">
+              <p className="text-xs font-medium text-muted-foreground">Earlier versions</p>
+              {item.history.map(revision => (
+                <div key={revision.version} className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-xs text-muted-foreground">Version {revision.version} · {formatTimestamp(revision.updatedAt)}</p>
+                    <p className="text-sm whitespace-pre-wrap break-words line-clamp-3">{revision.content}</p>
+                  </div>
+                  {!readOnly && (
+                    <Button variant="outline" size="sm" className="flex-shrink-0" onClick={() => handleRestoreRevision(item, revision)} disabled={isProcessing}>
+                      <RotateCcw className="mr-1 h-3 w-3" /> Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {taggingItemId === item.id ? (
+            <div className="border-t px-4 py-2 flex items-start gap-2">
+              <TagInput tags={listItem.tags ?? []} onChange={(tags) => handleSetTags(listItem, tags)} suggestions={knownTags} className="flex-1" />
+              <Button variant="ghost" size="sm" onClick={() => setTaggingItemId(null)}>Done</Button>
+            </div>
+          ) : listItem.tags && listItem.tags.length > 0 && (
+            <div className="border-t px-4 py-2 flex flex-wrap gap-1">
+              {listItem.tags.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTagFilter(tag)}
+                  className={cn(
+                      'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                      tagFilter.includes(tag) ? 'border-transparent bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                  aria-pressed={tagFilter.includes(tag)}
+                  title={`Show items tagged #${tag}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          <CardFooter className="flex justify-end gap-1 py-2 px-3 border-t bg-muted/50">
+            {!readOnly && (
+            <Tooltip>
+               <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className='h-8 w-8' onClick={() => setTaggingItemId(taggingItemId === item.id ? null : item.id)} aria-pressed={taggingItemId === item.id}>
+                    <TagIcon className="h-4 w-4" />
+                    <span className="sr-only">Edit tags of {item.type} item</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Edit tags</p>
+                </TooltipContent>
+            </Tooltip>
+            )}
+            {!readOnly && (
+            <Tooltip>
+               <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className='h-8 w-8' onClick={() => handleToggleStarred(listItem)} aria-pressed={!!listItem.starred}>
+                    <Star className={cn('h-4 w-4', listItem.starred && 'fill-amber-400 text-amber-500')} />
+                    <span className="sr-only">{listItem.starred ? 'Unstar' : 'Star'} {item.type} item</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{listItem.starred ? 'Remove star' : 'Star this item'}</p>
+                </TooltipContent>
+            </Tooltip>
+            )}
+            {!readOnly && (
+            <Tooltip>
+               <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className='h-8 w-8' onClick={() => handleTogglePinned(listItem)} aria-pressed={!!listItem.pinned}>
+                    {listItem.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    <span className="sr-only">{listItem.pinned ? 'Unpin' : 'Pin'} {item.type} item</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{listItem.pinned ? 'Unpin' : 'Pin to the top'}</p>
+                </TooltipContent>
+            </Tooltip>
+            )}
+            {item.history && item.history.length > 0 && (
+            <Tooltip>
+               <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className='h-8 w-8' onClick={() => setHistoryItemId(historyItemId === item.id ? null : item.id)} aria-pressed={historyItemId === item.id}>
+                    <HistoryIcon className="h-4 w-4" />
+                    <span className="sr-only">Show earlier versions</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Show earlier versions ({item.history.length})</p>
+                </TooltipContent>
+            </Tooltip>
+            )}
+            {!readOnly && !isHidden && isEditableItem(item) && editingItemId !== item.id && (
+            <Tooltip>
+               <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className='h-8 w-8' onClick={() => startEditing(item)} disabled={isProcessing}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit {item.type} item</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Edit this item</p>
+                </TooltipContent>
+            </Tooltip>
+            )}
+            <Tooltip>
+               <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className='h-8 w-8' onClick={() => handleCopyToClipboard(listItem)} disabled={isProcessing}>
+                    <Copy className="h-4 w-4" />
+                    <span className="sr-only">Copy {item.type}</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Copy {item.type} to clipboard</p>
+                </TooltipContent>
+            </Tooltip>
+            {!readOnly && (
+            <Tooltip>
+                <TooltipTrigger asChild>
+                   <Button variant="ghost" size="icon" className='h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10' onClick={() => handleDeleteItem(item.id)} disabled={isProcessing}>
+                     <Trash2 className="h-4 w-4" />
+                     <span className="sr-only">Delete {item.type} item</span>
+                   </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Delete this item</p>
+                </TooltipContent>
+             </Tooltip>
+            )}
+          </CardFooter>
+        </Card>
+      );
+  };
+
   // --- Format Timestamp ---
   const formatTimestamp = (dateInput: Date | string): string => {
      try {
@@ -427,8 +1586,19 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
   return (
     <TooltipProvider> {/* Wrap component with TooltipProvider */}
       <div className="w-full max-w-2xl mx-auto space-y-8">
-        {/* Add Item Card */}
-        <Card className="shadow-md">
+        {/* Add Item Card (hidden for read-only links) */}
+        {!readOnly && (
+        <Card
+          className={cn('shadow-md relative transition-colors', isDragging && 'border-accent ring-2 ring-accent/40')}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {isDragging && (
+            <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-lg bg-background/80 text-sm font-medium text-accent">
+              <Upload className="mr-2 h-4 w-4" /> Drop images or files to add them
+            </div>
+          )}
           <CardHeader>
             <CardTitle className="text-xl">
                 {isSharedMode ? 'Add to Shared Clipboard' : 'Add to Local Clipboard'}
@@ -437,17 +1607,20 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
           <CardContent className="space-y-4">
             <div className="relative">
                <Textarea
-                  placeholder={isSharedMode ? "Paste text, HTML, or a URL to add it to the shared list..." : "Paste or type text, HTML, or a URL to save it locally..."}
+                  placeholder={isSharedMode ? "Paste text, HTML, a URL or a screenshot to add it to the shared list..." : "Paste or type text, HTML, a URL or a screenshot to save it locally..."}
                   value={textInput}
                   onChange={(e) => {
                       setTextInput(e.target.value);
+                      setInputError(null);
                       // If user types, assume it's not the previously pasted HTML
                       if (htmlInput) { setHtmlInput(undefined); }
                   }}
+                  onPaste={handleTextareaPaste}
                   rows={6}
                   className="pr-12 resize-y min-h-[120px]"
                   disabled={isProcessing || isLoading} // Disable textarea while processing or loading
                   aria-label="Clipboard input area"
+                  aria-invalid={!!inputError}
                />
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -463,17 +1636,69 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
                     </Button>
                   </TooltipTrigger>
                    <TooltipContent>
-                     <p>Paste from system clipboard (reads text/HTML)</p>
+                     <p>Paste from system clipboard (reads text/HTML/images)</p>
+                   </TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="absolute top-10 right-2 h-7 w-7 text-muted-foreground hover:text-accent"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isProcessing || isLoading}
+                    >
+                        <Paperclip className="h-4 w-4" />
+                        <span className="sr-only">Attach an image or file</span>
+                    </Button>
+                  </TooltipTrigger>
+                   <TooltipContent>
+                     <p>Attach an image or file (max {formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)})</p>
                    </TooltipContent>
                 </Tooltip>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={handleFileInputChange}
+                    aria-hidden="true"
+                    tabIndex={-1}
+                />
             </div>
+             {inputError && (
+                 <p className="text-sm text-destructive flex items-center gap-1" role="alert">
+                     <AlertTriangle className="h-4 w-4 flex-shrink-0" /> {inputError}
+                 </p>
+             )}
              {htmlInput && (
                  <p className="text-xs text-muted-foreground italic">
                      Pasted content includes rich formatting (HTML).
                  </p>
              )}
+             <TagInput
+                 tags={newItemTags}
+                 onChange={setNewItemTags}
+                 suggestions={knownTags}
+                 disabled={isProcessing || isLoading}
+                 placeholder={encryptionKey ? 'Add tags (not encrypted)...' : 'Add tags...'}
+             />
           </CardContent>
-          <CardFooter>
+          <CardFooter className="gap-2">
+            {isSharedMode && (
+              <Select value={viewLimit} onValueChange={(value) => setViewLimit(value as typeof viewLimit)} disabled={isProcessing || isLoading}>
+                <SelectTrigger className="w-44 flex-shrink-0" aria-label="View limit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VIEW_LIMIT_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {option === 'unlimited' ? 'Unlimited views' : option === '1' ? 'Burn after reading' : `Delete after ${option} views`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <Button
               onClick={handleAddItem}
               disabled={isProcessing || isLoading || !textInput.trim()}
@@ -484,6 +1709,7 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
             </Button>
           </CardFooter>
         </Card>
+        )}
 
          {/* API Error Display */}
          {apiError && (
@@ -499,9 +1725,124 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
 
         {/* Clipboard History Section */}
         <div>
-          <h2 className="text-xl font-semibold mb-4">
+          <div className="mb-4 flex items-start justify-between gap-2">
+          <h2 className="text-xl font-semibold">
               {isSharedMode ? 'Shared History' : 'Local History'} ({clipboardItems.length} {clipboardItems.length === 1 ? 'item' : 'items'})
+              {isSharedMode && (
+                  <span
+                      className={cn('ml-3 inline-flex items-center text-xs font-normal align-middle', isLive ? 'text-emerald-600 dark:text-emerald-400' : 'text-muted-foreground')}
+                      title={isLive ? 'Receiving changes from other devices in real time' : 'Not connected to live updates; use Refresh to reload'}
+                  >
+                      <Radio className="mr-1 h-3 w-3" /> {isLive ? 'Live' : 'Offline'}
+                  </span>
+              )}
+              {isSharedMode && mutationStatus.retrying && (
+                  <span
+                      className="ml-3 inline-flex items-center text-xs font-normal align-middle text-amber-600 dark:text-amber-400"
+                      title="Some changes could not be saved yet and will be retried automatically"
+                  >
+                      <RefreshCw className="mr-1 h-3 w-3 animate-spin" /> Retrying {mutationStatus.pending} {mutationStatus.pending === 1 ? 'change' : 'changes'}
+                  </span>
+              )}
           </h2>
+          {!readOnly && clipboardItems.length > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="flex-shrink-0 text-destructive hover:text-destructive hover:bg-destructive/10" disabled={isProcessing}>
+                  <Trash2 className="mr-2 h-4 w-4" /> Clear all
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear this clipboard?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {isSharedMode
+                        ? `All ${clipboardItems.length} items will be deleted for everyone with the link.`
+                        : `All ${clipboardItems.length} items will be removed from your local history.`}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction className="bg-destructive text-destructive-foreground hover:bg-destructive/90" onClick={handleClearCollection}>
+                    Clear all
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          </div>
+          {!isLoading && (clipboardItems.length > 0 || isFiltering) && (
+            <div className="mb-4 space-y-2">
+              <div className="relative">
+                <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  type="search"
+                  placeholder="Search items..."
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
+                  className="pl-9 pr-9"
+                  aria-label="Search items"
+                />
+                {(searchText || typeFilter.length > 0 || tagFilter.length > 0) && (
+                  <Button variant="ghost" size="icon" className="absolute right-1 top-1/2 h-7 w-7 -translate-y-1/2 text-muted-foreground" onClick={clearSearch}>
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Clear search and filters</span>
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by type">
+                {CLIPBOARD_ITEM_TYPES.map(type => (
+                  <Button
+                    key={type}
+                    variant={typeFilter.includes(type) ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 rounded-full px-3 text-xs capitalize"
+                    onClick={() => toggleTypeFilter(type)}
+                    aria-pressed={typeFilter.includes(type)}
+                  >
+                    {type}
+                  </Button>
+                ))}
+              </div>
+              {(knownTags.length > 0 || tagFilter.length > 0) && (
+                <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by tag">
+                  {[...tagFilter.filter(tag => !tagCounts[tag]), ...knownTags].map(tag => (
+                    <Button
+                      key={tag}
+                      variant={tagFilter.includes(tag) ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-7 rounded-full px-3 text-xs"
+                      onClick={() => toggleTagFilter(tag)}
+                      aria-pressed={tagFilter.includes(tag)}
+                    >
+                      #{tag} <span className="ml-1 opacity-70">{tagCounts[tag] ?? 0}</span>
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {!isLoading && selectedItems.length > 0 && (
+            <div className="sticky top-16 z-10 mb-4 flex flex-wrap items-center gap-2 rounded-lg border bg-card p-2 shadow-sm">
+              <span className="px-2 text-sm font-medium">{selectedItems.length} selected</span>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedItemIds(prev => [...new Set([...prev, ...shownItems.map(item => item.id)])])}>
+                Select all shown
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedItemIds([])}>
+                Clear selection
+              </Button>
+              <div className="ml-auto flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCopySelected}>
+                  <Copy className="mr-2 h-4 w-4" /> Copy as text
+                </Button>
+                {!readOnly && (
+                  <Button variant="destructive" size="sm" onClick={handleDeleteSelected} disabled={isProcessing}>
+                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
           {isLoading ? (
              <div className="space-y-4">
                 {/* Skeletons for paginated items */}
@@ -510,61 +1851,50 @@ export default function ClipboardManager({ collectionId, initialItems }: Clipboa
                 ))}
                 <p className='text-center text-muted-foreground py-4'>Loading history...</p>
              </div>
+          ) : isFiltering ? (
+             <div className="space-y-4">
+                {searchError ? (
+                    <p className="text-sm text-destructive flex items-center gap-1" role="alert">
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0" /> {searchError}
+                    </p>
+                ) : (
+                    <p className="text-sm text-muted-foreground" aria-live="polite">
+                        {isSearching && !serverSearch ? 'Searching...' : `${searchTotal} matching ${searchTotal === 1 ? 'item' : 'items'}`}
+                    </p>
+                )}
+                {/* Results mix pinned and unpinned items, so they are not reorderable */}
+                {searchResults.map(listItem => renderItemCard(listItem, []))}
+                {hasMoreResults && (
+                    <div className="flex justify-center">
+                        <Button variant="outline" onClick={handleLoadMoreResults} disabled={isSearching}>
+                            {isSearching ? 'Loading...' : 'Load more'}
+                        </Button>
+                    </div>
+                )}
+             </div>
           ) : clipboardItems.length === 0 ? (
             <Card className="shadow-sm border-dashed border-muted-foreground/50">
               <CardContent className="p-6">
                 <p className="text-muted-foreground text-center">
                     {isSharedMode ? 'This shared clipboard is currently empty.' : 'Your local clipboard history is empty.'}
                     <br/>
-                    Use the input area above to add your first item!
+                    {readOnly ? 'New items will appear here as soon as they are added.' : 'Use the input area above to add your first item!'}
                 </p>
               </CardContent>
             </Card>
           ) : (
             <>
+            {pinnedItems.length > 0 && (
+                  <div className="space-y-4 mb-6">
+                    <h3 className="flex items-center gap-1 text-sm font-medium text-muted-foreground">
+                      <Pin className="h-4 w-4" /> Pinned ({pinnedItems.length})
+                    </h3>
+                    {pinnedItems.map(listItem => renderItemCard(listItem, pinnedItems.map(item => item.id)))}
+                  </div>
+            )}
             {/* Removed ScrollArea for pagination */}
                   <div className="space-y-4">
-                    {paginatedItems.map((item) => (
-                      <Card key={item.id} className="shadow-sm transition-all hover:shadow-md overflow-hidden">
-                         <CardHeader className="flex flex-row items-center justify-between py-2 px-4 border-b bg-muted/50">
-                          <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground truncate mr-2">
-                               {getItemIcon(item.type)}
-                               <span className="capitalize truncate">{item.type}</span>
-                           </div>
-                           <span className="text-xs text-muted-foreground flex-shrink-0">
-                              {formatTimestamp(item.createdAt)}
-                          </span>
-                        </CardHeader>
-                        {/* Limit content height and make it scrollable if it overflows */}
-                        <CardContent className="p-4 max-h-48 overflow-y-auto">
-                          {renderItemContent(item)}
-                        </CardContent>
-                        <CardFooter className="flex justify-end gap-1 py-2 px-3 border-t bg-muted/50">
-                          <Tooltip>
-                             <TooltipTrigger asChild>
-                                <Button variant="ghost" size="icon" className='h-8 w-8' onClick={() => handleCopyToClipboard(item)} disabled={isProcessing}>
-                                  <Copy className="h-4 w-4" />
-                                  <span className="sr-only">Copy {item.type}</span>
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Copy {item.type} to clipboard</p>
-                              </TooltipContent>
-                          </Tooltip>
-                          <Tooltip>
-                              <TooltipTrigger asChild>
-                                 <Button variant="ghost" size="icon" className='h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10' onClick={() => handleDeleteItem(item.id)} disabled={isProcessing}>
-                                   <Trash2 className="h-4 w-4" />
-                                   <span className="sr-only">Delete {item.type} item</span>
-                                 </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Delete this item</p>
-                              </TooltipContent>
-                           </Tooltip>
-                        </CardFooter>
-                      </Card>
-                    ))}
+                    {paginatedItems.map(listItem => renderItemCard(listItem, paginatedItems.map(item => item.id)))}
                   </div>
 
               {/* Pagination Controls */}
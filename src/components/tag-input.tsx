@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useId, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { MAX_TAGS_PER_ITEM, MAX_TAG_LENGTH } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // Existing tags offered for autocompletion, most used first
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+// Same normalization as itemTagsSchema, so chips show what the server will store
+const normalizeTag = (value: string): string => value.trim().toLowerCase().replace(/,/g, '').slice(0, MAX_TAG_LENGTH);
+
+// Chips for the current tags plus a text field; Enter or a comma adds a tag, Backspace in the empty field removes the last one
+export default function TagInput({ tags, onChange, suggestions = [], disabled, placeholder = 'Add tags...', className }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const suggestionListId = useId();
+  const isFull = tags.length >= MAX_TAGS_PER_ITEM;
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    setDraft('');
+    if (!tag || tags.includes(tag) || isFull) return;
+    onChange([...tags, tag]);
+  };
+
+  const removeTag = (tag: string) => onChange(tags.filter(t => t !== tag));
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addTag(draft);
+    } else if (event.key === 'Backspace' && !draft && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1', className)}>
+      {tags.map(tag => (
+        <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+          #{tag}
+          <button
+            type="button"
+            onClick={() => removeTag(tag)}
+            disabled={disabled}
+            className="rounded-full text-muted-foreground hover:text-foreground disabled:pointer-events-none"
+          >
+            <X className="h-3 w-3" />
+            <span className="sr-only">Remove tag {tag}</span>
+          </button>
+        </Badge>
+      ))}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+        list={suggestionListId}
+        placeholder={isFull ? `At most ${MAX_TAGS_PER_ITEM} tags` : placeholder}
+        disabled={disabled || isFull}
+        className="h-8 min-w-[8rem] flex-1 text-sm"
+        aria-label="Add a tag"
+      />
+      <datalist id={suggestionListId}>
+        {suggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+}
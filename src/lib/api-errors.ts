@@ -0,0 +1,195 @@
+import type { ZodError } from 'zod';
+import { formatFileSize } from '@/lib/attachments';
+import {
+  CollectionConflictError,
+  CollectionFullError,
+  CollectionNotFoundError,
+  CorruptCollectionError,
+  ItemVersionConflictError,
+  redactLimitedItem,
+} from '@/lib/storage';
+import { toValidationErrorResponse } from '@/lib/types';
+
+/*
+ * Errors thrown by API route handlers. `withStoreRoute` turns them into the shared JSON
+ * envelope, so handlers can `throw` instead of building error responses themselves:
+ *
+ *   { "error": "Collection not found", "details": "...", "code": "COLLECTION_NOT_FOUND", "requestId": "..." }
+ *
+ * `error` and `details` are human readable and may change; clients should branch on `code`.
+ * Some errors add extra fields (e.g. `passwordProtected`, `readOnly`, `usage`, `issues`).
+ */
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'VALIDATION_FAILED'
+  | 'PASSPHRASE_REQUIRED'
+  | 'SESSION_EXPIRED'
+  | 'INCORRECT_PASSPHRASE'
+  | 'READ_ONLY'
+  | 'NOT_FOUND'
+  | 'COLLECTION_NOT_FOUND'
+  | 'CONFLICT'
+  | 'VERSION_CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'QUOTA_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'SERVER_MISCONFIGURED'
+  | 'STORAGE_UNAVAILABLE'
+  | 'CORRUPT_DATA'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  error: string;
+  details?: string;
+  code: ApiErrorCode;
+  requestId: string;
+  [field: string]: unknown;
+}
+
+interface ApiErrorOptions {
+  details?: string;
+  code?: ApiErrorCode;
+  extra?: Record<string, unknown>; // Additional fields merged into the response body
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly details?: string;
+  readonly extra: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, code: ApiErrorCode, message: string, { details, extra = {}, headers = {}, cause }: Omit<ApiErrorOptions, 'code'> = {}) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.extra = extra;
+    this.headers = headers;
+  }
+
+  toBody(requestId: string): ApiErrorBody {
+    return {
+      error: this.message,
+      ...(this.details !== undefined && { details: this.details }),
+      ...this.extra,
+      code: this.code,
+      requestId,
+    };
+  }
+}
+
+export class BadRequestError extends ApiError {
+  constructor(message = 'Invalid request body', options: ApiErrorOptions = {}) {
+    super(400, options.code ?? 'BAD_REQUEST', message, options);
+    this.name = 'BadRequestError';
+  }
+}
+
+// Schema violations; oversized strings become 413 like any other payload size problem
+export class ValidationError extends ApiError {
+  constructor(zodError: ZodError) {
+    const { status, body } = toValidationErrorResponse(zodError);
+    super(status, status === 413 ? 'PAYLOAD_TOO_LARGE' : 'VALIDATION_FAILED', body.error, { details: body.details, extra: { issues: body.issues } });
+    this.name = 'ValidationError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(401, options.code ?? 'PASSPHRASE_REQUIRED', message, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(403, options.code ?? 'READ_ONLY', message, options);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(404, options.code ?? 'NOT_FOUND', message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(413, options.code ?? 'PAYLOAD_TOO_LARGE', message, options);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class TooManyRequestsError extends ApiError {
+  constructor(details: string, retryAfterSeconds: number, limit: number) {
+    super(429, 'RATE_LIMITED', 'Too many requests', {
+      details,
+      extra: { retryAfter: retryAfterSeconds },
+      headers: {
+        'Retry-After': String(retryAfterSeconds),
+        'X-RateLimit-Limit': String(limit),
+        'X-RateLimit-Remaining': '0',
+      },
+    });
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+// Deployment problems (missing REDIS_URL, base URL); retrying will not help
+export class ServerConfigError extends ApiError {
+  constructor(details: string) {
+    super(500, 'SERVER_MISCONFIGURED', 'Server configuration error', { details });
+    this.name = 'ServerConfigError';
+  }
+}
+
+// The storage backend could not be reached; clients may retry later
+export class StorageUnavailableError extends ApiError {
+  constructor(details: string, cause?: unknown) {
+    super(503, 'STORAGE_UNAVAILABLE', 'Failed to connect to database', { details, cause });
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+/**
+ * Maps errors thrown by the storage layer to API errors. Anything unrecognised becomes a
+ * 500 with `fallbackMessage` (e.g. "Failed to add item") and the original message as details.
+ */
+export const toApiError = (error: unknown, fallbackMessage: string): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (error instanceof CollectionNotFoundError) {
+    return new NotFoundError('Collection not found', { code: 'COLLECTION_NOT_FOUND' });
+  }
+  if (error instanceof CollectionConflictError) {
+    return new ApiError(409, 'CONFLICT', 'Conflict: Collection updated concurrently. Please retry.', { cause: error });
+  }
+  // 412 rather than 409: resending the same edit cannot succeed, so clients must not retry it
+  if (error instanceof ItemVersionConflictError) {
+    return new ApiError(412, 'VERSION_CONFLICT', 'Item was edited elsewhere', {
+      details: 'This item changed since you started editing. Review the latest version and try again.',
+      extra: { item: redactLimitedItem(error.current) },
+    });
+  }
+  if (error instanceof CollectionFullError) {
+    return new PayloadTooLargeError('Collection full', {
+      code: 'QUOTA_EXCEEDED',
+      details: error.quota === 'items'
+        ? `A shared clipboard can hold at most ${error.usage.maxItems} items. Delete some to add more.`
+        : `This item would exceed the storage quota of ${formatFileSize(error.usage.maxBytes)}. Delete some items to add more.`,
+      extra: { issues: [], usage: error.usage },
+    });
+  }
+  if (error instanceof CorruptCollectionError) {
+    return new ApiError(500, 'CORRUPT_DATA', 'Failed to read collection data', { details: 'Corrupted data format.', cause: error });
+  }
+  return new ApiError(500, 'INTERNAL_ERROR', fallbackMessage, {
+    details: error instanceof Error ? error.message : 'An unknown error occurred.',
+    cause: error,
+  });
+};
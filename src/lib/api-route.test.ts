@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { REQUEST_ID_HEADER, withStoreRoute } from '@/lib/api-route';
+import { StorageUnavailableError, ValidationError } from '@/lib/api-errors';
+import {
+  CollectionFullError,
+  ItemVersionConflictError,
+  getCollectionStore,
+  type CollectionStore,
+} from '@/lib/storage';
+import type { RateLimitResult } from '@/lib/rate-limit';
+
+vi.mock('@/lib/storage', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  getCollectionStore: vi.fn(),
+}));
+
+const hitRateLimit = vi.fn<(key: string) => Promise<RateLimitResult>>();
+const store = { hitRateLimit } as unknown as CollectionStore;
+
+const allowed: RateLimitResult = { allowed: true, limit: 60, remaining: 59, retryAfterSeconds: 0 };
+
+interface Params {
+  id: string;
+}
+
+const callRoute = (handler: () => Promise<Response>, init: RequestInit = {}) =>
+  withStoreRoute<Params>({ failureMessage: 'Failed to add item', rateLimit: 'add', collectionParam: 'id' }, handler)(
+    new Request('http://localhost/api/clip/abc/items', { method: 'POST', ...init }),
+    { params: Promise.resolve({ id: 'abc' }) }
+  );
+
+beforeEach(() => {
+  vi.mocked(getCollectionStore).mockResolvedValue(store);
+  hitRateLimit.mockResolvedValue(allowed);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  hitRateLimit.mockReset();
+});
+
+describe('withStoreRoute', () => {
+  it('passes successful responses through with a request ID', async () => {
+    const response = await callRoute(async () => Response.json({ ok: true }, { status: 201 }));
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ ok: true });
+    expect(response.headers.get(REQUEST_ID_HEADER)).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('reuses a well-formed incoming request ID', async () => {
+    const response = await callRoute(async () => Response.json({}), { headers: { [REQUEST_ID_HEADER]: 'req-123' } });
+    expect(response.headers.get(REQUEST_ID_HEADER)).toBe('req-123');
+  });
+
+  it('returns 503 when the store is unavailable', async () => {
+    vi.mocked(getCollectionStore).mockRejectedValue(new StorageUnavailableError('Redis is not reachable.'));
+    const handler = vi.fn();
+    const response = await callRoute(handler);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ code: 'STORAGE_UNAVAILABLE', details: 'Redis is not reachable.' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 SERVER_MISCONFIGURED when the store cannot be set up', async () => {
+    vi.mocked(getCollectionStore).mockRejectedValue(new Error('Invalid STORAGE_BACKEND "nope".'));
+    const response = await callRoute(vi.fn());
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'SERVER_MISCONFIGURED', details: 'Invalid STORAGE_BACKEND "nope".' });
+  });
+
+  it('returns 400 with details and issues for validation errors', async () => {
+    const parsed = z.object({ content: z.string() }).safeParse({ content: 42 });
+    const response = await callRoute(async () => {
+      if (!parsed.success) throw new ValidationError(parsed.error);
+      return Response.json({});
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body).toMatchObject({ code: 'VALIDATION_FAILED', error: 'Invalid item' });
+    expect(body.details).toContain('content:');
+    expect(body.issues).toEqual([expect.objectContaining({ path: 'content', code: 'invalid_type' })]);
+  });
+
+  it('returns 413 QUOTA_EXCEEDED when the collection is full', async () => {
+    const usage = { items: 500, maxItems: 500, bytes: 1024, maxBytes: 10 * 1024 * 1024 };
+    const response = await callRoute(async () => {
+      throw new CollectionFullError('abc', 'items', usage);
+    });
+
+    expect(response.status).toBe(413);
+    const body = await response.json();
+    expect(body).toMatchObject({ code: 'QUOTA_EXCEEDED', error: 'Collection full', usage });
+    expect(body.details).toContain('500 items');
+  });
+
+  it('returns 412 with the current item on version conflicts', async () => {
+    const current = { id: 'item-1', type: 'text' as const, content: 'newer', createdAt: '2026-01-01T00:00:00.000Z', version: 3 };
+    const response = await callRoute(async () => {
+      throw new ItemVersionConflictError('abc', current);
+    });
+
+    expect(response.status).toBe(412);
+    const body = await response.json();
+    expect(body).toMatchObject({ code: 'VERSION_CONFLICT', item: { id: 'item-1', content: 'newer' } });
+  });
+
+  it('returns 429 with Retry-After when rate limited', async () => {
+    hitRateLimit.mockResolvedValue({ allowed: false, limit: 60, remaining: 0, retryAfterSeconds: 17 });
+    const handler = vi.fn();
+    const response = await callRoute(handler);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('17');
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('60');
+    expect(await response.json()).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 17 });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 with the request ID for unknown errors', async () => {
+    const response = await callRoute(async () => {
+      throw new Error('boom');
+    }, { headers: { [REQUEST_ID_HEADER]: 'req-500' } });
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get(REQUEST_ID_HEADER)).toBe('req-500');
+    expect(await response.json()).toEqual({
+      error: 'Failed to add item',
+      details: 'boom',
+      code: 'INTERNAL_ERROR',
+      requestId: 'req-500',
+    });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('[req-500]'), expect.any(Error));
+  });
+
+  it('rejects empty route parameters with 400', async () => {
+    const response = await withStoreRoute<Params>({ failureMessage: 'Failed' }, vi.fn())(
+      new Request('http://localhost/api/clip/'),
+      { params: Promise.resolve({ id: '' }) }
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_REQUEST', error: 'Collection ID is required' });
+  });
+});
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getCollectionStore, type CollectionStore } from '@/lib/storage';
+import { enforceRateLimit, type RateLimitedRoute } from '@/lib/rate-limit';
+import { ApiError, BadRequestError, ServerConfigError, toApiError } from '@/lib/api-errors';
+
+/*
+ * Shared plumbing for API routes under /api/clip:
+ *
+ *   1. assigns a request ID (reusing a well-formed incoming X-Request-Id) and echoes it
+ *      in the X-Request-Id header of every response, successful or not
+ *   2. rejects empty route parameters
+ *   3. acquires the configured CollectionStore, failing fast when storage is misconfigured
+ *   4. applies the route's rate limits
+ *   5. converts anything the handler throws into the JSON error envelope (see api-errors.ts)
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+export interface RouteContext<P> {
+  request: Request;
+  params: P;
+  store: CollectionStore;
+  requestId: string;
+}
+
+export interface RouteOptions<P> {
+  failureMessage: string; // `error` of the 500 returned for unexpected failures, e.g. "Failed to add item"
+  rateLimit?: RateLimitedRoute;
+  collectionParam?: keyof P; // Route parameter holding the collection ID, for collection-scoped rate limits
+}
+
+// Labels used in "... is required" messages for missing route parameters
+const PARAM_LABELS: Record<string, string> = {
+  id: 'Collection ID',
+  collectionId: 'Collection ID',
+  itemId: 'Item ID',
+};
+
+const getRequestId = (request: Request): string => {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  return incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+};
+
+// Backends report their own connection problems; anything else (e.g. a bad STORAGE_BACKEND) is a setup problem
+const acquireStore = async (): Promise<CollectionStore> => {
+  try {
+    return await getCollectionStore();
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw new ServerConfigError(error instanceof Error ? error.message : 'Could not initialize storage.');
+  }
+};
+
+/**
+ * Wraps a route handler with the steps above. Handlers receive the resolved params and a
+ * ready store, and report failures by throwing (ApiError subclasses or storage errors).
+ */
+export const withStoreRoute = <P extends { [K in keyof P]: string } = Record<string, never>>(
+  { failureMessage, rateLimit, collectionParam }: RouteOptions<P>,
+  handler: (context: RouteContext<P>) => Promise<Response>
+) => async (request: Request, context?: { params?: P | Promise<P> }): Promise<Response> => {
+  const requestId = getRequestId(request);
+  let response: Response;
+
+  try {
+    // Next 15 passes params as a promise; awaiting also accepts a plain object
+    const params = ((await context?.params) ?? {}) as P;
+    const missing = Object.entries(params).find(([, value]) => !value);
+    if (missing) {
+      throw new BadRequestError(`${PARAM_LABELS[missing[0]] ?? missing[0]} is required`);
+    }
+
+    const store = await acquireStore();
+    if (rateLimit) {
+      await enforceRateLimit(store, request, rateLimit, collectionParam ? params[collectionParam] : undefined);
+    }
+
+    response = await handler({ request, params, store, requestId });
+  } catch (error) {
+    const apiError = toApiError(error, failureMessage);
+    if (apiError.status >= 500 || apiError.status === 409) {
+      console.error(`[${requestId}] ${request.method} ${new URL(request.url).pathname} failed with ${apiError.status} ${apiError.code}:`, apiError.cause ?? apiError);
+    }
+    response = NextResponse.json(apiError.toBody(requestId), { status: apiError.status, headers: apiError.headers });
+  }
+
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+};
@@ -0,0 +1,56 @@
+import { ENCRYPTED_BYTES_OVERHEAD } from '@/lib/e2e-crypto';
+import type { ClipboardAttachment, ClipboardItemData } from '@/lib/types';
+
+// Maximum size accepted for a single uploaded image or file (5 MB).
+// Blobs are kept in Redis, so this intentionally stays small.
+export const MAX_ATTACHMENT_SIZE_BYTES = 5 * 1024 * 1024;
+
+// The limit applies to the file as the user picked it; in encrypted collections the stored blob
+// also carries the IV and tag, so clients can check the plaintext size against the limit.
+export const getMaxAttachmentBlobBytes = (encrypted: boolean | undefined): number =>
+  MAX_ATTACHMENT_SIZE_BYTES + (encrypted ? ENCRYPTED_BYTES_OVERHEAD : 0);
+
+// Redis key holding the raw bytes for an attachment item.
+// Kept separate from the `clip:{id}` JSON so the collection payload stays small.
+export const getAttachmentBlobKey = (collectionId: string, itemId: string): string =>
+  `clip:${collectionId}:blob:${itemId}`;
+
+// Raster image types that may be rendered inline from our own origin. SVG is deliberately
+// missing: it can carry script, so it is stored and served like any other file.
+const INLINE_IMAGE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+const MIME_TYPE_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/;
+
+// Lower-cases a client-supplied MIME type and drops any parameters.
+// Anything that is not a plain `type/subtype` becomes application/octet-stream.
+export const normalizeAttachmentMimeType = (mimeType: string | undefined): string => {
+  const essence = (mimeType ?? '').split(';')[0].trim().toLowerCase();
+  return MIME_TYPE_PATTERN.test(essence) ? essence : 'application/octet-stream';
+};
+
+export const isImageMimeType = (mimeType: string): boolean => INLINE_IMAGE_MIME_TYPES.has(normalizeAttachmentMimeType(mimeType));
+
+// Picks the item type for an uploaded file based on its MIME type
+export const getAttachmentItemType = (mimeType: string): Extract<ClipboardItemData['type'], 'image' | 'file'> =>
+  isImageMimeType(mimeType) ? 'image' : 'file';
+
+export const isAttachmentItem = (item: ClipboardItemData): item is ClipboardItemData & { attachment: ClipboardAttachment } =>
+  (item.type === 'image' || item.type === 'file') && !!item.attachment;
+
+// URL used to preview or download an attachment from a shared collection
+export const getAttachmentDownloadPath = (collectionId: string, itemId: string, download = false): string =>
+  `/api/clip/download/${collectionId}/${itemId}${download ? '?download=1' : ''}`;
+
+// Human readable file size, e.g. "1.4 MB"
+export const formatFileSize = (bytes: number): string => {
+  if (!Number.isFinite(bytes) || bytes < 0) return 'Unknown size';
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+};
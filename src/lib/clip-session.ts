@@ -0,0 +1,58 @@
+// Browser-side storage of unlock session tokens for password-protected collections.
+// Tokens are kept in sessionStorage, so closing the tab forgets them.
+
+interface StoredSession {
+  token: string;
+  expiresAt: string; // ISO timestamp
+}
+
+const getStorageKey = (collectionId: string): string => `crossclip:session:${collectionId}`;
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.sessionStorage : null;
+  } catch {
+    return null; // Storage disabled by the browser
+  }
+};
+
+export const getSessionToken = (collectionId: string): string | null => {
+  const raw = getStorage()?.getItem(getStorageKey(collectionId));
+  if (!raw) return null;
+  try {
+    const session: StoredSession = JSON.parse(raw);
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      clearSessionToken(collectionId);
+      return null;
+    }
+    return session.token;
+  } catch {
+    clearSessionToken(collectionId);
+    return null;
+  }
+};
+
+export const saveSessionToken = (collectionId: string, token: string, expiresAt: string): void => {
+  const session: StoredSession = { token, expiresAt };
+  getStorage()?.setItem(getStorageKey(collectionId), JSON.stringify(session));
+};
+
+export const clearSessionToken = (collectionId: string): void => {
+  getStorage()?.removeItem(getStorageKey(collectionId));
+};
+
+// fetch() wrapper that sends the collection's session token, if any
+export const fetchWithSession = (collectionId: string, input: string, init: RequestInit = {}): Promise<Response> => {
+  const token = getSessionToken(collectionId);
+  if (!token) return fetch(input, init);
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+};
+
+// For requests that cannot carry headers (EventSource, <img src>, download links)
+export const withSessionToken = (collectionId: string, url: string): string => {
+  const token = getSessionToken(collectionId);
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+};
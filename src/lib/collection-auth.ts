@@ -0,0 +1,142 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { ForbiddenError, UnauthorizedError } from '@/lib/api-errors';
+import { CollectionNotFoundError, isReadOnlyToken, type CollectionMeta, type CollectionStore } from '@/lib/storage';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Passphrase rules shared by the create route and the unlock route
+export const MIN_PASSPHRASE_LENGTH = 4;
+export const MAX_PASSPHRASE_LENGTH = 256;
+
+// Unlocking exchanges the passphrase for a token valid this long
+export const SESSION_TTL_SECONDS = 60 * 60; // 1 hour
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+export const validatePassphrase = (passphrase: unknown): string | null => {
+  if (typeof passphrase !== 'string') return 'Passphrase must be a string.';
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  if (passphrase.length > MAX_PASSPHRASE_LENGTH) return `Passphrase must be at most ${MAX_PASSPHRASE_LENGTH} characters.`;
+  return null;
+};
+
+// Stored as "scrypt$<salt hex>$<hash hex>" so the parameters can change later
+export const hashPassphrase = async (passphrase: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const derived = await scryptAsync(passphrase, salt, KEY_BYTES);
+  return `scrypt$${salt.toString('hex')}$${derived.toString('hex')}`;
+};
+
+export const verifyPassphrase = async (passphrase: string, storedHash: string): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    console.error('Unsupported passphrase hash format.');
+    return false;
+  }
+  const expected = Buffer.from(hashHex, 'hex');
+  const derived = await scryptAsync(passphrase, Buffer.from(saltHex, 'hex'), expected.length);
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+};
+
+/**
+ * Issues a session token for an unlocked collection. The token is stored for
+ * SESSION_TTL_SECONDS, or less if the collection itself expires sooner.
+ */
+export const createSession = async (store: CollectionStore, collectionId: string): Promise<{ token: string; expiresAt: string }> => {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = await store.saveSession(collectionId, token, SESSION_TTL_SECONDS * 1000);
+  return { token, expiresAt };
+};
+
+// Reads the session token from `Authorization: Bearer`, `X-Clip-Session` or `?token=`.
+// The query parameter exists for EventSource and <img> requests, which cannot set headers.
+export const getRequestSessionToken = (request: Request): string | null => {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || null;
+  }
+  return request.headers.get('x-clip-session') || new URL(request.url).searchParams.get('token');
+};
+
+/**
+ * Resolves the ID used in a URL to the real collection ID. Editor links carry the
+ * collection ID itself; read-only links carry an opaque `ro_` token that maps to it.
+ * Throws CollectionNotFoundError for unknown read-only tokens.
+ */
+export const resolveCollectionRef = async (
+  store: CollectionStore,
+  collectionRef: string
+): Promise<{ collectionId: string; readOnly: boolean }> => {
+  if (!isReadOnlyToken(collectionRef)) {
+    return { collectionId: collectionRef, readOnly: false };
+  }
+  const collectionId = await store.resolveReadOnlyToken(collectionRef);
+  if (!collectionId) {
+    throw new CollectionNotFoundError(collectionRef);
+  }
+  return { collectionId, readOnly: true };
+};
+
+export type CollectionAccess =
+  | { authorized: true; meta: CollectionMeta; collectionId: string; readOnly: boolean }
+  | { authorized: false; reason: 'missing-token' | 'invalid-token' };
+
+/**
+ * Checks whether a request may access a collection, given the ID or read-only token
+ * from its URL. Collections without a passphrase are open to anyone holding the link.
+ * Callers must use the returned `collectionId` (never the raw URL segment) for storage
+ * access, and reject writes when `readOnly` is set. Throws CollectionNotFoundError for
+ * unknown IDs.
+ */
+export const checkCollectionAccess = async (
+  store: CollectionStore,
+  collectionRef: string,
+  request: Request
+): Promise<CollectionAccess> => {
+  const { collectionId, readOnly } = await resolveCollectionRef(store, collectionRef);
+  const meta = await store.getCollectionMeta(collectionId);
+  if (!meta.passwordHash) {
+    return { authorized: true, meta, collectionId, readOnly };
+  }
+
+  const token = getRequestSessionToken(request);
+  if (!token) {
+    return { authorized: false, reason: 'missing-token' };
+  }
+  const exists = await store.hasSession(collectionId, token);
+  return exists ? { authorized: true, meta, collectionId, readOnly } : { authorized: false, reason: 'invalid-token' };
+};
+
+export type AuthorizedCollectionAccess = Extract<CollectionAccess, { authorized: true }>;
+
+/**
+ * `checkCollectionAccess` for route handlers. Throws UnauthorizedError (401, with
+ * `passwordProtected` so clients know to show the unlock screen) and, for writes,
+ * ForbiddenError (403) when the request came through a read-only link.
+ */
+export const requireCollectionAccess = async (
+  store: CollectionStore,
+  collectionRef: string,
+  request: Request,
+  { write = false }: { write?: boolean } = {}
+): Promise<AuthorizedCollectionAccess> => {
+  const access = await checkCollectionAccess(store, collectionRef, request);
+  if (!access.authorized) {
+    throw new UnauthorizedError('Passphrase required', {
+      code: access.reason === 'missing-token' ? 'PASSPHRASE_REQUIRED' : 'SESSION_EXPIRED',
+      details: access.reason === 'missing-token'
+        ? 'This shared clipboard is protected. Unlock it with its passphrase first.'
+        : 'Your unlock session has expired. Enter the passphrase again.',
+      extra: { passwordProtected: true },
+    });
+  }
+  if (write && access.readOnly) {
+    throw new ForbiddenError('Read-only link', {
+      details: 'This link can view items but not add or delete them.',
+      extra: { readOnly: true },
+    });
+  }
+  return access;
+};
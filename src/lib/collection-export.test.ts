@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  InvalidImportError,
+  MAX_IMPORT_BYTES,
+  createCollectionExport,
+  createExportArchive,
+  createImportedItems,
+  readImportFile,
+} from '@/lib/collection-export';
+import { getItemPosition } from '@/lib/item-order';
+import { createMemoryCollectionStore } from '@/lib/memory-storage';
+import type { CollectionStore } from '@/lib/storage';
+import { createZip } from '@/lib/zip';
+import { collectionImportSchema, type ClipboardItemData } from '@/lib/types';
+
+let time: number;
+let store: CollectionStore;
+
+const textItem = (id: string, extra: Partial<ClipboardItemData> = {}): ClipboardItemData => {
+  const item: ClipboardItemData = { id, type: 'text', content: `content of ${id}`, createdAt: new Date(time).toISOString(), ...extra };
+  time += 1000;
+  return item;
+};
+
+// As GET /api/clip/[id]/export?format=zip builds the archive
+const exportArchive = async (collectionId: string): Promise<Buffer> => {
+  const collection = await store.getCollection(collectionId);
+  const blobs = new Map<string, Buffer>();
+  for (const item of collection.items) {
+    const blob = await store.getAttachmentBlob(collectionId, item.id);
+    if (blob) blobs.set(item.id, blob);
+  }
+  return createExportArchive(createCollectionExport(collection, new Date(time)), blobs);
+};
+
+// As POST /api/clip/[id]/import adds the archive
+const importArchive = async (collectionId: string, archive: Buffer) => {
+  const file = readImportFile(archive);
+  const { items } = await store.getCollection(collectionId);
+  const { entries, skipped } = createImportedItems(
+    collectionImportSchema.parse(file.document),
+    file.attachments,
+    Math.max(-Infinity, ...items.map(getItemPosition)),
+    time
+  );
+  await store.addItems(collectionId, entries);
+  return skipped;
+};
+
+const listed = async (collectionId: string) => (await store.getCollection(collectionId)).items;
+
+beforeEach(async () => {
+  time = Date.parse('2026-01-01T00:00:00.000Z');
+  store = createMemoryCollectionStore({ now: () => time, sweepIntervalMs: 0 });
+  await store.createCollection('source', { expiry: 'never' });
+  await store.createCollection('target', { expiry: 'never' });
+});
+
+describe('export and import', () => {
+  beforeEach(async () => {
+    await store.addItem('source', textItem('note', { tags: ['work'] }));
+    const pdf = Buffer.from('%PDF-1');
+    await store.addItem(
+      'source',
+      textItem('file', {
+        type: 'file',
+        content: 'report.pdf',
+        attachment: { filename: 'report.pdf', mimeType: 'application/pdf', size: pdf.length, checksum: createHash('sha256').update(pdf).digest('hex') },
+      }),
+      pdf
+    );
+    await store.addItem('source', textItem('flagged', { htmlContent: '<b>content of flagged</b>' }));
+    await store.updateItem('source', 'note', { type: 'text', content: 'edited note' }, 1);
+    await store.arrangeItems('source', { flags: [{ id: 'flagged', pinned: true, starred: true }], order: ['note', 'flagged', 'file'] });
+    time += 1000;
+  });
+
+  it('round-trips content, timestamps, flags, tags, attachments and order', async () => {
+    const original = await listed('source');
+    expect(await importArchive('target', await exportArchive('source'))).toBe(0);
+
+    const imported = await listed('target');
+    const fields = ({ id: _id, position: _position, version: _version, history: _history, ...rest }: ClipboardItemData) => rest;
+    expect(imported.map(fields)).toEqual(original.map(fields));
+    expect(imported[0]).toMatchObject({ content: 'edited note', updatedAt: original[0].updatedAt, tags: ['work'] });
+    expect(imported[1]).toMatchObject({ pinned: true, starred: true });
+    expect(await store.getAttachmentBlob('target', imported[2].id)).toEqual(Buffer.from('%PDF-1'));
+    expect(new Set(imported.map(({ id }) => id)).size).toBe(3);
+    expect(imported.some(({ id }) => original.some(item => item.id === id))).toBe(false); // IDs are reassigned
+  });
+
+  it('places imported items above the existing ones, without colliding positions', async () => {
+    const archive = await exportArchive('source');
+    await store.addItem('target', textItem('existing'));
+    await importArchive('target', archive);
+    await importArchive('target', archive);
+
+    const items = await listed('target');
+    expect(items.map(({ content }) => content)).toEqual([
+      'edited note', 'content of flagged', 'report.pdf',
+      'edited note', 'content of flagged', 'report.pdf',
+      'content of existing',
+    ]);
+    expect(new Set(items.map(getItemPosition)).size).toBe(items.length);
+
+    // Items added afterwards still land on top
+    time += 1000;
+    await store.addItem('target', textItem('later'));
+    expect((await listed('target'))[0].content).toBe('content of later');
+  });
+
+  it('skips attachments without bytes, as in a JSON export', async () => {
+    const exported = createCollectionExport(await store.getCollection('source'));
+    expect(await importArchive('target', Buffer.from(JSON.stringify(exported)))).toBe(1);
+    expect((await listed('target')).map(({ content }) => content)).toEqual(['edited note', 'content of flagged']);
+  });
+});
+
+describe('readImportFile', () => {
+  const manifest = Buffer.from(JSON.stringify({ version: 1, encrypted: false, items: [] }));
+  // The central directory follows the entries; its first record describes the first entry
+  const firstCentralHeader = (archive: Buffer) => archive.readUInt32LE(archive.length - 22 + 16);
+  const readError = (upload: Buffer) => {
+    try {
+      readImportFile(upload);
+    } catch (error) {
+      return error;
+    }
+    throw new Error('readImportFile accepted the upload');
+  };
+
+  it('rejects entries that fail their checksum', () => {
+    const archive = createZip([{ name: 'collection.json', data: manifest }]);
+    const offset = firstCentralHeader(archive) + 16;
+    archive.writeUInt32LE(archive.readUInt32LE(offset) ^ 1, offset);
+
+    const error = readError(archive);
+    expect(error).toBeInstanceOf(InvalidImportError);
+    expect(error).toHaveProperty('message', 'Invalid ZIP archive: collection.json failed its checksum');
+  });
+
+  it('rejects archives that unpack to more than the import limit', () => {
+    const archive = createZip([{ name: 'collection.json', data: manifest }, { name: 'attachments/a/big.bin', data: Buffer.alloc(16) }]);
+    // Claims more content than an import may hold, as a ZIP bomb would
+    const central = firstCentralHeader(archive);
+    const second = central + 46 + archive.readUInt16LE(central + 28);
+    archive.writeUInt32LE(MAX_IMPORT_BYTES, second + 24);
+
+    const error = readError(archive);
+    expect(error).toBeInstanceOf(InvalidImportError);
+    expect(error).toHaveProperty('message', 'Invalid ZIP archive: archive contents are too large');
+  });
+
+  it('rejects archives without collection.json', () => {
+    const error = readError(createZip([{ name: 'attachments/a/note.txt', data: Buffer.from('hello') }]));
+    expect(error).toBeInstanceOf(InvalidImportError);
+    expect(error).toHaveProperty('message', 'The archive has no collection.json.');
+  });
+
+  it('rejects truncated archives and uploads that are not an export', () => {
+    const archive = createZip([{ name: 'collection.json', data: manifest }]);
+    expect(readError(archive.subarray(0, archive.length - 10))).toBeInstanceOf(InvalidImportError);
+    expect(readError(Buffer.from('not json'))).toBeInstanceOf(InvalidImportError);
+  });
+});
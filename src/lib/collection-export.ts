@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { formatFileSize, getAttachmentItemType, getMaxAttachmentBlobBytes, isAttachmentItem, normalizeAttachmentMimeType } from '@/lib/attachments';
+import { getItemPosition } from '@/lib/item-order';
+import type { NewItemEntry } from '@/lib/storage';
+import { InvalidZipError, createZip, isZipArchive, readZip, type ZipEntry } from '@/lib/zip';
+import {
+  EXPORT_FORMAT_VERSION,
+  MAX_COLLECTION_BYTES,
+  type ClipboardItemData,
+  type CollectionExport,
+  type CollectionImport,
+  type ExportFormat,
+  type SharedClipCollection,
+} from '@/lib/types';
+
+/*
+ * Export and import of shared collections (GET /api/clip/[id]/export, POST /api/clip/[id]/import).
+ *
+ *   json   a CollectionExport document
+ *   md     readable Markdown, one section per item (attachments listed by name)
+ *   txt    the items' text separated by blank lines, like "Copy as text"
+ *   zip    collection.json plus attachments/{itemId}/{filename} for every image and file
+ *
+ * Only json and zip round-trip. View-limited items are never exported: their content is only
+ * released by consuming a view.
+ */
+export const EXPORT_MANIFEST_NAME = 'collection.json';
+const ATTACHMENT_PATH_PATTERN = /^attachments\/([^/]+)\/[^/]+$/;
+
+// Upper bound for import uploads: a full collection plus room for JSON escaping and archive overhead
+export const MAX_IMPORT_BYTES = MAX_COLLECTION_BYTES + 10 * 1024 * 1024;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  zip: 'application/zip',
+};
+
+// Thrown by readImportFile for uploads that are not an export at all
+export class InvalidImportError extends Error {
+  constructor(details: string) {
+    super(details);
+    this.name = 'InvalidImportError';
+  }
+}
+
+// Dated, and without the collection ID: exports are also available through read-only links
+export const getExportFilename = (format: ExportFormat, date: Date = new Date()): string =>
+  `clipboard-${date.toISOString().slice(0, 10)}.${format}`;
+
+const getCreatedAtIso = (item: ClipboardItemData): string =>
+  typeof item.createdAt === 'string' ? item.createdAt : item.createdAt.toISOString();
+
+// Keeps what an import can restore (plus the ID, which locates attachments in ZIP exports)
+const toExportedItem = (item: ClipboardItemData): ClipboardItemData => {
+  const exported: ClipboardItemData = { id: item.id, type: item.type, content: item.content, createdAt: getCreatedAtIso(item) };
+  if (item.htmlContent !== undefined) exported.htmlContent = item.htmlContent;
+  if (item.attachment) {
+    const { dataUrl: _dataUrl, ...attachment } = item.attachment;
+    exported.attachment = attachment;
+  }
+  if (item.updatedAt !== undefined) exported.updatedAt = item.updatedAt;
+  if (item.pinned) exported.pinned = true;
+  if (item.starred) exported.starred = true;
+  if (item.position !== undefined) exported.position = item.position;
+  if (item.tags?.length) exported.tags = item.tags;
+  return exported;
+};
+
+export const createCollectionExport = (collection: SharedClipCollection, exportedAt: Date = new Date()): CollectionExport => ({
+  version: EXPORT_FORMAT_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  createdAt: collection.createdAt,
+  encrypted: collection.encrypted === true,
+  items: collection.items.filter(item => item.viewsRemaining === undefined).map(toExportedItem),
+});
+
+// A code fence longer than any run of backticks in the text, so the content cannot close it early
+const fence = (text: string): string => {
+  const marker = '`'.repeat(Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length)) + 1);
+  return `${marker}\n${text}\n${marker}`;
+};
+
+export const formatExportAsMarkdown = (exported: CollectionExport): string => {
+  const sections = exported.items.map(item => {
+    const labels = [item.type, getCreatedAtIso(item), item.pinned && 'pinned', item.starred && 'starred'].filter(Boolean);
+    const lines = [`## ${labels.join(' · ')}`];
+    if (item.tags?.length) lines.push(`Tags: ${item.tags.map(tag => `#${tag}`).join(' ')}`);
+    if (isAttachmentItem(item)) {
+      lines.push(`Attachment: ${item.attachment.filename} (${item.attachment.mimeType}, ${formatFileSize(item.attachment.size)})`);
+    } else if (item.type === 'url') {
+      lines.push(`<${item.content}>`);
+    } else {
+      lines.push(fence(item.content));
+    }
+    return lines.join('\n\n');
+  });
+  const count = `${exported.items.length} ${exported.items.length === 1 ? 'item' : 'items'}`;
+  return [`# Shared Clipboard`, `Exported ${exported.exportedAt}, ${count}.`, ...sections].join('\n\n') + '\n';
+};
+
+export const formatExportAsText = (exported: CollectionExport): string =>
+  exported.items.map(item => (isAttachmentItem(item) ? item.attachment.filename : item.content)).join('\n\n') + '\n';
+
+// Path of an attachment inside a ZIP export; file names are reduced to characters every unzip tool accepts
+export const getAttachmentArchivePath = (item: ClipboardItemData & { attachment: { filename: string } }): string =>
+  `attachments/${item.id}/${item.attachment.filename.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').slice(0, 200) || 'attachment'}`;
+
+// `blobs` maps item IDs to attachment bytes; attachments without bytes are left out of the archive
+export const createExportArchive = (exported: CollectionExport, blobs: Map<string, Buffer>): Buffer => {
+  const modifiedAt = new Date(exported.exportedAt);
+  const entries: ZipEntry[] = [{ name: EXPORT_MANIFEST_NAME, data: Buffer.from(JSON.stringify(exported, null, 2)), modifiedAt }];
+  for (const item of exported.items) {
+    const blob = blobs.get(item.id);
+    if (isAttachmentItem(item) && blob) entries.push({ name: getAttachmentArchivePath(item), data: blob, modifiedAt });
+  }
+  return createZip(entries);
+};
+
+export interface ImportFile {
+  document: unknown; // Still to be validated with collectionImportSchema
+  attachments: Map<string, Buffer>; // Exported item ID -> bytes (ZIP uploads only)
+}
+
+const parseJsonDocument = (data: Buffer): unknown => {
+  try {
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new InvalidImportError('The file is neither a JSON nor a ZIP export.');
+  }
+};
+
+// Accepts the JSON export or a ZIP export; throws InvalidImportError for anything else
+export const readImportFile = (upload: Buffer): ImportFile => {
+  if (!isZipArchive(upload)) {
+    return { document: parseJsonDocument(upload), attachments: new Map() };
+  }
+  let entries: ZipEntry[];
+  try {
+    entries = readZip(upload, { maxTotalBytes: MAX_IMPORT_BYTES });
+  } catch (error) {
+    if (error instanceof InvalidZipError) throw new InvalidImportError(error.message);
+    throw error;
+  }
+  const manifest = entries.find(({ name }) => name === EXPORT_MANIFEST_NAME);
+  if (!manifest) {
+    throw new InvalidImportError(`The archive has no ${EXPORT_MANIFEST_NAME}.`);
+  }
+  const attachments = new Map<string, Buffer>();
+  for (const { name, data } of entries) {
+    const itemId = ATTACHMENT_PATH_PATTERN.exec(name)?.[1];
+    if (itemId) attachments.set(itemId, data);
+  }
+  return { document: parseJsonDocument(manifest.data), attachments };
+};
+
+/**
+ * Turns validated import items into new items with fresh IDs, keeping their type, timestamps,
+ * flags and tags. Attachment MIME types are normalized and decide image vs. file.
+ * Images and files without (acceptable) bytes are skipped and counted.
+ *
+ * Positions are handed out anew: the imported items keep their relative order and go above
+ * `highestPosition` (the top of the collection they are added to), but no later than `now`, so
+ * items added afterwards still land on top.
+ */
+export const createImportedItems = (
+  { items, encrypted }: CollectionImport,
+  attachments: Map<string, Buffer>,
+  highestPosition = -Infinity,
+  now = Date.now()
+): { entries: NewItemEntry[]; skipped: number } => {
+  const entries: NewItemEntry[] = [];
+  let skipped = 0;
+  for (const { id: exportedId, attachment, createdAt, updatedAt, tags, pinned, starred, ...fields } of items) {
+    const item: ClipboardItemData = { ...fields, id: crypto.randomUUID(), createdAt: new Date(createdAt).toISOString() };
+    if (updatedAt !== undefined) item.updatedAt = new Date(updatedAt).toISOString();
+    if (tags?.length) item.tags = tags;
+    if (pinned) item.pinned = true;
+    if (starred) item.starred = true;
+    if (!attachment) {
+      entries.push({ item });
+      continue;
+    }
+    const blob = exportedId === undefined ? undefined : attachments.get(exportedId);
+    if (!blob || blob.length === 0 || blob.length > getMaxAttachmentBlobBytes(encrypted)) {
+      skipped++;
+      continue;
+    }
+    // The export is untrusted input: its MIME type goes through the same checks as an upload
+    const mimeType = normalizeAttachmentMimeType(attachment.mimeType);
+    item.type = getAttachmentItemType(mimeType);
+    item.attachment = {
+      filename: attachment.filename,
+      mimeType,
+      size: blob.byteLength,
+      checksum: createHash('sha256').update(blob).digest('hex'),
+    };
+    entries.push({ item, blob });
+  }
+
+  // Stable sort: items on the same position stay in export order
+  const ordered = entries.map(({ item }) => item).sort((a, b) => getItemPosition(b) - getItemPosition(a));
+  const base = Math.max(highestPosition, now - ordered.length);
+  ordered.forEach((item, index) => {
+    item.position = base + ordered.length - index;
+  });
+  return { entries, skipped };
+};
@@ -0,0 +1,146 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RedisClientType } from 'redis';
+import { startFakeRedis, type FakeRedis } from '@/test/fake-redis';
+import { getAttachmentBlobKey } from '@/lib/attachments';
+import {
+  addItem,
+  consumeItem,
+  createCollection,
+  getCollection,
+  getCollectionItemKey,
+  getCollectionMetaKey,
+  migrateLegacyCollection,
+} from '@/lib/collection-store';
+import { getItemSizeBytes } from '@/lib/storage';
+import type { ClipboardItemData, SharedClipCollection } from '@/lib/types';
+
+let fake: FakeRedis;
+let redis: RedisClientType;
+
+beforeAll(async () => {
+  fake = await startFakeRedis();
+  redis = await fake.connect();
+});
+
+afterAll(async () => {
+  await fake.close();
+});
+
+afterEach(() => {
+  fake.flushAll();
+  vi.restoreAllMocks();
+});
+
+const textItem = (id: string, createdAt: string, extra: Partial<ClipboardItemData> = {}): ClipboardItemData =>
+  ({ id, type: 'text', content: `content of ${id}`, createdAt, ...extra });
+
+describe('migrateLegacyCollection', () => {
+  // Version 1 kept the whole collection as one JSON string, newest item first
+  const legacy: SharedClipCollection = {
+    id: 'legacy',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    items: [
+      textItem('newest', '2025-01-03T00:00:00.000Z'),
+      textItem('oldest', '2025-01-01T00:00:00.000Z', { htmlContent: '<b>oldest</b>' }),
+      textItem('middle', '2025-01-02T00:00:00.000Z'),
+    ],
+  };
+  const storeLegacy = (ttlMs?: number) =>
+    redis.set(getCollectionMetaKey('legacy'), JSON.stringify(legacy), ttlMs ? { PX: ttlMs } : {});
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('keeps the items in order and counts their bytes', async () => {
+    await storeLegacy();
+    expect(await migrateLegacyCollection(redis, 'legacy')).toBe(true);
+
+    const collection = await getCollection(redis, 'legacy');
+    expect(collection.items.map(({ id }) => id)).toEqual(['newest', 'middle', 'oldest']);
+    expect(collection.items[2]).toEqual(legacy.items[1]);
+    expect(collection.usage?.bytes).toBe(legacy.items.reduce((total, item) => total + getItemSizeBytes(item), 0));
+    expect(collection.usage?.items).toBe(3);
+  });
+
+  it('carries the TTL over to every key', async () => {
+    await storeLegacy(60_000);
+    await migrateLegacyCollection(redis, 'legacy');
+
+    const keys = [getCollectionMetaKey('legacy'), ...legacy.items.map(({ id }) => getCollectionItemKey('legacy', id))];
+    for (const key of keys) {
+      const ttl = await redis.pTTL(key);
+      expect(ttl).toBeGreaterThan(50_000);
+      expect(ttl).toBeLessThanOrEqual(60_000);
+    }
+  });
+
+  it('leaves keys without a TTL persistent', async () => {
+    await storeLegacy();
+    await migrateLegacyCollection(redis, 'legacy');
+    expect(await redis.pTTL(getCollectionMetaKey('legacy'))).toBe(-1);
+  });
+
+  it('returns false when a concurrent migration commits first', async () => {
+    await storeLegacy();
+    const first = await fake.connect();
+    const second = await fake.connect();
+    // The second migration runs while the first is between WATCH and EXEC
+    const pTTL = first.pTTL.bind(first);
+    vi.spyOn(first, 'pTTL').mockImplementationOnce((async (key: string) => {
+      expect(await migrateLegacyCollection(second, 'legacy')).toBe(true);
+      return pTTL(key);
+    }) as typeof first.pTTL);
+
+    expect(await migrateLegacyCollection(first, 'legacy')).toBe(false);
+    const collection = await getCollection(redis, 'legacy');
+    expect(collection.items).toHaveLength(3);
+    expect(collection.usage?.bytes).toBe(legacy.items.reduce((total, item) => total + getItemSizeBytes(item), 0));
+  });
+
+  it('returns false for migrated and missing collections', async () => {
+    await storeLegacy();
+    await migrateLegacyCollection(redis, 'legacy');
+    expect(await migrateLegacyCollection(redis, 'legacy')).toBe(false);
+    expect(await migrateLegacyCollection(redis, 'missing')).toBe(false);
+  });
+});
+
+describe('consumeItem', () => {
+  const secret: ClipboardItemData = {
+    id: 'secret',
+    type: 'file',
+    content: 'secret.txt',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    attachment: { filename: 'secret.txt', mimeType: 'text/plain', size: 6, checksum: 'e3b0c442' },
+    tags: ['private'],
+    viewLimit: 1,
+    viewsRemaining: 1,
+  };
+
+  it('releases a one-view item exactly once under concurrent consumes', async () => {
+    await createCollection(redis, 'burn');
+    await addItem(redis, 'burn', secret, Buffer.from('hidden'));
+
+    const results = await Promise.all([consumeItem(redis, 'burn', 'secret'), consumeItem(redis, 'burn', 'secret')]);
+    const released = results.filter(result => result !== null);
+    expect(released).toHaveLength(1);
+    expect(released[0]).toMatchObject({ deleted: true, item: { content: 'secret.txt', viewsRemaining: 0 } });
+
+    expect(await redis.exists([getCollectionItemKey('burn', 'secret'), getAttachmentBlobKey('burn', 'secret')])).toBe(0);
+    const collection = await getCollection(redis, 'burn');
+    expect(collection.items).toEqual([]);
+    expect(collection.usage?.bytes).toBe(0);
+    expect(collection.tagCounts).toEqual({});
+  });
+
+  it('counts views down and keeps the item until the last one', async () => {
+    await createCollection(redis, 'burn');
+    await addItem(redis, 'burn', { ...secret, viewLimit: 2, viewsRemaining: 2 }, Buffer.from('hidden'));
+
+    expect(await consumeItem(redis, 'burn', 'secret')).toMatchObject({ deleted: false, item: { viewsRemaining: 1 } });
+    expect((await getCollection(redis, 'burn')).items[0]).toMatchObject({ content: '', viewsRemaining: 1 });
+    expect(await consumeItem(redis, 'burn', 'secret')).toMatchObject({ deleted: true, item: { viewsRemaining: 0 } });
+    expect(await consumeItem(redis, 'burn', 'secret')).toBeNull();
+  });
+});
@@ -0,0 +1,880 @@
+import { WatchError, type RedisClientType } from 'redis';
+import { getAttachmentBlobKey } from '@/lib/attachments';
+import { getEventStreamKey } from '@/lib/events';
+import { COLLECTION_EXPIRY_SECONDS, DEFAULT_COLLECTION_EXPIRY, isCollectionExpiry } from '@/lib/expiry';
+import { applyItemEdit, getItemVersion, type ClipboardItemEdit } from '@/lib/item-history';
+import { arrangeItemList, getItemPosition } from '@/lib/item-order';
+import {
+  CollectionConflictError,
+  CollectionFullError,
+  CollectionNotFoundError,
+  CorruptCollectionError,
+  ItemVersionConflictError,
+  TRASH_RETENTION_MS,
+  getItemSizeBytes,
+  isTrashExpired,
+  redactLimitedItem,
+  type CollectionMeta,
+  type ConsumeResult,
+  type CreateCollectionOptions,
+  type NewItemEntry,
+} from '@/lib/storage';
+import {
+  MAX_COLLECTION_BYTES,
+  MAX_ITEMS_PER_COLLECTION,
+  type ClipboardItemData,
+  type CollectionExpiry,
+  type CollectionUsage,
+  type ItemArrangement,
+  type SharedClipCollection,
+} from '@/lib/types';
+
+/*
+ * Redis layout for shared collections (format version 2). These functions back the Redis
+ * CollectionStore (redis-storage.ts); routes never call them directly.
+ *
+ *   clip:{id}                 hash        collection metadata (id, createdAt, formatVersion, expiry, totalBytes, slidingExpiry?, passwordHash?, encrypted?, readOnlyToken?)
+ *   clip:{id}:items           sorted set  item IDs scored by position (creation time in ms unless reordered)
+ *   clip:{id}:item:{itemId}   hash        one clipboard item (with deletedAt while it is in the trash)
+ *   clip:{id}:trash           sorted set  IDs of deleted items scored by deletion time in ms; restorable for TRASH_RETENTION_MS
+ *   clip:{id}:tags            hash        tag index: tag -> number of items carrying it (zero counts are ignored)
+ *   clip:{id}:blob:{itemId}   string      raw bytes of an image/file attachment
+ *   clip:readonly:{token}     string      collection ID behind a read-only link (token also kept in the metadata)
+ *   clip:{id}:session:{token} string      unlock session of a password-protected collection (own, shorter TTL)
+ *
+ * Functions that WATCH must be given a connection of their own (withOptimisticRetry does
+ * that), since WATCH state is per connection. Reads may run on the shared client.
+ *
+ * Adding or deleting an item touches only that item's keys plus the index, instead of
+ * rewriting the whole collection. Every key carries the same TTL as the metadata hash
+ * (or none at all for pinned collections); `setCollectionExpiry` changes them together.
+ * Version 1 stored the entire collection as a JSON string under `clip:{id}`; those keys
+ * are migrated lazily on first access (see `migrateLegacyCollection`).
+ */
+export const COLLECTION_FORMAT_VERSION = '2';
+
+export const getCollectionMetaKey = (collectionId: string): string => `clip:${collectionId}`;
+export const getCollectionItemsKey = (collectionId: string): string => `clip:${collectionId}:items`;
+export const getCollectionItemKey = (collectionId: string, itemId: string): string => `clip:${collectionId}:item:${itemId}`;
+export const getCollectionTagsKey = (collectionId: string): string => `clip:${collectionId}:tags`;
+export const getCollectionTrashKey = (collectionId: string): string => `clip:${collectionId}:trash`;
+
+// Read-only links: token -> collection ID
+export const getReadOnlyTokenKey = (token: string): string => `clip:readonly:${token}`;
+export const getSessionKey = (collectionId: string, token: string): string => `clip:${collectionId}:session:${token}`;
+
+// Matches the metadata key only (not items, blobs or event streams)
+export const COLLECTION_META_KEY_PATTERN = /^clip:[^:]+$/;
+
+// --- Item (de)serialization: hashes hold strings only, nested values are JSON encoded ---
+const serializeItem = (item: ClipboardItemData): Record<string, string> => {
+  const fields: Record<string, string> = {
+    id: item.id,
+    type: item.type,
+    content: item.content,
+    createdAt: typeof item.createdAt === 'string' ? item.createdAt : item.createdAt.toISOString(),
+  };
+  if (item.htmlContent !== undefined) fields.htmlContent = item.htmlContent;
+  if (item.attachment) fields.attachment = JSON.stringify(item.attachment);
+  if (item.viewLimit !== undefined) fields.viewLimit = String(item.viewLimit);
+  if (item.viewsRemaining !== undefined) fields.viewsRemaining = String(item.viewsRemaining);
+  if (item.version !== undefined) fields.version = String(item.version);
+  if (item.updatedAt !== undefined) fields.updatedAt = typeof item.updatedAt === 'string' ? item.updatedAt : item.updatedAt.toISOString();
+  if (item.history) fields.history = JSON.stringify(item.history);
+  if (item.pinned) fields.pinned = '1';
+  if (item.starred) fields.starred = '1';
+  if (item.position !== undefined) fields.position = String(item.position);
+  if (item.tags?.length) fields.tags = JSON.stringify(item.tags);
+  if (item.deletedAt !== undefined) fields.deletedAt = typeof item.deletedAt === 'string' ? item.deletedAt : item.deletedAt.toISOString();
+  return fields;
+};
+
+const deserializeItem = (collectionId: string, fields: Record<string, string>): ClipboardItemData => {
+  if (!fields.id || !fields.type || fields.content === undefined || !fields.createdAt) {
+    throw new CorruptCollectionError(collectionId, `item ${fields.id ?? '(unknown)'} is missing required fields`);
+  }
+  const item: ClipboardItemData = {
+    id: fields.id,
+    type: fields.type as ClipboardItemData['type'],
+    content: fields.content,
+    createdAt: fields.createdAt,
+  };
+  if (fields.htmlContent !== undefined) item.htmlContent = fields.htmlContent;
+  if (fields.attachment) {
+    try {
+      item.attachment = JSON.parse(fields.attachment);
+    } catch {
+      throw new CorruptCollectionError(collectionId, `item ${fields.id} has unreadable attachment metadata`);
+    }
+  }
+  if (fields.viewLimit !== undefined) item.viewLimit = Number(fields.viewLimit);
+  if (fields.viewsRemaining !== undefined) item.viewsRemaining = Number(fields.viewsRemaining);
+  if (fields.version !== undefined) item.version = Number(fields.version);
+  if (fields.updatedAt !== undefined) item.updatedAt = fields.updatedAt;
+  if (fields.history) {
+    try {
+      item.history = JSON.parse(fields.history);
+    } catch {
+      throw new CorruptCollectionError(collectionId, `item ${fields.id} has an unreadable edit history`);
+    }
+  }
+  if (fields.pinned === '1') item.pinned = true;
+  if (fields.starred === '1') item.starred = true;
+  if (fields.position !== undefined) item.position = Number(fields.position);
+  if (fields.tags) {
+    try {
+      item.tags = JSON.parse(fields.tags);
+    } catch {
+      throw new CorruptCollectionError(collectionId, `item ${fields.id} has unreadable tags`);
+    }
+  }
+  if (fields.deletedAt !== undefined) item.deletedAt = fields.deletedAt;
+  return item;
+};
+
+// Queues tag index updates for tags gained (+1) or lost (-1) by one item; returns whether there were any
+const countTagChanges = (
+  multi: ReturnType<RedisClientType['multi']>,
+  collectionId: string,
+  before: ClipboardItemData | null,
+  after: ClipboardItemData | null
+): boolean => {
+  const tagsKey = getCollectionTagsKey(collectionId);
+  const beforeTags = before?.tags ?? [];
+  const afterTags = after?.tags ?? [];
+  const lost = beforeTags.filter(tag => !afterTags.includes(tag));
+  const gained = afterTags.filter(tag => !beforeTags.includes(tag));
+  lost.forEach(tag => multi.hIncrBy(tagsKey, tag, -1));
+  gained.forEach(tag => multi.hIncrBy(tagsKey, tag, 1));
+  return lost.length + gained.length > 0;
+};
+
+// Queues the final removal of trashed items: their hashes, attachments and trash entries
+const queueTrashPurge = (multi: ReturnType<RedisClientType['multi']>, collectionId: string, itemIds: string[]) => {
+  multi.zRem(getCollectionTrashKey(collectionId), itemIds);
+  multi.del(itemIds.map(itemId => getCollectionItemKey(collectionId, itemId)));
+  multi.del(itemIds.map(itemId => getAttachmentBlobKey(collectionId, itemId))); // Text items have none; DEL ignores them
+};
+
+// Runs a transaction started after WATCH. node-redis rejects with WatchError when a watched key changed; that is reported as null.
+const execWatched = async (multi: ReturnType<RedisClientType['multi']>) => {
+  try {
+    return await multi.exec();
+  } catch (error) {
+    if (error instanceof WatchError) return null;
+    throw error;
+  }
+};
+
+/**
+ * Converts a version 1 collection (one JSON string) into the per-item layout.
+ * Safe to call concurrently: the conversion runs in a WATCHed transaction and
+ * a conflict simply means another request already migrated the key. `redis`
+ * must not be shared with concurrent requests (see ensureCollection).
+ */
+export const migrateLegacyCollection = async (redis: RedisClientType, collectionId: string): Promise<boolean> => {
+  const metaKey = getCollectionMetaKey(collectionId);
+  await redis.watch(metaKey);
+  try {
+    if ((await redis.type(metaKey)) !== 'string') {
+      await redis.unwatch();
+      return false; // Missing or already migrated
+    }
+
+    const raw = await redis.get(metaKey);
+    let legacy: SharedClipCollection;
+    try {
+      legacy = JSON.parse(raw ?? '');
+    } catch {
+      await redis.unwatch();
+      throw new CorruptCollectionError(collectionId, 'legacy JSON could not be parsed');
+    }
+    const ttl = await redis.pTTL(metaKey);
+
+    const multi = redis.multi();
+    multi.del(metaKey);
+    multi.hSet(metaKey, {
+      id: legacy.id ?? collectionId,
+      createdAt: legacy.createdAt ?? new Date().toISOString(),
+      formatVersion: COLLECTION_FORMAT_VERSION,
+      totalBytes: String((legacy.items ?? []).reduce((total, item) => total + getItemSizeBytes(item), 0)),
+    });
+    const keys = [metaKey];
+    for (const item of legacy.items ?? []) {
+      const itemKey = getCollectionItemKey(collectionId, item.id);
+      multi.hSet(itemKey, serializeItem(item));
+      multi.zAdd(getCollectionItemsKey(collectionId), { score: getItemPosition(item), value: item.id });
+      keys.push(itemKey);
+    }
+    if ((legacy.items ?? []).length > 0) keys.push(getCollectionItemsKey(collectionId));
+    if (ttl > 0) {
+      keys.forEach(key => multi.pExpire(key, ttl));
+    }
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      return false; // Someone else changed (most likely migrated) the key first
+    }
+    console.log(`Migrated collection ${collectionId} to storage format ${COLLECTION_FORMAT_VERSION} (${legacy.items?.length ?? 0} items).`);
+    return true;
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+/**
+ * Makes sure the collection exists in the current format, migrating legacy keys on the fly.
+ * Callers may hold the shared client, or a pooled connection that a retry loop is about to
+ * WATCH on, so the migration gets a short-lived connection of its own. It runs once per
+ * legacy collection.
+ */
+const ensureCollection = async (redis: RedisClientType, collectionId: string): Promise<void> => {
+  const keyType = await redis.type(getCollectionMetaKey(collectionId));
+  if (keyType === 'hash') return;
+  if (keyType === 'string') {
+    const connection = redis.duplicate({ isolationPoolOptions: undefined });
+    connection.on('error', error => console.error('Redis migration connection error:', error));
+    await connection.connect();
+    try {
+      await migrateLegacyCollection(connection, collectionId);
+    } finally {
+      await connection.quit();
+    }
+    return;
+  }
+  throw new CollectionNotFoundError(collectionId);
+};
+
+const parseMeta = (meta: Record<string, string>): CollectionMeta => ({
+  id: meta.id,
+  createdAt: meta.createdAt,
+  passwordHash: meta.passwordHash || undefined,
+  encrypted: meta.encrypted === '1',
+  expiry: isCollectionExpiry(meta.expiry) ? meta.expiry : DEFAULT_COLLECTION_EXPIRY,
+  slidingExpiry: meta.slidingExpiry === '1',
+  readOnlyToken: meta.readOnlyToken || undefined,
+});
+
+// Converts a PTTL reply into the `expiresAt` exposed to clients (null when the key has no TTL)
+const getExpiresAt = (ttlMs: number): string | null => (ttlMs > 0 ? new Date(Date.now() + ttlMs).toISOString() : null);
+
+export const createCollection = async (
+  redis: RedisClientType,
+  collectionId: string,
+  { passwordHash, encrypted = false, expiry = DEFAULT_COLLECTION_EXPIRY, slidingExpiry = false, readOnlyToken }: CreateCollectionOptions = {}
+): Promise<SharedClipCollection> => {
+  const metaKey = getCollectionMetaKey(collectionId);
+  const expirationInSeconds = COLLECTION_EXPIRY_SECONDS[expiry];
+  const collection: SharedClipCollection = {
+    id: collectionId,
+    items: [],
+    createdAt: new Date().toISOString(),
+    passwordProtected: !!passwordHash,
+    encrypted,
+    expiry,
+    slidingExpiry,
+    expiresAt: expirationInSeconds === null ? null : new Date(Date.now() + expirationInSeconds * 1000).toISOString(),
+  };
+
+  const metaFields: Record<string, string> = {
+    id: collection.id,
+    createdAt: collection.createdAt,
+    formatVersion: COLLECTION_FORMAT_VERSION,
+    expiry,
+    totalBytes: '0',
+  };
+  if (slidingExpiry) metaFields.slidingExpiry = '1';
+  if (passwordHash) metaFields.passwordHash = passwordHash;
+  if (encrypted) metaFields.encrypted = '1';
+  if (readOnlyToken) metaFields.readOnlyToken = readOnlyToken;
+
+  const multi = redis.multi().hSet(metaKey, metaFields);
+  if (readOnlyToken) {
+    multi.set(getReadOnlyTokenKey(readOnlyToken), collectionId);
+  }
+  if (expirationInSeconds !== null) {
+    multi.expire(metaKey, expirationInSeconds);
+    if (readOnlyToken) multi.expire(getReadOnlyTokenKey(readOnlyToken), expirationInSeconds);
+  }
+  const execResult = await multi.exec();
+  if (!execResult) {
+    throw new Error('Failed to save new collection data to Redis.');
+  }
+  return collection;
+};
+
+/**
+ * Applies an expiry preset to every key of a collection, counted from now.
+ * 'never' removes the TTLs instead. Unlock sessions keep their own, shorter TTL.
+ * Returns the new expiry time (null for pinned collections).
+ */
+export const setCollectionExpiry = async (
+  redis: RedisClientType,
+  collectionId: string,
+  expiry: CollectionExpiry
+): Promise<string | null> => {
+  await ensureCollection(redis, collectionId);
+
+  const metaKey = getCollectionMetaKey(collectionId);
+  const itemsKey = getCollectionItemsKey(collectionId);
+  const trashKey = getCollectionTrashKey(collectionId);
+  await redis.watch([metaKey, itemsKey, trashKey]);
+  try {
+    const readOnlyToken = await redis.hGet(metaKey, 'readOnlyToken');
+    if (!(await redis.exists(metaKey))) {
+      await redis.unwatch();
+      throw new CollectionNotFoundError(collectionId);
+    }
+    const itemIds = [...(await redis.zRange(itemsKey, 0, -1)), ...(await redis.zRange(trashKey, 0, -1))];
+    const keys = [metaKey, itemsKey, trashKey, getCollectionTagsKey(collectionId), getEventStreamKey(collectionId)];
+    if (readOnlyToken) keys.push(getReadOnlyTokenKey(readOnlyToken));
+    itemIds.forEach(itemId => keys.push(getCollectionItemKey(collectionId, itemId), getAttachmentBlobKey(collectionId, itemId)));
+
+    const expirationInSeconds = COLLECTION_EXPIRY_SECONDS[expiry];
+    const multi = redis.multi();
+    multi.hSet(metaKey, 'expiry', expiry);
+    // Missing keys (e.g. blobs of text items) are ignored by EXPIRE/PERSIST
+    keys.forEach(key => (expirationInSeconds === null ? multi.persist(key) : multi.expire(key, expirationInSeconds)));
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return expirationInSeconds === null ? null : new Date(Date.now() + expirationInSeconds * 1000).toISOString();
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+export const getCollectionMeta = async (redis: RedisClientType, collectionId: string): Promise<CollectionMeta> => {
+  await ensureCollection(redis, collectionId);
+  const meta = await redis.hGetAll(getCollectionMetaKey(collectionId));
+  if (!meta.id) {
+    throw new CollectionNotFoundError(collectionId);
+  }
+  return parseMeta(meta);
+};
+
+export const getCollection = async (redis: RedisClientType, collectionId: string): Promise<SharedClipCollection> => {
+  await ensureCollection(redis, collectionId);
+
+  const [rawMeta, itemIds, ttl, rawTagCounts] = await Promise.all([
+    redis.hGetAll(getCollectionMetaKey(collectionId)),
+    redis.zRange(getCollectionItemsKey(collectionId), 0, -1, { REV: true }), // Newest first
+    redis.pTTL(getCollectionMetaKey(collectionId)),
+    redis.hGetAll(getCollectionTagsKey(collectionId)),
+  ]);
+  if (!rawMeta.id) {
+    throw new CollectionNotFoundError(collectionId); // Expired between the two reads
+  }
+
+  const itemHashes = await Promise.all(itemIds.map(itemId => redis.hGetAll(getCollectionItemKey(collectionId, itemId))));
+  const items = itemHashes
+    .filter(fields => Object.keys(fields).length > 0) // Skip index entries whose item hash is gone
+    .map(fields => redactLimitedItem(deserializeItem(collectionId, fields)));
+
+  const meta = parseMeta(rawMeta);
+  return {
+    id: meta.id,
+    createdAt: meta.createdAt,
+    passwordProtected: !!meta.passwordHash,
+    encrypted: meta.encrypted,
+    expiry: meta.expiry,
+    slidingExpiry: meta.slidingExpiry,
+    expiresAt: getExpiresAt(ttl),
+    usage: {
+      items: itemIds.length,
+      maxItems: MAX_ITEMS_PER_COLLECTION,
+      bytes: Number(rawMeta.totalBytes ?? 0),
+      maxBytes: MAX_COLLECTION_BYTES,
+    },
+    tagCounts: Object.fromEntries(
+      Object.entries(rawTagCounts).map(([tag, count]) => [tag, Number(count)]).filter(([, count]) => Number(count) > 0)
+    ),
+    items,
+  };
+};
+
+export const getItem = async (redis: RedisClientType, collectionId: string, itemId: string): Promise<ClipboardItemData | null> => {
+  await ensureCollection(redis, collectionId);
+  const fields = await redis.hGetAll(getCollectionItemKey(collectionId, itemId));
+  if (Object.keys(fields).length === 0 || fields.deletedAt !== undefined) return null; // Trashed items are only listed by getTrash
+  return deserializeItem(collectionId, fields);
+};
+
+/**
+ * Stores a new item (and optionally its attachment bytes) in O(1) Redis commands.
+ * Only the metadata key is WATCHed, so concurrent adds never conflict with each other;
+ * the watch guards against the collection expiring or being migrated mid-write.
+ */
+export const addItem = async (
+  redis: RedisClientType,
+  collectionId: string,
+  item: ClipboardItemData,
+  blob?: Buffer
+): Promise<ClipboardItemData> => {
+  await ensureCollection(redis, collectionId);
+
+  const metaKey = getCollectionMetaKey(collectionId);
+  const itemsKey = getCollectionItemsKey(collectionId);
+  const itemKey = getCollectionItemKey(collectionId, item.id);
+
+  await redis.watch(metaKey);
+  try {
+    const ttl = await redis.pTTL(metaKey);
+    if (ttl === -2) {
+      await redis.unwatch();
+      throw new CollectionNotFoundError(collectionId);
+    }
+    // Quotas are best effort: concurrent adds (which do not conflict) may overshoot slightly
+    const [itemCount, totalBytes] = await Promise.all([redis.zCard(itemsKey), redis.hGet(metaKey, 'totalBytes')]);
+    const usage: CollectionUsage = { items: itemCount, maxItems: MAX_ITEMS_PER_COLLECTION, bytes: Number(totalBytes ?? 0), maxBytes: MAX_COLLECTION_BYTES };
+    const itemBytes = getItemSizeBytes(item);
+    if (usage.items >= usage.maxItems || usage.bytes + itemBytes > usage.maxBytes) {
+      await redis.unwatch();
+      throw new CollectionFullError(collectionId, usage.items >= usage.maxItems ? 'items' : 'bytes', usage);
+    }
+
+    const multi = redis.multi();
+    multi.hSet(itemKey, serializeItem(item));
+    multi.hIncrBy(metaKey, 'totalBytes', itemBytes);
+    multi.zAdd(itemsKey, { score: getItemPosition(item), value: item.id });
+    countTagChanges(multi, collectionId, null, item);
+    const keys = [itemKey, itemsKey];
+    if (item.tags?.length) keys.push(getCollectionTagsKey(collectionId));
+    if (blob) {
+      const blobKey = getAttachmentBlobKey(collectionId, item.id);
+      multi.set(blobKey, blob);
+      keys.push(blobKey);
+    }
+    if (ttl > 0) {
+      keys.forEach(key => multi.pExpire(key, ttl));
+    }
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return item;
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+/**
+ * Stores a batch of items (imports) in one transaction. The quota check covers the whole
+ * batch, so either every item is added or none. As in addItem, only the metadata key is WATCHed.
+ */
+export const addItems = async (
+  redis: RedisClientType,
+  collectionId: string,
+  entries: NewItemEntry[]
+): Promise<ClipboardItemData[]> => {
+  await ensureCollection(redis, collectionId);
+
+  const metaKey = getCollectionMetaKey(collectionId);
+  const itemsKey = getCollectionItemsKey(collectionId);
+
+  await redis.watch(metaKey);
+  try {
+    const ttl = await redis.pTTL(metaKey);
+    if (ttl === -2) {
+      await redis.unwatch();
+      throw new CollectionNotFoundError(collectionId);
+    }
+    const [itemCount, totalBytes] = await Promise.all([redis.zCard(itemsKey), redis.hGet(metaKey, 'totalBytes')]);
+    const usage: CollectionUsage = { items: itemCount, maxItems: MAX_ITEMS_PER_COLLECTION, bytes: Number(totalBytes ?? 0), maxBytes: MAX_COLLECTION_BYTES };
+    const addedBytes = entries.reduce((total, { item }) => total + getItemSizeBytes(item), 0);
+    if (usage.items + entries.length > usage.maxItems || usage.bytes + addedBytes > usage.maxBytes) {
+      await redis.unwatch();
+      throw new CollectionFullError(collectionId, usage.items + entries.length > usage.maxItems ? 'items' : 'bytes', usage);
+    }
+    if (entries.length === 0) {
+      await redis.unwatch();
+      return [];
+    }
+
+    const multi = redis.multi();
+    const keys = [itemsKey];
+    let tagsChanged = false;
+    for (const { item, blob } of entries) {
+      const itemKey = getCollectionItemKey(collectionId, item.id);
+      multi.hSet(itemKey, serializeItem(item));
+      multi.zAdd(itemsKey, { score: getItemPosition(item), value: item.id });
+      tagsChanged = countTagChanges(multi, collectionId, null, item) || tagsChanged;
+      keys.push(itemKey);
+      if (blob) {
+        const blobKey = getAttachmentBlobKey(collectionId, item.id);
+        multi.set(blobKey, blob);
+        keys.push(blobKey);
+      }
+    }
+    multi.hIncrBy(metaKey, 'totalBytes', addedBytes);
+    if (tagsChanged) keys.push(getCollectionTagsKey(collectionId));
+    if (ttl > 0) {
+      keys.forEach(key => multi.pExpire(key, ttl));
+    }
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return entries.map(({ item }) => item);
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+/**
+ * Replaces an item's content with an edit made to `expectedVersion`, keeping its position
+ * and creation time. The item hash is WATCHed, so concurrent edits of the same item race
+ * here and the loser sees the new version. Returns null if the item does not exist.
+ */
+export const updateItem = async (
+  redis: RedisClientType,
+  collectionId: string,
+  itemId: string,
+  edit: ClipboardItemEdit,
+  expectedVersion: number
+): Promise<ClipboardItemData | null> => {
+  await ensureCollection(redis, collectionId);
+
+  const metaKey = getCollectionMetaKey(collectionId);
+  const itemKey = getCollectionItemKey(collectionId, itemId);
+  await redis.watch(itemKey);
+  try {
+    const fields = await redis.hGetAll(itemKey);
+    if (Object.keys(fields).length === 0 || fields.deletedAt !== undefined) {
+      await redis.unwatch();
+      return null;
+    }
+    const item = deserializeItem(collectionId, fields);
+    if (getItemVersion(item) !== expectedVersion) {
+      await redis.unwatch();
+      throw new ItemVersionConflictError(collectionId, item);
+    }
+
+    const updated = applyItemEdit(item, edit);
+    const byteDelta = getItemSizeBytes(updated) - getItemSizeBytes(item);
+    if (byteDelta > 0) {
+      const [itemCount, totalBytes] = await Promise.all([redis.zCard(getCollectionItemsKey(collectionId)), redis.hGet(metaKey, 'totalBytes')]);
+      const usage: CollectionUsage = { items: itemCount, maxItems: MAX_ITEMS_PER_COLLECTION, bytes: Number(totalBytes ?? 0), maxBytes: MAX_COLLECTION_BYTES };
+      if (usage.bytes + byteDelta > usage.maxBytes) {
+        await redis.unwatch();
+        throw new CollectionFullError(collectionId, 'bytes', usage);
+      }
+    }
+
+    // HSET and HDEL keep the key's TTL
+    const multi = redis.multi();
+    multi.hSet(itemKey, serializeItem(updated));
+    if (updated.htmlContent === undefined && item.htmlContent !== undefined) multi.hDel(itemKey, 'htmlContent');
+    multi.hIncrBy(metaKey, 'totalBytes', byteDelta);
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return updated;
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+/**
+ * Pins, stars and reorders items. Positions live in the item hashes and, as scores, in the
+ * index; both change in one transaction that WATCHes every affected item.
+ */
+export const arrangeItems = async (
+  redis: RedisClientType,
+  collectionId: string,
+  arrangement: ItemArrangement
+): Promise<ClipboardItemData[]> => {
+  await ensureCollection(redis, collectionId);
+
+  const itemIds = [...new Set([...(arrangement.flags ?? []).map(({ id }) => id), ...(arrangement.order ?? [])])];
+  const itemKeys = itemIds.map(itemId => getCollectionItemKey(collectionId, itemId));
+  await redis.watch(itemKeys);
+  try {
+    const itemHashes = await Promise.all(itemKeys.map(itemKey => redis.hGetAll(itemKey)));
+    const items = itemHashes
+      .filter(fields => Object.keys(fields).length > 0 && fields.deletedAt === undefined) // Deleted and trashed items are skipped
+      .map(fields => deserializeItem(collectionId, fields));
+    const changed = arrangeItemList(items, arrangement);
+    if (changed.length === 0) {
+      await redis.unwatch();
+      return [];
+    }
+
+    const multi = redis.multi();
+    let tagsChanged = false;
+    for (const item of changed) {
+      const itemKey = getCollectionItemKey(collectionId, item.id);
+      multi.hSet(itemKey, serializeItem(item));
+      if (!item.pinned) multi.hDel(itemKey, 'pinned');
+      if (!item.starred) multi.hDel(itemKey, 'starred');
+      if (!item.tags) multi.hDel(itemKey, 'tags');
+      multi.zAdd(getCollectionItemsKey(collectionId), { score: getItemPosition(item), value: item.id }, { XX: true });
+      tagsChanged = countTagChanges(multi, collectionId, items.find(({ id }) => id === item.id) ?? null, item) || tagsChanged;
+    }
+    // The tag index may be created here, so it needs the collection's TTL
+    const ttl = tagsChanged ? await redis.pTTL(getCollectionMetaKey(collectionId)) : 0;
+    if (ttl > 0) multi.pExpire(getCollectionTagsKey(collectionId), ttl);
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return changed;
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+// Moves an item to the trash. Returns the trashed item, or null if it did not exist.
+export const deleteItem = async (
+  redis: RedisClientType,
+  collectionId: string,
+  itemId: string
+): Promise<ClipboardItemData | null> => (await deleteItems(redis, collectionId, [itemId]))[0] ?? null;
+
+/**
+ * Moves many items to the trash in one transaction, or every item with 'all' (the index is then
+ * WATCHed as well, so an item added meanwhile causes a retry instead of surviving half-counted).
+ * Item hashes and attachments stay where they are, marked with `deletedAt`; only the index, the
+ * byte total and the tag counts change. Returns the items that existed.
+ */
+export const deleteItems = async (
+  redis: RedisClientType,
+  collectionId: string,
+  itemIds: string[] | 'all'
+): Promise<ClipboardItemData[]> => {
+  await ensureCollection(redis, collectionId);
+
+  const metaKey = getCollectionMetaKey(collectionId);
+  const itemsKey = getCollectionItemsKey(collectionId);
+  const trashKey = getCollectionTrashKey(collectionId);
+  try {
+    if (itemIds === 'all') await redis.watch(itemsKey);
+    const ids = itemIds === 'all' ? await redis.zRange(itemsKey, 0, -1) : [...new Set(itemIds)];
+    if (ids.length === 0) {
+      await redis.unwatch();
+      return [];
+    }
+    const itemKeys = ids.map(itemId => getCollectionItemKey(collectionId, itemId));
+    await redis.watch(itemKeys);
+    const itemHashes = await Promise.all(itemKeys.map(itemKey => redis.hGetAll(itemKey)));
+    const deletedAt = new Date();
+    const items = itemHashes
+      .filter(fields => Object.keys(fields).length > 0 && fields.deletedAt === undefined) // Already trashed items stay as they are
+      .map(fields => ({ ...deserializeItem(collectionId, fields), deletedAt: deletedAt.toISOString() }));
+    const ttl = await redis.pTTL(metaKey);
+
+    const multi = redis.multi();
+    multi.zRem(itemsKey, ids); // Also drops dangling index entries
+    for (const item of items) {
+      multi.hSet(getCollectionItemKey(collectionId, item.id), 'deletedAt', item.deletedAt);
+      multi.zAdd(trashKey, { score: deletedAt.getTime(), value: item.id });
+    }
+    if (items.length > 0 && ttl > 0) multi.pExpire(trashKey, ttl);
+    if (itemIds === 'all') {
+      // Start the counters over rather than subtract, which also clears any drift
+      multi.hSet(metaKey, 'totalBytes', '0');
+      multi.del(getCollectionTagsKey(collectionId));
+    } else {
+      multi.hIncrBy(metaKey, 'totalBytes', -items.reduce((total, item) => total + getItemSizeBytes(item), 0));
+      items.forEach(item => countTagChanges(multi, collectionId, item, null));
+    }
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return items;
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+// Items in the trash, most recently deleted first. Entries past their retention are left out (see purgeExpiredTrash).
+export const getTrash = async (redis: RedisClientType, collectionId: string): Promise<ClipboardItemData[]> => {
+  await ensureCollection(redis, collectionId);
+  const itemIds = await redis.zRange(getCollectionTrashKey(collectionId), 0, -1, { REV: true });
+  const itemHashes = await Promise.all(itemIds.map(itemId => redis.hGetAll(getCollectionItemKey(collectionId, itemId))));
+  return itemHashes
+    .filter(fields => fields.deletedAt !== undefined)
+    .map(fields => deserializeItem(collectionId, fields))
+    .filter(item => !isTrashExpired(item))
+    .map(redactLimitedItem);
+};
+
+/**
+ * Moves trashed items back into the list at their old position, counting them against the
+ * quotas again. The metadata and item hashes are WATCHed, so a concurrent add, delete or purge
+ * causes a retry. Unknown, live and expired items are ignored; returns the restored items.
+ */
+export const restoreItems = async (
+  redis: RedisClientType,
+  collectionId: string,
+  itemIds: string[]
+): Promise<ClipboardItemData[]> => {
+  await ensureCollection(redis, collectionId);
+
+  const metaKey = getCollectionMetaKey(collectionId);
+  const itemsKey = getCollectionItemsKey(collectionId);
+  const itemKeys = [...new Set(itemIds)].map(itemId => getCollectionItemKey(collectionId, itemId));
+  await redis.watch([metaKey, ...itemKeys]);
+  try {
+    const ttl = await redis.pTTL(metaKey);
+    if (ttl === -2) {
+      await redis.unwatch();
+      throw new CollectionNotFoundError(collectionId);
+    }
+    const itemHashes = await Promise.all(itemKeys.map(itemKey => redis.hGetAll(itemKey)));
+    const trashed = itemHashes
+      .filter(fields => fields.deletedAt !== undefined)
+      .map(fields => deserializeItem(collectionId, fields))
+      .filter(item => !isTrashExpired(item));
+    if (trashed.length === 0) {
+      await redis.unwatch();
+      return [];
+    }
+    const [itemCount, totalBytes] = await Promise.all([redis.zCard(itemsKey), redis.hGet(metaKey, 'totalBytes')]);
+    const usage: CollectionUsage = { items: itemCount, maxItems: MAX_ITEMS_PER_COLLECTION, bytes: Number(totalBytes ?? 0), maxBytes: MAX_COLLECTION_BYTES };
+    const restoredBytes = trashed.reduce((total, item) => total + getItemSizeBytes(item), 0);
+    if (usage.items + trashed.length > usage.maxItems || usage.bytes + restoredBytes > usage.maxBytes) {
+      await redis.unwatch();
+      throw new CollectionFullError(collectionId, usage.items + trashed.length > usage.maxItems ? 'items' : 'bytes', usage);
+    }
+
+    const restored = trashed.map(({ deletedAt, ...item }) => item);
+    const multi = redis.multi();
+    let tagsChanged = false;
+    for (const item of restored) {
+      multi.hDel(getCollectionItemKey(collectionId, item.id), 'deletedAt');
+      multi.zAdd(itemsKey, { score: getItemPosition(item), value: item.id });
+      tagsChanged = countTagChanges(multi, collectionId, null, item) || tagsChanged;
+    }
+    multi.zRem(getCollectionTrashKey(collectionId), restored.map(({ id }) => id));
+    multi.hIncrBy(metaKey, 'totalBytes', restoredBytes);
+    // The index and the tag index may be recreated here, so they need the collection's TTL
+    if (ttl > 0) {
+      multi.pExpire(itemsKey, ttl);
+      if (tagsChanged) multi.pExpire(getCollectionTagsKey(collectionId), ttl);
+    }
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return restored;
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+// Deletes the trash entries chosen by `select` for good. The trash index is WATCHed, so a concurrent restore causes a retry.
+const purgeTrashEntries = async (
+  redis: RedisClientType,
+  collectionId: string,
+  select: (entries: { value: string; score: number }[]) => string[]
+): Promise<string[]> => {
+  await ensureCollection(redis, collectionId);
+
+  const trashKey = getCollectionTrashKey(collectionId);
+  await redis.watch(trashKey);
+  try {
+    const itemIds = select(await redis.zRangeWithScores(trashKey, 0, -1));
+    if (itemIds.length === 0) {
+      await redis.unwatch();
+      return [];
+    }
+
+    const multi = redis.multi();
+    queueTrashPurge(multi, collectionId, itemIds);
+
+    const execResult = await execWatched(multi);
+    if (execResult === null || execResult === undefined) {
+      throw new CollectionConflictError(collectionId);
+    }
+    return itemIds;
+  } catch (error) {
+    try { await redis.unwatch(); } catch (unwatchError) { console.error('Error during unwatch cleanup:', unwatchError); }
+    throw error;
+  }
+};
+
+// Empties the trash, or deletes only the given items from it; returns the IDs that were in the trash
+export const purgeTrash = (redis: RedisClientType, collectionId: string, itemIds: string[] | 'all'): Promise<string[]> =>
+  purgeTrashEntries(redis, collectionId, entries =>
+    entries.map(({ value }) => value).filter(itemId => itemIds === 'all' || itemIds.includes(itemId))
+  );
+
+// Deletes the entries whose retention has run out. Nothing expires them on its own before the collection does.
+export const purgeExpiredTrash = (redis: RedisClientType, collectionId: string): Promise<string[]> =>
+  purgeTrashEntries(redis, collectionId, entries =>
+    entries.filter(({ score }) => score + TRASH_RETENTION_MS <= Date.now()).map(({ value }) => value)
+  );
+
+/*
+ * Claims one view of an item atomically. Replies nil when the item is missing, trashed or has
+ * no views left, otherwise [views remaining after this one (-1 for unlimited items), fields].
+ */
+const CLAIM_VIEW_SCRIPT = `
+local fields = redis.call('HGETALL', KEYS[1])
+if #fields == 0 or redis.call('HEXISTS', KEYS[1], 'deletedAt') == 1 then return nil end
+local views = redis.call('HGET', KEYS[1], 'viewsRemaining')
+if not views then return {-1, fields} end
+local remaining = tonumber(views) - 1
+if remaining < 0 then return nil end
+redis.call('HSET', KEYS[1], 'viewsRemaining', tostring(remaining))
+return {remaining, fields}
+`;
+
+/**
+ * Releases the content of a view-limited item and counts the view. The view is claimed by
+ * a Lua script, so concurrent consumes are serialized by Redis and a secret can never be
+ * revealed more often than allowed. Only the request that claims the last view deletes the
+ * item. Returns null if the item no longer exists or has no views left.
+ */
+export const consumeItem = async (
+  redis: RedisClientType,
+  collectionId: string,
+  itemId: string
+): Promise<ConsumeResult | null> => {
+  await ensureCollection(redis, collectionId);
+
+  const itemKey = getCollectionItemKey(collectionId, itemId);
+  const reply = (await redis.eval(CLAIM_VIEW_SCRIPT, { keys: [itemKey] })) as [number, string[]] | null;
+  if (!reply) return null;
+  const [viewsRemaining, flatFields] = reply;
+  const fields: Record<string, string> = {};
+  for (let i = 0; i < flatFields.length; i += 2) fields[flatFields[i]] = flatFields[i + 1];
+  const item = deserializeItem(collectionId, fields);
+  if (viewsRemaining === -1) {
+    return { item, deleted: false }; // Unlimited items are simply returned
+  }
+
+  if (viewsRemaining === 0) {
+    // Until this runs, the item is listed with no views left and further consumes get null
+    const multi = redis.multi();
+    multi.zRem(getCollectionItemsKey(collectionId), itemId);
+    multi.del(itemKey);
+    multi.del(getAttachmentBlobKey(collectionId, itemId));
+    multi.hIncrBy(getCollectionMetaKey(collectionId), 'totalBytes', -getItemSizeBytes(item));
+    countTagChanges(multi, collectionId, item, null);
+    const execResult = await multi.exec();
+    if (!execResult) {
+      throw new Error(`Failed to delete consumed item ${itemId} from Redis.`);
+    }
+  }
+  return { item: { ...item, viewsRemaining }, deleted: viewsRemaining === 0 };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ATTACHMENT_SIZE_BYTES, getMaxAttachmentBlobBytes } from '@/lib/attachments';
+import { ENCRYPTED_BYTES_OVERHEAD, decryptBytes, decryptText, encryptFile, encryptText, generateCollectionKey } from '@/lib/e2e-crypto';
+
+describe('e2e-crypto', () => {
+  it('round-trips text and file bytes', async () => {
+    const key = await generateCollectionKey();
+    expect(await decryptText(key, await encryptText(key, 'hello'))).toBe('hello');
+
+    const file = await encryptFile(key, new Blob([new Uint8Array([1, 2, 3])]), 'a.bin');
+    expect(new Uint8Array(await decryptBytes(key, await file.arrayBuffer()))).toEqual(new Uint8Array([1, 2, 3]));
+    expect(await decryptText(key, file.name)).toBe('a.bin');
+  });
+
+  it('lets a file at the attachment limit through once encrypted', async () => {
+    const key = await generateCollectionKey();
+    const file = await encryptFile(key, new Blob([new Uint8Array(MAX_ATTACHMENT_SIZE_BYTES)]), 'limit.bin');
+    expect(file.size).toBe(MAX_ATTACHMENT_SIZE_BYTES + ENCRYPTED_BYTES_OVERHEAD);
+    expect(file.size).toBeLessThanOrEqual(getMaxAttachmentBlobBytes(true));
+    expect(file.size).toBeGreaterThan(getMaxAttachmentBlobBytes(false));
+  });
+});
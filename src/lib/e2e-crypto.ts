@@ -0,0 +1,130 @@
+import type { ClipboardItemData } from '@/lib/types';
+
+/*
+ * End-to-end encryption for shared collections.
+ *
+ * The browser generates an AES-GCM key and keeps it in the URL fragment (`#key=...`),
+ * which browsers never send to the server. Item text, HTML, attachment names and
+ * attachment bytes are encrypted before upload; the server only stores ciphertext.
+ *
+ * Encrypted strings use the format `e2e:v1:<iv>:<ciphertext>` (both base64url).
+ */
+export const ENCRYPTED_PAYLOAD_PREFIX = 'e2e:v1:';
+const KEY_FRAGMENT_PARAM = 'key';
+const IV_BYTES = 12;
+const TAG_BYTES = 16; // AES-GCM's default tag length
+
+// What encryptBytes adds to the plaintext: the IV in front and the authentication tag at the end
+export const ENCRYPTED_BYTES_OVERHEAD = IV_BYTES + TAG_BYTES;
+
+// Base64url helpers (no padding), usable in URLs and file names
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Lets the server reject plaintext sent to an encrypted collection
+export const isEncryptedPayload = (value: string): boolean =>
+  value.startsWith(ENCRYPTED_PAYLOAD_PREFIX) && value.split(':').length === 4;
+
+export const generateCollectionKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+export const exportKeyToFragment = async (key: CryptoKey): Promise<string> => {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  return `${KEY_FRAGMENT_PARAM}=${toBase64Url(raw)}`;
+};
+
+// Reads the key from a location hash such as "#key=abc..."; returns null when absent or invalid
+export const importKeyFromFragment = async (hash: string): Promise<CryptoKey | null> => {
+  const encodedKey = new URLSearchParams(hash.replace(/^#/, '')).get(KEY_FRAGMENT_PARAM);
+  if (!encodedKey) return null;
+  try {
+    return await crypto.subtle.importKey('raw', fromBase64Url(encodedKey), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  } catch (error) {
+    console.error('Invalid encryption key in URL fragment:', error);
+    return null;
+  }
+};
+
+export const encryptBytes = async (key: CryptoKey, data: ArrayBuffer): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+  // IV is prepended so the blob is self-contained
+  const output = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  output.set(iv);
+  output.set(ciphertext, IV_BYTES);
+  return output;
+};
+
+export const decryptBytes = async (key: CryptoKey, data: ArrayBuffer): Promise<ArrayBuffer> => {
+  const bytes = new Uint8Array(data);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) }, key, bytes.slice(IV_BYTES));
+};
+
+export const encryptText = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${ENCRYPTED_PAYLOAD_PREFIX}${toBase64Url(iv)}:${toBase64Url(new Uint8Array(ciphertext))}`;
+};
+
+export const decryptText = async (key: CryptoKey, payload: string): Promise<string> => {
+  if (!isEncryptedPayload(payload)) {
+    throw new Error('Value is not an encrypted payload.');
+  }
+  const [, , ivPart, dataPart] = payload.split(':');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(ivPart) }, key, fromBase64Url(dataPart));
+  return new TextDecoder().decode(plaintext);
+};
+
+// Encrypts the user-provided fields of a new item before it is sent to the server
+export const encryptItemFields = async <T extends Pick<ClipboardItemData, 'content' | 'htmlContent'>>(key: CryptoKey, fields: T): Promise<T> => ({
+  ...fields,
+  content: await encryptText(key, fields.content),
+  htmlContent: fields.htmlContent !== undefined ? await encryptText(key, fields.htmlContent) : undefined,
+});
+
+export const UNDECRYPTABLE_PLACEHOLDER = '[Unable to decrypt this item with the key in the link]';
+
+// Decrypts an item received from the server. Items that fail to decrypt are returned with a placeholder.
+export const decryptItem = async (key: CryptoKey, item: ClipboardItemData): Promise<ClipboardItemData> => {
+  try {
+    const decrypted: ClipboardItemData = {
+      ...item,
+      // View-limited items arrive with empty content until they are consumed
+      content: item.content ? await decryptText(key, item.content) : item.content,
+      htmlContent: item.htmlContent !== undefined ? await decryptText(key, item.htmlContent) : undefined,
+    };
+    if (item.attachment) {
+      decrypted.attachment = { ...item.attachment, filename: await decryptText(key, item.attachment.filename) };
+    }
+    if (item.history) {
+      decrypted.history = await Promise.all(item.history.map(async revision => ({
+        ...revision,
+        content: await decryptText(key, revision.content),
+        htmlContent: revision.htmlContent !== undefined ? await decryptText(key, revision.htmlContent) : undefined,
+      })));
+    }
+    return decrypted;
+  } catch (error) {
+    console.warn(`Failed to decrypt item ${item.id}:`, error);
+    return { ...item, type: 'text', content: UNDECRYPTABLE_PLACEHOLDER, htmlContent: undefined, attachment: undefined, history: undefined };
+  }
+};
+
+export const decryptItems = (key: CryptoKey, items: ClipboardItemData[]): Promise<ClipboardItemData[]> =>
+  Promise.all(items.map(item => decryptItem(key, item)));
+
+// Encrypts a file's bytes and name for upload. The MIME type stays readable so the
+// server can still tell images from other files.
+export const encryptFile = async (key: CryptoKey, file: Blob, filename: string): Promise<File> => {
+  const encryptedBytes = await encryptBytes(key, await file.arrayBuffer());
+  return new File([encryptedBytes], await encryptText(key, filename), { type: file.type || 'application/octet-stream' });
+};
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RedisClientType } from 'redis';
+import type { CollectionEvent } from '@/lib/types';
+
+type Events = typeof import('@/lib/events');
+
+// Just enough of a node-redis client for pub/sub: callbacks are kept per channel like the real one
+const createFakeRedis = () => {
+  const channels = new Map<string, Set<(message: string) => void>>();
+  const subscriber = {
+    isOpen: false,
+    on: vi.fn(),
+    connect: vi.fn(async () => { subscriber.isOpen = true; }),
+    disconnect: vi.fn(async () => { subscriber.isOpen = false; }),
+    subscribe: vi.fn(async (channel: string, callback: (message: string) => void) => {
+      if (!channels.has(channel)) channels.set(channel, new Set());
+      channels.get(channel)!.add(callback);
+    }),
+    unsubscribe: vi.fn(async (channel: string, callback: (message: string) => void) => {
+      channels.get(channel)?.delete(callback);
+      if (channels.get(channel)?.size === 0) channels.delete(channel);
+    }),
+  };
+  const redis = { duplicate: vi.fn(() => subscriber) } as unknown as RedisClientType;
+  const publish = (channel: string, message: string) => channels.get(channel)?.forEach(callback => callback(message));
+  return { redis, subscriber, channels, publish };
+};
+
+const event: CollectionEvent = { type: 'item-deleted', itemId: 'item-1' };
+
+describe('subscribeToCollectionEvents', () => {
+  let events: Events;
+
+  beforeEach(async () => {
+    vi.resetModules(); // The shared subscriber lives in module state
+    events = await import('@/lib/events');
+  });
+
+  it('shares one subscriber connection and one SUBSCRIBE per channel', async () => {
+    const { redis, subscriber, publish } = createFakeRedis();
+    const first = vi.fn();
+    const second = vi.fn();
+    const other = vi.fn();
+
+    await events.subscribeToCollectionEvents(redis, 'abc', first);
+    await events.subscribeToCollectionEvents(redis, 'abc', second);
+    await events.subscribeToCollectionEvents(redis, 'xyz', other);
+
+    expect(redis.duplicate).toHaveBeenCalledTimes(1);
+    expect(subscriber.connect).toHaveBeenCalledTimes(1);
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+
+    publish(events.getEventChannel('abc'), JSON.stringify({ id: '1-0', event }));
+    expect(first).toHaveBeenCalledWith({ id: '1-0', event });
+    expect(second).toHaveBeenCalledWith({ id: '1-0', event });
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('unsubscribes a channel only when its last listener leaves', async () => {
+    const { redis, subscriber, channels, publish } = createFakeRedis();
+    const first = vi.fn();
+    const second = vi.fn();
+    const closeFirst = await events.subscribeToCollectionEvents(redis, 'abc', first);
+    const closeSecond = await events.subscribeToCollectionEvents(redis, 'abc', second);
+
+    await closeFirst();
+    await closeFirst(); // Closing twice is harmless
+    expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+    publish(events.getEventChannel('abc'), JSON.stringify({ id: '2-0', event }));
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    await closeSecond();
+    expect(subscriber.unsubscribe).toHaveBeenCalledTimes(1);
+    expect(channels.size).toBe(0);
+    expect(subscriber.disconnect).not.toHaveBeenCalled(); // The connection stays for later subscribers
+  });
+
+  it('keeps delivering to other listeners when one throws or a message is malformed', async () => {
+    const { redis, publish } = createFakeRedis();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing = vi.fn(() => { throw new Error('closed stream'); });
+    const healthy = vi.fn();
+    await events.subscribeToCollectionEvents(redis, 'abc', failing);
+    await events.subscribeToCollectionEvents(redis, 'abc', healthy);
+
+    publish(events.getEventChannel('abc'), 'not json');
+    publish(events.getEventChannel('abc'), JSON.stringify({ id: '3-0', event }));
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(healthy).toHaveBeenCalledWith({ id: '3-0', event });
+  });
+
+  it('reconnects on the next subscription after a failed connect', async () => {
+    const { redis, subscriber } = createFakeRedis();
+    subscriber.connect.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+    await expect(events.subscribeToCollectionEvents(redis, 'abc', vi.fn())).rejects.toThrow('ECONNREFUSED');
+    await events.subscribeToCollectionEvents(redis, 'abc', vi.fn());
+    expect(subscriber.connect).toHaveBeenCalledTimes(2);
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+  });
+});
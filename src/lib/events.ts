@@ -0,0 +1,166 @@
+import type { RedisClientType } from 'redis';
+import type { CollectionEvent } from '@/lib/types';
+
+// Each collection keeps a short Redis Stream of recent events so that clients
+// reconnecting with a Last-Event-ID can catch up, and a pub/sub channel that
+// pushes new events to every open SSE connection.
+const MAX_STORED_EVENTS = 200;
+
+export const getEventStreamKey = (collectionId: string): string => `clip:${collectionId}:events`;
+export const getEventChannel = (collectionId: string): string => `clip:${collectionId}:channel`;
+
+// An event as delivered to subscribers, tagged with its stream ID
+export interface StoredCollectionEvent {
+    id: string;
+    event: CollectionEvent;
+}
+
+// Stream IDs look like "<ms>-<seq>"; returns a negative, zero or positive number
+export const compareEventIds = (a: string, b: string): number => {
+    const [aMs, aSeq = '0'] = a.split('-');
+    const [bMs, bSeq = '0'] = b.split('-');
+    return Number(aMs) - Number(bMs) || Number(aSeq) - Number(bSeq);
+};
+
+export const isValidEventId = (id: string): boolean => /^\d+(-\d+)?$/.test(id);
+
+/**
+ * Records an event for a collection and notifies live subscribers.
+ * Failures are logged but never thrown: the mutation that triggered the event
+ * has already been committed, and clients can always fall back to a refresh.
+ */
+export const publishCollectionEvent = async (
+    redis: RedisClientType,
+    collectionId: string,
+    event: CollectionEvent
+): Promise<string | null> => {
+    try {
+        const streamKey = getEventStreamKey(collectionId);
+        const eventId = await redis.xAdd(
+            streamKey,
+            '*',
+            { data: JSON.stringify(event) },
+            { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: MAX_STORED_EVENTS } }
+        );
+
+        // Keep the event log on the same expiry as the collection itself
+        const collectionTTL = await redis.pTTL(`clip:${collectionId}`);
+        if (collectionTTL > 0) {
+            await redis.pExpire(streamKey, collectionTTL);
+        }
+
+        const stored: StoredCollectionEvent = { id: eventId, event };
+        await redis.publish(getEventChannel(collectionId), JSON.stringify(stored));
+        return eventId;
+    } catch (error) {
+        console.warn(`Failed to publish ${event.type} event for collection ${collectionId}:`, error);
+        return null;
+    }
+};
+
+// Returns the events recorded strictly after `lastEventId`, oldest first
+export const getEventsSince = async (
+    redis: RedisClientType,
+    collectionId: string,
+    lastEventId: string
+): Promise<StoredCollectionEvent[]> => {
+    const entries = await redis.xRange(getEventStreamKey(collectionId), `(${lastEventId}`, '+');
+    const events: StoredCollectionEvent[] = [];
+    for (const entry of entries) {
+        try {
+            events.push({ id: entry.id, event: JSON.parse(entry.message.data) });
+        } catch (parseError) {
+            console.warn(`Skipping unreadable event ${entry.id} for collection ${collectionId}:`, parseError);
+        }
+    }
+    return events;
+};
+
+// Pub/sub puts a connection into subscriber mode, so all SSE streams of this process share
+// one duplicate of the client. Each channel is subscribed once, while it has listeners,
+// and its messages are fanned out to them in memory.
+type EventListener = (stored: StoredCollectionEvent) => void;
+
+interface ChannelSubscription {
+    listeners: Set<EventListener>;
+    ready: Promise<void>; // Settles once Redis confirmed the SUBSCRIBE
+    dispatch: (message: string) => void;
+}
+
+let sharedSubscriber: Promise<RedisClientType> | null = null;
+const channelSubscriptions = new Map<string, ChannelSubscription>();
+
+const getSharedSubscriber = (redis: RedisClientType): Promise<RedisClientType> => {
+    if (!sharedSubscriber) {
+        const subscriber = redis.duplicate();
+        subscriber.on('error', (err) => console.error('Redis event subscriber error:', err));
+        sharedSubscriber = subscriber.connect().then(() => subscriber, async (error) => {
+            sharedSubscriber = null; // The next subscription tries again
+            if (subscriber.isOpen) await subscriber.disconnect().catch(() => undefined);
+            throw error;
+        });
+    }
+    return sharedSubscriber;
+};
+
+/**
+ * Delivers events published for a collection from now on, over the process-wide subscriber
+ * connection. Resolves to a function that removes the listener; the channel is unsubscribed
+ * when its last listener goes away.
+ */
+export const subscribeToCollectionEvents = async (
+    redis: RedisClientType,
+    collectionId: string,
+    listener: EventListener
+): Promise<() => Promise<void>> => {
+    const channel = getEventChannel(collectionId);
+    let subscription = channelSubscriptions.get(channel);
+    if (!subscription) {
+        const listeners = new Set<EventListener>();
+        const dispatch = (message: string) => {
+            let stored: StoredCollectionEvent;
+            try {
+                stored = JSON.parse(message);
+            } catch (parseError) {
+                console.warn(`Ignoring malformed event message on ${channel}:`, parseError);
+                return;
+            }
+            for (const channelListener of listeners) {
+                try {
+                    channelListener(stored);
+                } catch (listenerError) {
+                    console.warn(`Event listener for ${channel} failed:`, listenerError);
+                }
+            }
+        };
+        const ready = getSharedSubscriber(redis).then(subscriber => subscriber.subscribe(channel, dispatch));
+        subscription = { listeners, ready, dispatch };
+        channelSubscriptions.set(channel, subscription);
+    }
+
+    const current = subscription;
+    current.listeners.add(listener);
+    try {
+        await current.ready;
+    } catch (error) {
+        current.listeners.delete(listener);
+        if (channelSubscriptions.get(channel) === current) channelSubscriptions.delete(channel);
+        throw error;
+    }
+
+    let closed = false;
+    return async () => {
+        if (closed) return;
+        closed = true;
+        current.listeners.delete(listener);
+        if (current.listeners.size > 0 || channelSubscriptions.get(channel) !== current) return;
+        channelSubscriptions.delete(channel);
+        try {
+            const subscriber = await getSharedSubscriber(redis);
+            // Only this subscription's callback: a newer one for the same channel may already be queued
+            await subscriber.unsubscribe(channel, current.dispatch);
+        } catch (cleanupError) {
+            console.warn(`Error unsubscribing from events of collection ${collectionId}:`, cleanupError);
+        }
+    };
+};
@@ -0,0 +1,38 @@
+import type { CollectionExpiry } from '@/lib/types';
+
+// Lifetime of each expiry preset in seconds; null means the collection never expires
+export const COLLECTION_EXPIRY_SECONDS: Record<CollectionExpiry, number | null> = {
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+  never: null,
+};
+
+export const COLLECTION_EXPIRY_LABELS: Record<CollectionExpiry, string> = {
+  '1h': '1 hour',
+  '1d': '1 day',
+  '7d': '7 days',
+  '30d': '30 days',
+  never: 'Never expire',
+};
+
+// Collections created before expiry was configurable always lived for 7 days
+export const DEFAULT_COLLECTION_EXPIRY: CollectionExpiry = '7d';
+
+export const isCollectionExpiry = (value: unknown): value is CollectionExpiry =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(COLLECTION_EXPIRY_SECONDS, value);
+
+// Countdown text such as "2d 4h", "3h 12m" or "45s"
+export const formatTimeRemaining = (milliseconds: number): string => {
+  if (milliseconds <= 0) return 'expired';
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
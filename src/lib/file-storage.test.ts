@@ -0,0 +1,43 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { describeStoreContract } from '@/test/store-contract';
+import { createFileCollectionStore } from '@/lib/file-storage';
+
+let directory: string;
+
+const createStore = async (now: () => number = Date.now) => {
+  directory = await mkdtemp(path.join(tmpdir(), 'crossclip-file-store-'));
+  return createFileCollectionStore({ directory, now, sweepIntervalMs: 0 });
+};
+const removeDirectory = () => rm(directory, { recursive: true, force: true });
+
+describeStoreContract('file', { createStore, cleanup: removeDirectory });
+
+describe('file collection store', () => {
+  beforeEach(async () => {
+    const store = await createStore();
+    await store.createCollection('c1');
+  });
+
+  afterEach(removeDirectory);
+
+  it('keeps collections across store instances', async () => {
+    const item = { id: 'a', type: 'text' as const, content: 'hello', createdAt: new Date().toISOString() };
+    await createFileCollectionStore({ directory, sweepIntervalMs: 0 }).addItem('c1', item);
+
+    const reopened = createFileCollectionStore({ directory, sweepIntervalMs: 0 });
+    expect((await reopened.getCollection('c1')).items).toEqual([item]);
+  });
+
+  it('publishes events without rewriting the collection file', async () => {
+    const store = createFileCollectionStore({ directory, sweepIntervalMs: 0 });
+    const recordPath = path.join(directory, 'collections', 'c1.json');
+    const before = await readFile(recordPath, 'utf8');
+
+    const id = await store.publishEvent('c1', { type: 'item-deleted', itemId: 'a' });
+    expect(await store.getEventsSince('c1', '0-0')).toEqual([{ id, event: { type: 'item-deleted', itemId: 'a' } }]);
+    expect(await readFile(recordPath, 'utf8')).toBe(before);
+  });
+});
@@ -0,0 +1,518 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { COLLECTION_EXPIRY_SECONDS, DEFAULT_COLLECTION_EXPIRY } from '@/lib/expiry';
+import { compareEventIds, type StoredCollectionEvent } from '@/lib/events';
+import { createEventIdGenerator, createMemoryRateLimiter } from '@/lib/memory-storage';
+import { applyItemEdit, getItemVersion } from '@/lib/item-history';
+import { arrangeItemList, sortItems } from '@/lib/item-order';
+import { countItemTags } from '@/lib/item-tags';
+import {
+  CollectionFullError,
+  CollectionNotFoundError,
+  CorruptCollectionError,
+  ItemVersionConflictError,
+  getItemSizeBytes,
+  isTrashExpired,
+  redactLimitedItem,
+  type CollectionMeta,
+  type CollectionStore,
+} from '@/lib/storage';
+import {
+  MAX_COLLECTION_BYTES,
+  MAX_ITEMS_PER_COLLECTION,
+  type ClipboardItemData,
+  type CollectionExpiry,
+  type CollectionUsage,
+  type SharedClipCollection,
+} from '@/lib/types';
+
+/*
+ * CollectionStore persisted as JSON files in a single directory, for deployments without
+ * Redis whose collections must survive restarts:
+ *
+ *   {dir}/collections/{id}.json     metadata, items (oldest first), trash, unlock sessions
+ *   {dir}/blobs/{id}/{itemId}       raw attachment bytes (kept while the item is in the trash)
+ *   {dir}/read-only/{token}         collection ID behind a read-only link
+ *
+ * Every change rewrites the collection file through a temporary file and a rename, so a
+ * crash never leaves half an update behind. Changes to one collection are serialized per
+ * process: run a single server instance per directory. Expired collections are ignored on
+ * access and deleted by a periodic sweeper. Rate limits and the recent events replayed to
+ * reconnecting clients are kept in memory, so publishing an event never rewrites the
+ * collection file; after a restart, clients reconnect and refetch as they would anyway.
+ */
+const MAX_STORED_EVENTS = 200; // Same replay window as the Redis stream
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+const STALE_TEMP_FILE_MS = 10 * 60 * 1000; // Leftovers of writes interrupted by a crash
+export const DEFAULT_STORAGE_DIR = '.crossclip-data';
+
+interface CollectionRecord {
+  meta: CollectionMeta;
+  expiresAt: number | null; // Epoch ms; null when the collection never expires
+  items: ClipboardItemData[];
+  trash?: ClipboardItemData[]; // Deleted items with `deletedAt`; missing in files written before the trash
+  sessions: Record<string, number>; // token -> expiry (epoch ms)
+}
+
+export interface FileCollectionStoreOptions {
+  directory: string;
+  now?: () => number; // Clock, replaceable for tests
+  sweepIntervalMs?: number; // 0 disables the background sweep (expired data is still ignored on access)
+}
+
+// IDs and tokens end up in file names; anything else could escape the directory
+const isSafeName = (value: string): boolean => /^[\w-]{1,128}$/.test(value);
+
+const isMissingFile = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+const writeFileAtomic = async (filePath: string, data: string | Buffer) => {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tempPath, data);
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+};
+
+export const createFileCollectionStore = ({
+  directory,
+  now = Date.now,
+  sweepIntervalMs = DEFAULT_SWEEP_INTERVAL_MS,
+}: FileCollectionStoreOptions): CollectionStore => {
+  const collectionsDir = path.join(directory, 'collections');
+  const blobsDir = path.join(directory, 'blobs');
+  const readOnlyDir = path.join(directory, 'read-only');
+  const rateLimiter = createMemoryRateLimiter(now);
+  const nextEventId = createEventIdGenerator(now);
+  const eventLogs = new Map<string, StoredCollectionEvent[]>(); // Per collection, oldest first
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0); // One listener per open event stream
+  const locks = new Map<string, Promise<unknown>>();
+
+  let ready: Promise<void> | undefined;
+  const ensureDirectories = () =>
+    (ready ??= Promise.all([collectionsDir, blobsDir, readOnlyDir].map(dir => mkdir(dir, { recursive: true }))).then(() => undefined));
+
+  const getRecordPath = (collectionId: string) => path.join(collectionsDir, `${collectionId}.json`);
+  const getBlobPath = (collectionId: string, itemId: string) => path.join(blobsDir, collectionId, itemId);
+
+  // Runs `task` once every earlier task for the same collection has settled
+  const withLock = <T>(collectionId: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(collectionId) ?? Promise.resolve();
+    const result = previous.catch(() => undefined).then(task);
+    const tail = result.catch(() => undefined);
+    locks.set(collectionId, tail);
+    tail.then(() => {
+      if (locks.get(collectionId) === tail) locks.delete(collectionId);
+    });
+    return result;
+  };
+
+  const isExpired = (record: CollectionRecord): boolean => record.expiresAt !== null && record.expiresAt <= now();
+
+  const removeCollection = async (collectionId: string, record: CollectionRecord) => {
+    eventLogs.delete(collectionId);
+    await rm(getRecordPath(collectionId), { force: true });
+    await rm(path.join(blobsDir, collectionId), { recursive: true, force: true });
+    if (record.meta.readOnlyToken) await rm(path.join(readOnlyDir, record.meta.readOnlyToken), { force: true });
+  };
+
+  // Stored record, or null when it does not exist; expired records are not filtered here
+  const readRecord = async (collectionId: string): Promise<CollectionRecord | null> => {
+    if (!isSafeName(collectionId)) return null;
+    let raw: string;
+    try {
+      raw = await readFile(getRecordPath(collectionId), 'utf8');
+    } catch (error) {
+      if (isMissingFile(error)) return null;
+      throw error;
+    }
+    try {
+      return JSON.parse(raw) as CollectionRecord;
+    } catch {
+      throw new CorruptCollectionError(collectionId, 'collection file is not valid JSON');
+    }
+  };
+
+  // Live record or CollectionNotFoundError; expired ones are removed on the way (removal is idempotent)
+  const readLive = async (collectionId: string): Promise<CollectionRecord> => {
+    const record = await readRecord(collectionId);
+    if (record && isExpired(record)) {
+      await removeCollection(collectionId, record);
+    } else if (record) {
+      return record;
+    }
+    throw new CollectionNotFoundError(collectionId);
+  };
+
+  const writeRecord = async (collectionId: string, record: CollectionRecord) => {
+    await ensureDirectories();
+    await writeFileAtomic(getRecordPath(collectionId), JSON.stringify(record));
+  };
+
+  // Read-modify-write of one collection; the record is only saved when `change` succeeds
+  const updateRecord = <T>(collectionId: string, change: (record: CollectionRecord) => Promise<T> | T): Promise<T> =>
+    withLock(collectionId, async () => {
+      const record = await readLive(collectionId);
+      const result = await change(record);
+      await writeRecord(collectionId, record);
+      return result;
+    });
+
+  const getExpiresAtIso = (record: CollectionRecord): string | null =>
+    record.expiresAt === null ? null : new Date(record.expiresAt).toISOString();
+
+  const getUsage = (record: CollectionRecord): CollectionUsage => ({
+    items: record.items.length,
+    maxItems: MAX_ITEMS_PER_COLLECTION,
+    bytes: record.items.reduce((total, item) => total + getItemSizeBytes(item), 0),
+    maxBytes: MAX_COLLECTION_BYTES,
+  });
+
+  // Drops trash entries past their retention and their blobs; returns whether the record changed
+  const dropExpiredTrash = async (collectionId: string, record: CollectionRecord): Promise<boolean> => {
+    const expired = (record.trash ?? []).filter(item => isTrashExpired(item, now()));
+    if (expired.length === 0) return false;
+    record.trash = record.trash!.filter(item => !expired.includes(item));
+    await Promise.all(expired.filter(item => item.attachment).map(item => rm(getBlobPath(collectionId, item.id), { force: true })));
+    return true;
+  };
+
+  // Moves items from the list into the trash; their blobs stay until the trash is purged
+  const trashItems = (record: CollectionRecord, items: ClipboardItemData[]): ClipboardItemData[] => {
+    const deletedAt = new Date(now()).toISOString();
+    const trashed = items.map(item => ({ ...item, deletedAt }));
+    record.items = record.items.filter(item => !items.includes(item));
+    record.trash = [...(record.trash ?? []), ...trashed];
+    return trashed;
+  };
+
+  const applyExpiry = (record: CollectionRecord, expiry: CollectionExpiry) => {
+    const seconds = COLLECTION_EXPIRY_SECONDS[expiry];
+    record.meta.expiry = expiry;
+    record.expiresAt = seconds === null ? null : now() + seconds * 1000;
+  };
+
+  const sweep = async () => {
+    let entries: string[];
+    try {
+      entries = await readdir(collectionsDir);
+    } catch (error) {
+      if (!isMissingFile(error)) console.warn('File storage sweep failed to list collections:', error);
+      return;
+    }
+    for (const entry of entries) {
+      try {
+        if (entry.endsWith('.tmp')) {
+          const entryPath = path.join(collectionsDir, entry);
+          if ((await stat(entryPath)).mtimeMs < now() - STALE_TEMP_FILE_MS) await rm(entryPath, { force: true });
+          continue;
+        }
+        if (!entry.endsWith('.json')) continue;
+        const collectionId = entry.slice(0, -'.json'.length);
+        await withLock(collectionId, async () => {
+          const record = await readRecord(collectionId);
+          if (record && isExpired(record)) {
+            await removeCollection(collectionId, record);
+          } else if (record && (await dropExpiredTrash(collectionId, record))) {
+            await writeRecord(collectionId, record);
+          }
+        });
+      } catch (error) {
+        console.warn(`File storage sweep skipped ${entry}:`, error);
+      }
+    }
+    rateLimiter.sweep();
+  };
+  if (sweepIntervalMs > 0) {
+    void sweep(); // Collections that expired while the server was down
+    setInterval(() => void sweep(), sweepIntervalMs).unref?.();
+  }
+
+  return {
+    backend: 'file',
+
+    createCollection: async (collectionId, { passwordHash, encrypted = false, expiry = DEFAULT_COLLECTION_EXPIRY, slidingExpiry = false, readOnlyToken } = {}) => {
+      if (!isSafeName(collectionId) || (readOnlyToken && !isSafeName(readOnlyToken))) {
+        throw new Error(`Invalid collection ID or read-only token for ${collectionId}.`);
+      }
+      const record: CollectionRecord = {
+        meta: { id: collectionId, createdAt: new Date(now()).toISOString(), passwordHash, encrypted, expiry, slidingExpiry, readOnlyToken },
+        expiresAt: null,
+        items: [],
+        sessions: {},
+      };
+      applyExpiry(record, expiry);
+      await withLock(collectionId, async () => {
+        await writeRecord(collectionId, record);
+        if (readOnlyToken) await writeFileAtomic(path.join(readOnlyDir, readOnlyToken), collectionId);
+      });
+
+      return {
+        id: collectionId,
+        items: [],
+        createdAt: record.meta.createdAt,
+        passwordProtected: !!passwordHash,
+        encrypted,
+        expiry,
+        slidingExpiry,
+        expiresAt: getExpiresAtIso(record),
+      };
+    },
+
+    getCollection: async (collectionId) => {
+      const record = await readLive(collectionId);
+      const items = sortItems(record.items).map(redactLimitedItem);
+      const { meta } = record;
+      const result: SharedClipCollection = {
+        id: meta.id,
+        createdAt: meta.createdAt,
+        passwordProtected: !!meta.passwordHash,
+        encrypted: meta.encrypted,
+        expiry: meta.expiry,
+        slidingExpiry: meta.slidingExpiry,
+        expiresAt: getExpiresAtIso(record),
+        usage: getUsage(record),
+        tagCounts: countItemTags(items),
+        items,
+      };
+      return result;
+    },
+
+    getCollectionMeta: async (collectionId) => (await readLive(collectionId)).meta,
+
+    resolveReadOnlyToken: async (token) => {
+      if (!isSafeName(token)) return null;
+      let collectionId: string;
+      try {
+        collectionId = await readFile(path.join(readOnlyDir, token), 'utf8');
+      } catch (error) {
+        if (isMissingFile(error)) return null;
+        throw error;
+      }
+      const record = await readRecord(collectionId);
+      return record && !isExpired(record) ? collectionId : null;
+    },
+
+    setExpiry: (collectionId, expiry) =>
+      updateRecord(collectionId, record => {
+        applyExpiry(record, expiry);
+        return getExpiresAtIso(record);
+      }),
+
+    touchCollection: async (collectionId, expiry) => {
+      await updateRecord(collectionId, record => applyExpiry(record, expiry));
+    },
+
+    getItem: async (collectionId, itemId) => (await readLive(collectionId)).items.find(item => item.id === itemId) ?? null,
+
+    getAttachmentBlob: async (collectionId, itemId) => {
+      const record = await readLive(collectionId);
+      if (!record.items.some(item => item.id === itemId && item.attachment)) return null;
+      try {
+        return await readFile(getBlobPath(collectionId, itemId));
+      } catch (error) {
+        if (isMissingFile(error)) return null;
+        throw error;
+      }
+    },
+
+    addItem: (collectionId, item, blob) =>
+      updateRecord(collectionId, async record => {
+        const usage = getUsage(record);
+        if (usage.items >= usage.maxItems || usage.bytes + getItemSizeBytes(item) > usage.maxBytes) {
+          throw new CollectionFullError(collectionId, usage.items >= usage.maxItems ? 'items' : 'bytes', usage);
+        }
+        if (blob) {
+          if (!isSafeName(item.id)) throw new Error(`Invalid item ID ${item.id}.`);
+          // Written before the record, so a listed attachment always has its bytes
+          await mkdir(path.join(blobsDir, collectionId), { recursive: true });
+          await writeFileAtomic(getBlobPath(collectionId, item.id), blob);
+        }
+        record.items.push(item);
+        return item;
+      }),
+
+    addItems: (collectionId, entries) =>
+      updateRecord(collectionId, async record => {
+        const usage = getUsage(record);
+        const addedBytes = entries.reduce((total, { item }) => total + getItemSizeBytes(item), 0);
+        if (usage.items + entries.length > usage.maxItems || usage.bytes + addedBytes > usage.maxBytes) {
+          throw new CollectionFullError(collectionId, usage.items + entries.length > usage.maxItems ? 'items' : 'bytes', usage);
+        }
+        const blobEntries = entries.filter(({ blob }) => blob);
+        if (blobEntries.some(({ item }) => !isSafeName(item.id))) throw new Error('Invalid item ID in batch.');
+        if (blobEntries.length > 0) {
+          // Written before the record, as in addItem
+          await mkdir(path.join(blobsDir, collectionId), { recursive: true });
+          for (const { item, blob } of blobEntries) await writeFileAtomic(getBlobPath(collectionId, item.id), blob!);
+        }
+        record.items.push(...entries.map(({ item }) => item));
+        return entries.map(({ item }) => item);
+      }),
+
+    updateItem: (collectionId, itemId, edit, expectedVersion) =>
+      withLock(collectionId, async () => {
+        const record = await readLive(collectionId);
+        const index = record.items.findIndex(({ id }) => id === itemId);
+        if (index === -1) return null;
+        const item = record.items[index];
+        if (getItemVersion(item) !== expectedVersion) {
+          throw new ItemVersionConflictError(collectionId, item);
+        }
+        const updated = applyItemEdit(item, edit, new Date(now()).toISOString());
+        const byteDelta = getItemSizeBytes(updated) - getItemSizeBytes(item);
+        const usage = getUsage(record);
+        if (byteDelta > 0 && usage.bytes + byteDelta > usage.maxBytes) {
+          throw new CollectionFullError(collectionId, 'bytes', usage);
+        }
+        record.items[index] = updated;
+        await writeRecord(collectionId, record);
+        return updated;
+      }),
+
+    arrangeItems: (collectionId, arrangement) =>
+      updateRecord(collectionId, record => {
+        const changed = arrangeItemList(record.items, arrangement);
+        const changedById = new Map(changed.map(item => [item.id, item]));
+        record.items = record.items.map(item => changedById.get(item.id) ?? item);
+        return changed;
+      }),
+
+    deleteItem: (collectionId, itemId) =>
+      withLock(collectionId, async () => {
+        const record = await readLive(collectionId);
+        const item = record.items.find(({ id }) => id === itemId);
+        if (!item) return null;
+        const [trashed] = trashItems(record, [item]);
+        await writeRecord(collectionId, record);
+        return trashed;
+      }),
+
+    deleteItems: (collectionId, itemIds) =>
+      withLock(collectionId, async () => {
+        const record = await readLive(collectionId);
+        const ids = new Set(itemIds === 'all' ? record.items.map(({ id }) => id) : itemIds);
+        const items = record.items.filter(({ id }) => ids.has(id));
+        if (items.length === 0) return [];
+        const trashed = trashItems(record, items);
+        await writeRecord(collectionId, record);
+        return trashed;
+      }),
+
+    consumeItem: (collectionId, itemId) =>
+      withLock(collectionId, async () => {
+        const record = await readLive(collectionId);
+        const item = record.items.find(({ id }) => id === itemId);
+        if (!item) return null;
+        if (item.viewsRemaining === undefined) {
+          return { item, deleted: false }; // Unlimited items are simply returned
+        }
+        const viewsRemaining = Math.max(item.viewsRemaining - 1, 0);
+        if (viewsRemaining === 0) {
+          record.items = record.items.filter(({ id }) => id !== itemId);
+        } else {
+          item.viewsRemaining = viewsRemaining;
+        }
+        await writeRecord(collectionId, record);
+        if (viewsRemaining === 0 && item.attachment) await rm(getBlobPath(collectionId, itemId), { force: true });
+        return { item: { ...item, viewsRemaining }, deleted: viewsRemaining === 0 };
+      }),
+
+    getTrash: (collectionId) =>
+      withLock(collectionId, async () => {
+        const record = await readLive(collectionId);
+        if (await dropExpiredTrash(collectionId, record)) await writeRecord(collectionId, record);
+        return [...(record.trash ?? [])]
+          .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime())
+          .map(redactLimitedItem);
+      }),
+
+    restoreItems: (collectionId, itemIds) =>
+      updateRecord(collectionId, async record => {
+        await dropExpiredTrash(collectionId, record);
+        const ids = new Set(itemIds);
+        const trashed = (record.trash ?? []).filter(({ id }) => ids.has(id));
+        if (trashed.length === 0) return [];
+        const usage = getUsage(record);
+        const restoredBytes = trashed.reduce((total, item) => total + getItemSizeBytes(item), 0);
+        if (usage.items + trashed.length > usage.maxItems || usage.bytes + restoredBytes > usage.maxBytes) {
+          throw new CollectionFullError(collectionId, usage.items + trashed.length > usage.maxItems ? 'items' : 'bytes', usage);
+        }
+        const restored = trashed.map(({ deletedAt, ...item }) => item);
+        record.trash = record.trash!.filter(({ id }) => !ids.has(id));
+        record.items.push(...restored);
+        return restored;
+      }),
+
+    purgeTrash: (collectionId, itemIds) =>
+      withLock(collectionId, async () => {
+        const record = await readLive(collectionId);
+        const ids = itemIds === 'all' ? null : new Set(itemIds);
+        const purged = (record.trash ?? []).filter(({ id }) => !ids || ids.has(id));
+        if (purged.length === 0) return [];
+        record.trash = (record.trash ?? []).filter(item => !purged.includes(item));
+        await writeRecord(collectionId, record);
+        await Promise.all(purged.filter(item => item.attachment).map(item => rm(getBlobPath(collectionId, item.id), { force: true })));
+        return purged.map(({ id }) => id);
+      }),
+
+    saveSession: (collectionId, token, ttlMs) =>
+      updateRecord(collectionId, record => {
+        const time = now();
+        // Drop expired sessions while the file is being rewritten anyway
+        record.sessions = Object.fromEntries(Object.entries(record.sessions).filter(([, expiresAt]) => expiresAt > time));
+        const expiresAt = Math.min(time + ttlMs, record.expiresAt ?? Infinity);
+        record.sessions[token] = expiresAt;
+        return new Date(expiresAt).toISOString();
+      }),
+
+    hasSession: async (collectionId, token) => {
+      const record = await readRecord(collectionId);
+      const expiresAt = record?.sessions[token];
+      return expiresAt !== undefined && expiresAt > now();
+    },
+
+    hitRateLimit: rateLimiter.hit,
+
+    // Only called after a successful mutation, so the collection is known to exist
+    publishEvent: async (collectionId, event) => {
+      const stored: StoredCollectionEvent = { id: nextEventId(), event: structuredClone(event) };
+      const events = eventLogs.get(collectionId) ?? [];
+      events.push(stored);
+      if (events.length > MAX_STORED_EVENTS) events.shift();
+      eventLogs.set(collectionId, events);
+      emitter.emit(collectionId, stored);
+      return stored.id;
+    },
+
+    getEventsSince: async (collectionId, lastEventId) =>
+      (eventLogs.get(collectionId) ?? []).filter(({ id }) => compareEventIds(id, lastEventId) > 0),
+
+    subscribe: async (collectionId, listener) => {
+      emitter.on(collectionId, listener);
+      return async () => {
+        emitter.off(collectionId, listener);
+      };
+    },
+  };
+};
+
+// One store per server process and directory, kept on globalThis so development hot reloads reuse it
+const globalForStore = globalThis as typeof globalThis & { __crossclipFileStores?: Map<string, CollectionStore> };
+
+export const getFileCollectionStore = (): CollectionStore => {
+  const directory = path.resolve(process.env.STORAGE_DIR?.trim() || DEFAULT_STORAGE_DIR);
+  globalForStore.__crossclipFileStores ??= new Map();
+  let store = globalForStore.__crossclipFileStores.get(directory);
+  if (!store) {
+    console.log(`Using the file collection store in ${directory}.`);
+    store = createFileCollectionStore({ directory });
+    globalForStore.__crossclipFileStores.set(directory, store);
+  }
+  return store;
+};
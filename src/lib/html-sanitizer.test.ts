@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeClipboardHtml } from '@/lib/html-sanitizer';
+
+// Nothing that can execute script or load a resource may survive sanitization
+const expectInert = (html: string) => {
+  const sanitized = sanitizeClipboardHtml(html);
+  expect(sanitized).not.toMatch(/<script|<iframe|<object|<embed|<svg|<math|<style|<form|<base|<meta|<link/i);
+  // Quoted attribute values are inert text (the sanitizer escapes `<` and `>` inside them)
+  expect(sanitized.replace(/"[^"]*"/g, '""')).not.toMatch(/\son[a-z]+\s*=/i);
+  expect(sanitized).not.toMatch(/javascript:|vbscript:|data:text|expression\s*\(|url\s*\(/i);
+  return sanitized;
+};
+
+describe('sanitizeClipboardHtml', () => {
+  describe('dangerous URLs', () => {
+    it.each([
+      '<a href="javascript:alert(1)">x</a>',
+      '<a href="JaVaScRiPt:alert(1)">x</a>',
+      '<a href=" javascript:alert(1)">x</a>',
+      '<a href="java\tscript:alert(1)">x</a>',
+      '<a href="&#106;avascript:alert(1)">x</a>',
+      '<a href="&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)">x</a>',
+      '<a href="vbscript:msgbox(1)">x</a>',
+      '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+      '<img src="javascript:alert(1)">',
+      '<img src="data:text/html,<script>alert(1)</script>">',
+      '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">',
+    ])('neutralizes %s', payload => {
+      expectInert(payload);
+    });
+
+    it('drops protocol-relative links', () => {
+      expect(sanitizeClipboardHtml('<a href="//evil.example/">x</a>')).not.toContain('evil.example');
+    });
+
+    it('keeps raster data: images', () => {
+      const html = '<img src="data:image/png;base64,iVBORw0KGgo=" alt="shot">';
+      expect(sanitizeClipboardHtml(html)).toContain('src="data:image/png;base64,iVBORw0KGgo="');
+    });
+  });
+
+  describe('event handlers', () => {
+    it.each([
+      '<img src=x onerror=alert(1)>',
+      '<img src="x" ONERROR="alert(1)">',
+      '<div onmouseover="alert(1)">hover</div>',
+      '<p/onclick=alert(1)>x</p>',
+      '<body onload=alert(1)>',
+      '<a href="https://example.com" onfocus="alert(1)" autofocus>x</a>',
+      '<details open ontoggle=alert(1)>',
+      '<video><source onerror="alert(1)"></video>',
+      '<input autofocus onfocus=alert(1)>',
+    ])('removes the handler in %s', payload => {
+      expectInert(payload);
+    });
+
+    it('removes script elements and their content', () => {
+      const sanitized = expectInert('<p>before</p><script>alert(1)</script><p>after</p>');
+      expect(sanitized).toBe('<p>before</p><p>after</p>');
+    });
+  });
+
+  describe('svg and math mutation XSS', () => {
+    it.each([
+      '<svg onload=alert(1)>',
+      '<svg><script>alert(1)</script></svg>',
+      '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+      '<svg><animate onbegin=alert(1) attributeName=x dur=1s>',
+      '<svg></p><style><a id="</style><img src=1 onerror=alert(1)>">',
+      '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>',
+      '<math><mi xlink:href="javascript:alert(1)">x</mi></math>',
+      '<form><math><mtext></form><form><mglyph><svg><mtext><style><path id="</style><img onerror=alert(1) src>">',
+      '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+      '<template><img src=x onerror=alert(1)></template>',
+      '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+      '<object data="javascript:alert(1)"></object>',
+    ])('neutralizes %s', payload => {
+      expectInert(payload);
+    });
+  });
+
+  describe('style and srcset tricks', () => {
+    it.each([
+      '<style>body { background: url("https://evil.example/x") }</style>',
+      '<style>@import "https://evil.example/x.css";</style>',
+      '<div style="background-image: url(https://evil.example/x)">x</div>',
+      '<div style="background: url(javascript:alert(1))">x</div>',
+      '<div style="width: expression(alert(1))">x</div>',
+      '<div style="color: red; background:\\75 rl(https://evil.example/x)">x</div>',
+      '<div style="font-family: \'a\\\'; background: url(x)">x</div>',
+      '<div style="position: fixed; top: 0; left: 0; width: 100vw">overlay</div>',
+      '<img srcset="https://evil.example/a.png 1x, javascript:alert(1) 2x">',
+      '<img src="x.png" srcset="data:text/html,<script>alert(1)</script> 1x">',
+    ])('neutralizes %s', payload => {
+      const sanitized = expectInert(payload);
+      expect(sanitized).not.toContain('srcset');
+      expect(sanitized).not.toContain('position');
+    });
+
+    it('keeps plain style values', () => {
+      expect(sanitizeClipboardHtml('<span style="color: #ff0000; font-weight: bold">red</span>'))
+        .toBe('<span style="color:#ff0000;font-weight:bold">red</span>');
+    });
+  });
+
+  describe('allowed formatting', () => {
+    it('keeps common rich-text markup', () => {
+      const html = '<h2>Title</h2><p><strong>bold</strong>, <em>italic</em>, <u>under</u> and <code>code</code></p>'
+        + '<ul><li>one</li><li>two</li></ul><blockquote>quote</blockquote><pre>pre</pre>';
+      expect(sanitizeClipboardHtml(html)).toBe(html);
+    });
+
+    it('keeps tables with their layout attributes', () => {
+      const html = '<table border="1"><thead><tr><th scope="col">A</th></tr></thead><tbody><tr><td colspan="2">B</td></tr></tbody></table>';
+      expect(sanitizeClipboardHtml(html)).toBe(html);
+    });
+
+    it('keeps http links and forces them into a new tab', () => {
+      expect(sanitizeClipboardHtml('<a href="https://example.com/page" target="_self">link</a>'))
+        .toBe('<a href="https://example.com/page" target="_blank" rel="noopener noreferrer nofollow">link</a>');
+    });
+
+    it('keeps mailto links', () => {
+      expect(sanitizeClipboardHtml('<a href="mailto:someone@example.com">mail</a>')).toContain('href="mailto:someone@example.com"');
+    });
+
+    it('keeps the text of unknown tags', () => {
+      expect(sanitizeClipboardHtml('<custom-element>text</custom-element>')).toBe('text');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import sanitizeHtml from 'sanitize-html';
+
+/*
+ * Allowlist sanitizer for the HTML carried by 'html' clipboard items.
+ *
+ * Runs on the server when an item is added (encrypted collections excepted: the server
+ * only sees ciphertext there) and again in the browser right before rendering, so items
+ * stored before sanitization existed, local items and decrypted items are covered too.
+ * Everything not listed here is removed: scripts, event handler attributes, iframes,
+ * forms, `javascript:`-style URLs and CSS that can load resources or escape the card.
+ */
+
+// Formatting tags that office suites, browsers and editors commonly put on the clipboard
+const ALLOWED_TAGS = [
+  'p', 'br', 'div', 'span', 'hr',
+  'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'ins', 'sub', 'sup', 'mark', 'small', 'big', 'font',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'blockquote', 'q', 'cite', 'abbr', 'code', 'pre', 'kbd', 'samp', 'var',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'a', 'img', 'figure', 'figcaption',
+];
+
+const ALLOWED_ATTRIBUTES: sanitizeHtml.IOptions['allowedAttributes'] = {
+  '*': ['style', 'title', 'dir', 'lang', 'align'],
+  a: ['href', 'name', 'target', 'rel'], // target/rel are always overwritten by the transform below
+  img: ['src', 'alt', 'width', 'height'],
+  font: ['color', 'face', 'size'],
+  ol: ['start', 'type'],
+  td: ['colspan', 'rowspan', 'valign', 'width'],
+  th: ['colspan', 'rowspan', 'valign', 'width', 'scope'],
+  col: ['span', 'width'],
+  table: ['border', 'cellpadding', 'cellspacing', 'width'],
+};
+
+// Plain values only: no url(), expression(), var() or escapes that could smuggle them in
+const SAFE_DATA_IMAGE = /^data:image\/(?:png|gif|jpe?g|webp|bmp);base64,/i;
+
+const SAFE_CSS_VALUE = /^(?!.*(?:url|expression|image-set|image|var|attr|env)\s*\()(?!.*\\)[\w\s#.,%()'"+\-/!]*$/i;
+
+const styleProperties = [
+  'color', 'background-color', 'font-family', 'font-size', 'font-style', 'font-weight', 'font-variant',
+  'text-align', 'text-decoration', 'text-decoration-line', 'text-indent', 'text-transform',
+  'line-height', 'letter-spacing', 'white-space', 'vertical-align', 'list-style-type',
+  'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'border', 'border-top', 'border-right', 'border-bottom', 'border-left', 'border-color', 'border-style', 'border-width', 'border-collapse',
+  'width', 'height', 'max-width',
+];
+
+const ALLOWED_STYLES: sanitizeHtml.IOptions['allowedStyles'] = {
+  '*': Object.fromEntries(styleProperties.map(property => [property, [SAFE_CSS_VALUE]])),
+};
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ALLOWED_TAGS,
+  allowedAttributes: ALLOWED_ATTRIBUTES,
+  allowedStyles: ALLOWED_STYLES,
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+  // Pasted screenshots inside rich text arrive as data: URLs (raster images only, see below)
+  allowedSchemesByTag: { img: ['http', 'https', 'data'] },
+  allowProtocolRelative: false,
+  disallowedTagsMode: 'discard', // Unknown tags are dropped but their text is kept
+  transformTags: {
+    // Links from shared items always open in a new tab without access to this page
+    a: sanitizeHtml.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer nofollow' }),
+    img: (tagName, attribs) => {
+      const { src, ...rest } = attribs;
+      const isDataUrl = /^\s*data:/i.test(src ?? '');
+      return { tagName, attribs: isDataUrl && !SAFE_DATA_IMAGE.test(src.trim()) ? rest : attribs };
+    },
+  },
+};
+
+export const sanitizeClipboardHtml = (html: string): string => sanitizeHtml(html, SANITIZE_OPTIONS);
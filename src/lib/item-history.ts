@@ -0,0 +1,42 @@
+import type { ClipboardItemData, ClipboardItemRevision } from '@/lib/types';
+
+// Editing replaces an item's content in place and keeps a short trail of earlier versions.
+// Shared by every storage backend and by ClipboardManager's local mode.
+
+export const MAX_ITEM_HISTORY = 10; // Earlier versions kept per item; older ones are dropped
+
+export type ClipboardItemEdit = Pick<ClipboardItemData, 'type' | 'content' | 'htmlContent'>;
+
+export const getItemVersion = (item: ClipboardItemData): number => item.version ?? 1;
+
+const toIsoString = (value: Date | string): string => (typeof value === 'string' ? value : value.toISOString());
+
+// Attachments (the content is the file name) and view-limited secrets cannot be edited
+export const isEditableItem = (item: ClipboardItemData): boolean =>
+  (item.type === 'text' || item.type === 'url' || item.type === 'html') && !item.attachment && item.viewLimit === undefined;
+
+// Returns the next version of `item` with `edit` applied and the current version moved into its history
+export const applyItemEdit = (item: ClipboardItemData, edit: ClipboardItemEdit, updatedAt: Date | string = new Date()): ClipboardItemData => {
+  const previous: ClipboardItemRevision = {
+    version: getItemVersion(item),
+    type: item.type,
+    content: item.content,
+    updatedAt: toIsoString(item.updatedAt ?? item.createdAt),
+  };
+  if (item.htmlContent !== undefined) previous.htmlContent = item.htmlContent;
+
+  const edited: ClipboardItemData = {
+    ...item,
+    type: edit.type,
+    content: edit.content,
+    version: previous.version + 1,
+    updatedAt: typeof item.createdAt === 'string' ? toIsoString(updatedAt) : new Date(updatedAt),
+    history: [previous, ...(item.history ?? [])].slice(0, MAX_ITEM_HISTORY),
+  };
+  if (edit.htmlContent !== undefined) {
+    edited.htmlContent = edit.htmlContent;
+  } else {
+    delete edited.htmlContent;
+  }
+  return edited;
+};
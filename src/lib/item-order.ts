@@ -0,0 +1,56 @@
+import { haveSameTags } from '@/lib/item-tags';
+import type { ClipboardItemData, ItemArrangement } from '@/lib/types';
+
+// Items are listed by `position`, highest first. New items take their creation time (ms) as
+// position, so they land on top; reordering hands out the positions the moved items already
+// held, so items outside the reordered range never move. Pinned items are shown in their own
+// section by the client but keep their position.
+// Shared by every storage backend and by ClipboardManager's local mode.
+
+export const getItemPosition = (item: ClipboardItemData): number => item.position ?? new Date(item.createdAt).getTime();
+
+// Highest position first; ties fall back to the ID (descending, like Redis ZRANGE ... REV)
+export const compareItemOrder = (a: ClipboardItemData, b: ClipboardItemData): number =>
+  getItemPosition(b) - getItemPosition(a) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+export const sortItems = <T extends ClipboardItemData>(items: T[]): T[] => [...items].sort(compareItemOrder);
+
+/**
+ * Applies pin/star flags, tags and a new order to `items` (the affected items, in any order).
+ * Unknown IDs are ignored. Returns copies of the items that actually changed.
+ */
+export const arrangeItemList = (items: ClipboardItemData[], { flags = [], order = [] }: ItemArrangement): ClipboardItemData[] => {
+  const byId = new Map(items.map(item => [item.id, { ...item }]));
+  const changed = new Set<string>();
+
+  for (const { id, pinned, starred, tags } of flags) {
+    const item = byId.get(id);
+    if (!item) continue;
+    if (pinned !== undefined && !!item.pinned !== pinned) {
+      item.pinned = pinned || undefined;
+      changed.add(id);
+    }
+    if (starred !== undefined && !!item.starred !== starred) {
+      item.starred = starred || undefined;
+      changed.add(id);
+    }
+    if (tags !== undefined && !haveSameTags(item.tags, tags)) {
+      item.tags = tags.length > 0 ? tags : undefined;
+      changed.add(id);
+    }
+  }
+
+  const ordered = [...new Set(order)].flatMap(id => byId.get(id) ?? []);
+  // Strictly decreasing, so items that were added in the same millisecond still end up in the requested order
+  const positions = ordered.map(getItemPosition).sort((a, b) => b - a);
+  for (let index = 1; index < positions.length; index++) {
+    if (positions[index] >= positions[index - 1]) positions[index] = positions[index - 1] - 0.001;
+  }
+  ordered.forEach((item, index) => {
+    if (getItemPosition(item) === positions[index]) return;
+    item.position = positions[index];
+    changed.add(item.id);
+  });
+
+  return [...changed].map(id => byId.get(id)!);
+};
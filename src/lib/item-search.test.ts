@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryCollectionStore } from '@/lib/memory-storage';
+import { decodeSearchCursor, searchItems } from '@/lib/item-search';
+import { itemSearchQuerySchema, type ClipboardItemData, type ItemSearchPage } from '@/lib/types';
+import type { CollectionStore } from '@/lib/storage';
+
+let store: CollectionStore;
+
+// As GET /api/clip/[id]/items runs it: query parsed by the schema, items in list order from the store
+const search = async (query: Record<string, unknown>, cursor?: string | null): Promise<ItemSearchPage> => {
+  const parsed = itemSearchQuerySchema.parse(query);
+  return searchItems((await store.getCollection('c1')).items, parsed, cursor ? decodeSearchCursor(cursor) : null);
+};
+const ids = (page: ItemSearchPage) => page.items.map(({ id }) => id);
+
+const item = (id: string, day: number, extra: Partial<ClipboardItemData> = {}): ClipboardItemData => ({
+  id,
+  type: 'text',
+  content: `note ${id}`,
+  createdAt: `2026-01-${String(day).padStart(2, '0')}T12:00:00.000Z`,
+  ...extra,
+});
+
+beforeEach(async () => {
+  store = createMemoryCollectionStore({ sweepIntervalMs: 0 });
+  await store.createCollection('c1', { expiry: 'never' });
+  await store.addItems('c1', [
+    { item: item('t1', 1) },
+    { item: item('u1', 2, { type: 'url', content: 'https://example.com/docs' }) },
+    { item: item('t2', 3, { tags: ['work'] }) },
+    { item: item('h1', 4, { type: 'html', content: 'Meeting notes', htmlContent: '<p>Meeting notes</p>', tags: ['work', 'urgent'] }) },
+    { item: item('t3', 5, { tags: ['home'] }) },
+  ]);
+});
+
+describe('searchItems', () => {
+  it('pages through every match in list order with a cursor', async () => {
+    const first = await search({ limit: 2 });
+    expect(ids(first)).toEqual(['t3', 'h1']);
+    expect(first.total).toBe(5);
+
+    const second = await search({ limit: 2 }, first.nextCursor);
+    expect(ids(second)).toEqual(['t2', 'u1']);
+    const third = await search({ limit: 2 }, second.nextCursor);
+    expect(ids(third)).toEqual(['t1']);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('neither repeats nor skips items when the list changes between pages', async () => {
+    const first = await search({ limit: 2 });
+    await store.addItem('c1', item('new', 6));
+    await store.deleteItem('c1', 't2');
+
+    const second = await search({ limit: 2 }, first.nextCursor);
+    expect(ids(second)).toEqual(['u1', 't1']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('keeps the filters on later pages', async () => {
+    const first = await search({ types: ['text'], limit: 1 });
+    const second = await search({ types: ['text'], limit: 1 }, first.nextCursor);
+    expect([...ids(first), ...ids(second)]).toEqual(['t3', 't2']);
+    expect(second.total).toBe(3);
+  });
+
+  it('filters by type', async () => {
+    expect(ids(await search({ types: ['url', 'html'] }))).toEqual(['h1', 'u1']);
+    expect(ids(await search({ types: ['image'] }))).toEqual([]);
+  });
+
+  it('filters by tags, requiring every one of them', async () => {
+    expect(ids(await search({ tags: ['work'] }))).toEqual(['h1', 't2']);
+    expect(ids(await search({ tags: ['work', 'urgent'] }))).toEqual(['h1']);
+    expect(ids(await search({ tags: ['Work'] }))).toEqual(['h1', 't2']); // Tags are normalized to lower case
+  });
+
+  it('filters by creation date, both bounds inclusive', async () => {
+    expect(ids(await search({ from: '2026-01-02T12:00:00.000Z', to: '2026-01-04T12:00:00.000Z' }))).toEqual(['h1', 't2', 'u1']);
+    expect(ids(await search({ from: '2026-01-05' }))).toEqual(['t3']);
+    expect(ids(await search({ to: '2026-01-01T23:59:59.999Z' }))).toEqual(['t1']);
+  });
+
+  it('matches every word of the text query, ignoring case', async () => {
+    expect(ids(await search({ q: 'MEETING notes' }))).toEqual(['h1']);
+    expect(ids(await search({ q: 'note', types: ['text'], tags: ['work'] }))).toEqual(['t2']);
+  });
+
+  it('rejects cursors it did not hand out', () => {
+    expect(decodeSearchCursor('not-a-cursor')).toBeNull();
+    expect(decodeSearchCursor('abc:t1')).toBeNull();
+  });
+});
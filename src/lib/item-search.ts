@@ -0,0 +1,53 @@
+import { compareItemOrder, getItemPosition } from '@/lib/item-order';
+import type { ClipboardItemData, ItemSearchPage, ItemSearchQuery } from '@/lib/types';
+
+// Filtering for GET /api/clip/[id]/items, also used by ClipboardManager where the server cannot
+// search (local mode, end-to-end encrypted collections). Collections are small (see
+// MAX_ITEMS_PER_COLLECTION), so every backend loads the items and filters them here.
+
+export type ItemFilter = Pick<ItemSearchQuery, 'q' | 'types' | 'tags' | 'from' | 'to'>;
+
+// Every word of `q` must appear in the content (the file name for attachments), ignoring case
+export const matchesItemFilter = (item: ClipboardItemData, { q, types, tags, from, to }: ItemFilter): boolean => {
+  if (types && types.length > 0 && !types.includes(item.type)) return false;
+  if (tags && !tags.every(tag => item.tags?.includes(tag))) return false;
+  const createdAt = new Date(item.createdAt).getTime();
+  if (from && createdAt < from.getTime()) return false;
+  if (to && createdAt > to.getTime()) return false;
+  const words = q?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  if (words.length === 0) return true;
+  const text = `${item.content} ${item.attachment?.filename ?? ''}`.toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+export const isEmptyItemFilter = ({ q, types, tags, from, to }: ItemFilter): boolean =>
+  !q?.trim() && !types?.length && !tags?.length && !from && !to;
+
+// Cursors name the last item of a page by its position and ID, so items added or deleted
+// in the meantime neither repeat nor skip results
+interface SearchCursor {
+  position: number;
+  id: string;
+}
+
+export const encodeSearchCursor = (item: ClipboardItemData): string => `${getItemPosition(item)}:${item.id}`;
+
+export const decodeSearchCursor = (cursor: string): SearchCursor | null => {
+  const separator = cursor.indexOf(':');
+  const position = Number(cursor.slice(0, separator));
+  const id = cursor.slice(separator + 1);
+  return separator > 0 && Number.isFinite(position) && id ? { position, id } : null;
+};
+
+// `items` must already be in list order (as returned by CollectionStore.getCollection)
+export const searchItems = (items: ClipboardItemData[], { limit, ...filter }: ItemSearchQuery, cursor: SearchCursor | null): ItemSearchPage => {
+  const matches = items.filter(item => matchesItemFilter(item, filter));
+  const cursorItem = cursor && { id: cursor.id, position: cursor.position, type: 'text', content: '', createdAt: '' } satisfies ClipboardItemData;
+  const remaining = cursorItem ? matches.filter(item => compareItemOrder(item, cursorItem) > 0) : matches;
+  const page = remaining.slice(0, limit);
+  return {
+    items: page,
+    nextCursor: remaining.length > limit ? encodeSearchCursor(page[page.length - 1]) : null,
+    total: matches.length,
+  };
+};
@@ -0,0 +1,15 @@
+import type { ClipboardItemData } from '@/lib/types';
+
+// Tag index of a list of items: how many items carry each tag. The Redis store keeps these
+// counts in a hash of their own (see collection-store.ts); the other backends derive them here.
+export const countItemTags = (items: ClipboardItemData[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const tag of items.flatMap(item => item.tags ?? [])) {
+    counts[tag] = (counts[tag] ?? 0) + 1;
+  }
+  return counts;
+};
+
+// Order does not matter; both lists are already normalized (see itemTagsSchema)
+export const haveSameTags = (a: string[] = [], b: string[] = []): boolean =>
+  a.length === b.length && a.every(tag => b.includes(tag));
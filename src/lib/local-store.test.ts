@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchWithSession } from '@/lib/clip-session';
+import { migrateLocalHistoryToCollection } from '@/lib/local-store';
+import type { ClipboardItemData, ItemArrangement } from '@/lib/types';
+
+vi.mock('@/lib/clip-session', () => ({ fetchWithSession: vi.fn() }));
+
+const fetchMock = vi.mocked(fetchWithSession);
+
+const localItem = (id: string, day: number, extra: Partial<ClipboardItemData> = {}): ClipboardItemData => ({
+  id,
+  type: 'text',
+  content: `content of ${id}`,
+  createdAt: new Date(`2026-01-0${day}T12:00:00.000Z`),
+  ...extra,
+});
+
+const requests = () => fetchMock.mock.calls.map(([, url, init]) => ({ url, method: init?.method, body: init?.body }));
+
+describe('migrateLocalHistoryToCollection', () => {
+  beforeEach(() => {
+    // The add route answers with the new item; its ID is the local one with a prefix
+    fetchMock.mockImplementation(async (_collectionId, url, init) => {
+      if (init?.method === 'PATCH') return Response.json([]);
+      const { content } = JSON.parse(String(init?.body));
+      if (content === 'content of broken') return Response.json({ error: 'Invalid item' }, { status: 400 });
+      return Response.json({ id: `shared-${content.replace('content of ', '')}` }, { status: 201 });
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it('sends items oldest first, then their pins, stars and local order in one call', async () => {
+    const items = [
+      localItem('old', 1, { position: Date.parse('2026-01-05T00:00:00.000Z'), pinned: true }), // Moved to the top
+      localItem('new', 3, { starred: true }),
+      localItem('mid', 2),
+    ];
+    const result = await migrateLocalHistoryToCollection(items, 'abc');
+
+    expect(result).toEqual({ migrated: ['old', 'mid', 'new'], failed: [] });
+    const sent = requests();
+    expect(sent.slice(0, 3).map(({ url }) => url)).toEqual(Array(3).fill('/api/clip/add/abc'));
+    expect(sent[3]).toMatchObject({ url: '/api/clip/abc/items', method: 'PATCH' });
+    const arrangement: ItemArrangement = JSON.parse(String(sent[3].body));
+    expect(arrangement).toEqual({
+      flags: [
+        { id: 'shared-old', pinned: true, starred: false },
+        { id: 'shared-new', pinned: false, starred: true },
+      ],
+      order: ['shared-old', 'shared-new', 'shared-mid'],
+    });
+  });
+
+  it('sends the tags along with text and attachment items', async () => {
+    const attachment = { filename: 'a.txt', mimeType: 'text/plain', size: 2, checksum: 'sha', dataUrl: 'data:text/plain;base64,aGk=' };
+    fetchMock.mockImplementation(async (_collectionId, url) => Response.json({ id: `shared-${url}` }, { status: 201 }));
+    await migrateLocalHistoryToCollection(
+      [localItem('note', 1, { tags: ['work', 'urgent'] }), localItem('file', 2, { type: 'file', content: 'a.txt', attachment, tags: ['home'] })],
+      'abc'
+    );
+
+    const [note, file] = requests();
+    expect(JSON.parse(String(note.body))).toMatchObject({ content: 'content of note', tags: ['work', 'urgent'] });
+    expect(file.url).toBe('/api/clip/upload/abc');
+    expect((file.body as FormData).getAll('tags')).toEqual(['home']);
+  });
+
+  it('leaves failed items out of the arrangement', async () => {
+    const result = await migrateLocalHistoryToCollection([localItem('a', 2), localItem('broken', 1), localItem('b', 3)], 'abc');
+
+    expect(result).toEqual({ migrated: ['a', 'b'], failed: ['broken'] });
+    expect(JSON.parse(String(requests().at(-1)?.body))).toEqual({ flags: [], order: ['shared-b', 'shared-a'] });
+  });
+
+  it('keeps the items migrated when the arrangement fails', async () => {
+    fetchMock.mockImplementationOnce(async () => Response.json({ id: 'shared-a' }, { status: 201 }));
+    fetchMock.mockImplementationOnce(async () => Response.json({ error: 'Too many requests' }, { status: 429 }));
+    const result = await migrateLocalHistoryToCollection([localItem('a', 1, { pinned: true })], 'abc');
+
+    expect(result).toEqual({ migrated: ['a'], failed: [] });
+    expect(console.error).toHaveBeenCalledWith('Failed to apply pins, stars and order to the migrated items:', expect.any(Error));
+  });
+
+  it('skips the arrangement for a single item without flags', async () => {
+    await migrateLocalHistoryToCollection([localItem('a', 1)], 'abc');
+    expect(requests().map(({ method }) => method)).toEqual(['POST']);
+  });
+});
@@ -0,0 +1,272 @@
+import type { ClipboardItemData, ItemArrangement } from '@/lib/types';
+import { isAttachmentItem } from '@/lib/attachments';
+import { fetchWithSession } from '@/lib/clip-session';
+import { encryptFile, encryptItemFields } from '@/lib/e2e-crypto';
+import { sortItems } from '@/lib/item-order';
+
+// Default number of items kept in the local (non-shared) history
+export const DEFAULT_LOCAL_RETENTION_LIMIT = 100;
+
+// Storage used by ClipboardManager when running in local-only mode (collectionId === null).
+// Implementations persist the full item history, newest first.
+export interface LocalClipboardStore {
+  readonly kind: 'indexeddb' | 'localstorage' | 'memory';
+  load(): Promise<ClipboardItemData[]>;
+  save(items: ClipboardItemData[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface LocalClipboardStoreOptions {
+  retentionLimit?: number; // Maximum number of items kept; older items are dropped on save
+}
+
+const DB_NAME = 'crossclip';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'local-items';
+const LOCAL_STORAGE_KEY = 'crossclip:local-items';
+
+// In list order (see item-order.ts), trimmed to the retention limit, with createdAt restored to a Date.
+// Pinned items are kept first; the retention limit drops items from the bottom of the rest.
+const normalizeItems = (items: ClipboardItemData[], retentionLimit: number): ClipboardItemData[] => {
+  const sorted = sortItems(items.map(item => ({ ...item, createdAt: new Date(item.createdAt) })));
+  const pinned = sorted.filter(item => item.pinned).slice(0, Math.max(0, retentionLimit));
+  const unpinned = sorted.filter(item => !item.pinned).slice(0, Math.max(0, retentionLimit - pinned.length));
+  return sortItems([...pinned, ...unpinned]);
+};
+
+// Wraps an IDBRequest in a promise
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+  });
+
+class IndexedDbClipboardStore implements LocalClipboardStore {
+  readonly kind = 'indexeddb' as const;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly retentionLimit: number) {}
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(ITEMS_STORE)) {
+            request.result.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null; // Allow a later retry
+          reject(request.error ?? new Error('Could not open IndexedDB.'));
+        };
+        request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab.'));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async load(): Promise<ClipboardItemData[]> {
+    const db = await this.openDb();
+    const items = await promisifyRequest(db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).getAll());
+    return normalizeItems(items as ClipboardItemData[], this.retentionLimit);
+  }
+
+  async save(items: ClipboardItemData[]): Promise<void> {
+    const db = await this.openDb();
+    const retained = normalizeItems(items, this.retentionLimit);
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+    const store = transaction.objectStore(ITEMS_STORE);
+    store.clear();
+    retained.forEach(item => store.put(item));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB write failed.'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB write aborted.'));
+    });
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDb();
+    await promisifyRequest(db.transaction(ITEMS_STORE, 'readwrite').objectStore(ITEMS_STORE).clear());
+  }
+}
+
+class LocalStorageClipboardStore implements LocalClipboardStore {
+  readonly kind = 'localstorage' as const;
+
+  constructor(private readonly retentionLimit: number) {}
+
+  async load(): Promise<ClipboardItemData[]> {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (!raw) return [];
+    try {
+      return normalizeItems(JSON.parse(raw), this.retentionLimit);
+    } catch (parseError) {
+      console.error('Discarding unreadable local clipboard history:', parseError);
+      return [];
+    }
+  }
+
+  async save(items: ClipboardItemData[]): Promise<void> {
+    // localStorage quotas are small (~5 MB); a QuotaExceededError propagates to the caller
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(normalizeItems(items, this.retentionLimit)));
+  }
+
+  async clear(): Promise<void> {
+    window.localStorage.removeItem(LOCAL_STORAGE_KEY);
+  }
+}
+
+// Used during server rendering and when the browser offers no persistent storage
+class MemoryClipboardStore implements LocalClipboardStore {
+  readonly kind = 'memory' as const;
+  private items: ClipboardItemData[] = [];
+
+  constructor(private readonly retentionLimit: number) {}
+
+  async load(): Promise<ClipboardItemData[]> {
+    return normalizeItems(this.items, this.retentionLimit);
+  }
+
+  async save(items: ClipboardItemData[]): Promise<void> {
+    this.items = normalizeItems(items, this.retentionLimit);
+  }
+
+  async clear(): Promise<void> {
+    this.items = [];
+  }
+}
+
+// Uses IndexedDB, falling back to localStorage if IndexedDB is missing or fails to open
+class FallbackClipboardStore implements LocalClipboardStore {
+  private active: LocalClipboardStore;
+
+  constructor(private readonly primary: LocalClipboardStore, private readonly fallback: LocalClipboardStore) {
+    this.active = primary;
+  }
+
+  get kind() {
+    return this.active.kind;
+  }
+
+  private async run<T>(operation: (store: LocalClipboardStore) => Promise<T>): Promise<T> {
+    if (this.active === this.primary) {
+      try {
+        return await operation(this.primary);
+      } catch (error) {
+        console.warn(`Local ${this.primary.kind} storage failed, falling back to ${this.fallback.kind}:`, error);
+        this.active = this.fallback;
+      }
+    }
+    return operation(this.active);
+  }
+
+  load() { return this.run(store => store.load()); }
+  save(items: ClipboardItemData[]) { return this.run(store => store.save(items)); }
+  clear() { return this.run(store => store.clear()); }
+}
+
+const isLocalStorageAvailable = (): boolean => {
+  try {
+    return typeof window !== 'undefined' && !!window.localStorage;
+  } catch {
+    return false; // Accessing localStorage throws when storage is disabled
+  }
+};
+
+export const createLocalClipboardStore = ({ retentionLimit = DEFAULT_LOCAL_RETENTION_LIMIT }: LocalClipboardStoreOptions = {}): LocalClipboardStore => {
+  const fallback = isLocalStorageAvailable()
+    ? new LocalStorageClipboardStore(retentionLimit)
+    : new MemoryClipboardStore(retentionLimit);
+  if (typeof indexedDB === 'undefined') {
+    return fallback;
+  }
+  return new FallbackClipboardStore(new IndexedDbClipboardStore(retentionLimit), fallback);
+};
+
+// Turns a data URL (as kept for local attachments) back into a Blob
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export interface LocalMigrationResult {
+  migrated: string[]; // IDs of local items now present in the shared collection
+  failed: string[]; // IDs of local items that could not be copied
+}
+
+// Throws with the API's error message for unsuccessful responses
+const ensureOk = async (response: Response): Promise<Response> => {
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.details || body.error || `HTTP ${response.status}`);
+  }
+  return response;
+};
+
+/**
+ * Copies the local history into a shared collection through the public API.
+ * Items are sent oldest first with their tags, then their pins, stars and local order are applied
+ * with one PATCH /api/clip/[id]/items. Should that fail, the items stay in the collection, newest first.
+ */
+export const migrateLocalHistoryToCollection = async (
+  items: ClipboardItemData[],
+  collectionId: string,
+  encryptionKey?: CryptoKey | null // Required for end-to-end encrypted collections
+): Promise<LocalMigrationResult> => {
+  const result: LocalMigrationResult = { migrated: [], failed: [] };
+  const sharedIds = new Map<string, string>(); // Local item ID -> ID of the copy in the collection
+  const oldestFirst = [...items].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  for (const item of oldestFirst) {
+    try {
+      let response: Response;
+      if (isAttachmentItem(item)) {
+        if (!item.attachment.dataUrl) throw new Error('Attachment data missing.');
+        const blob = await dataUrlToBlob(item.attachment.dataUrl);
+        const file = encryptionKey
+          ? await encryptFile(encryptionKey, blob, item.attachment.filename)
+          : new File([blob], item.attachment.filename, { type: blob.type });
+        const formData = new FormData();
+        formData.append('file', file, file.name);
+        item.tags?.forEach(tag => formData.append('tags', tag));
+        response = await fetchWithSession(collectionId, `/api/clip/upload/${collectionId}`, { method: 'POST', body: formData });
+      } else {
+        const fields = { type: item.type, content: item.content, htmlContent: item.htmlContent };
+        // Tags stay readable in encrypted collections, like the ones added there directly
+        const body = { ...(encryptionKey ? await encryptItemFields(encryptionKey, fields) : fields), tags: item.tags };
+        response = await fetchWithSession(collectionId, `/api/clip/add/${collectionId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+      }
+      const added: ClipboardItemData = await (await ensureOk(response)).json();
+      sharedIds.set(item.id, added.id);
+      result.migrated.push(item.id);
+    } catch (error) {
+      console.error(`Failed to migrate local item ${item.id}:`, error);
+      result.failed.push(item.id);
+    }
+  }
+
+  const migratedItems = sortItems(items).flatMap(item => {
+    const id = sharedIds.get(item.id);
+    return id ? [{ ...item, id }] : [];
+  });
+  const arrangement: ItemArrangement = {
+    flags: migratedItems.filter(item => item.pinned || item.starred).map(({ id, pinned, starred }) => ({ id, pinned: !!pinned, starred: !!starred })),
+    order: migratedItems.map(({ id }) => id),
+  };
+  if (migratedItems.length > 1 || arrangement.flags?.length) {
+    try {
+      await ensureOk(await fetchWithSession(collectionId, `/api/clip/${collectionId}/items`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(arrangement),
+      }));
+    } catch (error) {
+      console.error('Failed to apply pins, stars and order to the migrated items:', error);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,6 @@
+import { describeStoreContract } from '@/test/store-contract';
+import { createMemoryCollectionStore } from '@/lib/memory-storage';
+
+describeStoreContract('memory', {
+  createStore: async now => createMemoryCollectionStore({ now, sweepIntervalMs: 0 }),
+});
@@ -0,0 +1,435 @@
+import { EventEmitter } from 'events';
+import { COLLECTION_EXPIRY_SECONDS, DEFAULT_COLLECTION_EXPIRY } from '@/lib/expiry';
+import { compareEventIds, type StoredCollectionEvent } from '@/lib/events';
+import { applyItemEdit, getItemVersion } from '@/lib/item-history';
+import { arrangeItemList, sortItems } from '@/lib/item-order';
+import { countItemTags } from '@/lib/item-tags';
+import {
+  CollectionFullError,
+  CollectionNotFoundError,
+  ItemVersionConflictError,
+  getItemSizeBytes,
+  isTrashExpired,
+  redactLimitedItem,
+  type CollectionMeta,
+  type CollectionStore,
+} from '@/lib/storage';
+import {
+  MAX_COLLECTION_BYTES,
+  MAX_ITEMS_PER_COLLECTION,
+  type ClipboardItemData,
+  type CollectionExpiry,
+  type CollectionUsage,
+  type SharedClipCollection,
+} from '@/lib/types';
+
+/*
+ * CollectionStore kept in process memory, for running without Redis (local development,
+ * tests). Mirrors the Redis backend's behaviour: TTLs per collection (checked on every
+ * access and swept periodically), quotas, view limits, the trash, unlock sessions, sliding-window
+ * rate limits and a short replayable event log per collection.
+ * Data lives only as long as the process and is not shared between server instances.
+ */
+const MAX_STORED_EVENTS = 200; // Same replay window as the Redis stream
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface MemoryCollection {
+  meta: CollectionMeta;
+  items: Map<string, ClipboardItemData>;
+  trash: Map<string, ClipboardItemData>; // Deleted items (with deletedAt); their blobs stay in `blobs`
+  blobs: Map<string, Buffer>;
+  totalBytes: number;
+  expiresAt: number | null; // Epoch ms; null when the collection never expires
+  sessions: Map<string, number>; // token -> expiry (epoch ms)
+  events: StoredCollectionEvent[];
+}
+
+export interface MemoryCollectionStoreOptions {
+  now?: () => number; // Clock, replaceable for tests
+  sweepIntervalMs?: number; // 0 disables the background sweep (expired data is still ignored on access)
+}
+
+// Items are handed out as copies so callers can never modify stored state by accident
+const cloneItem = (item: ClipboardItemData): ClipboardItemData => structuredClone(item);
+
+// Stream-style event IDs ("<ms>-<seq>"), strictly increasing so Last-Event-ID replay works
+export const createEventIdGenerator = (now: () => number = Date.now) => {
+  let lastEventTime = 0;
+  let lastEventSeq = 0;
+  return (): string => {
+    const time = now();
+    if (time > lastEventTime) {
+      lastEventTime = time;
+      lastEventSeq = 0;
+    } else {
+      lastEventSeq++;
+    }
+    return `${lastEventTime}-${lastEventSeq}`;
+  };
+};
+
+/**
+ * Sliding-window rate limiter kept in process memory, with the same semantics as the Redis
+ * one. `sweep` drops windows that have run out; call it periodically.
+ */
+export const createMemoryRateLimiter = (now: () => number = Date.now) => {
+  const windows = new Map<string, { hits: number[]; expiresAt: number }>();
+
+  const hit: CollectionStore['hitRateLimit'] = async (key, { limit, windowSeconds }) => {
+    const time = now();
+    const windowMs = windowSeconds * 1000;
+    const window = windows.get(key) ?? { hits: [], expiresAt: 0 };
+    window.hits = window.hits.filter(hitTime => hitTime > time - windowMs);
+    window.expiresAt = time + windowMs;
+    windows.set(key, window);
+
+    if (window.hits.length < limit) {
+      window.hits.push(time);
+      return { allowed: true, limit, remaining: limit - window.hits.length, retryAfterSeconds: 0 };
+    }
+    // Rejected requests are not recorded, so hammering a limit does not extend the lockout
+    const retryAfterMs = window.hits[0] + windowMs - time;
+    return { allowed: false, limit, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+  };
+
+  const sweep = () => {
+    const time = now();
+    windows.forEach((window, key) => {
+      if (window.expiresAt <= time) windows.delete(key);
+    });
+  };
+
+  return { hit, sweep };
+};
+
+export const createMemoryCollectionStore = ({
+  now = Date.now,
+  sweepIntervalMs = DEFAULT_SWEEP_INTERVAL_MS,
+}: MemoryCollectionStoreOptions = {}): CollectionStore => {
+  const collections = new Map<string, MemoryCollection>();
+  const readOnlyTokens = new Map<string, string>(); // token -> collection ID
+  const rateLimiter = createMemoryRateLimiter(now);
+  const nextEventId = createEventIdGenerator(now);
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0); // One listener per open event stream
+
+  const isExpired = (collection: MemoryCollection): boolean =>
+    collection.expiresAt !== null && collection.expiresAt <= now();
+
+  const dropCollection = (collectionId: string, collection: MemoryCollection) => {
+    collections.delete(collectionId);
+    if (collection.meta.readOnlyToken) readOnlyTokens.delete(collection.meta.readOnlyToken);
+  };
+
+  // Live collection or CollectionNotFoundError; expired ones are removed on the way
+  const getLive = (collectionId: string): MemoryCollection => {
+    const collection = collections.get(collectionId);
+    if (collection && isExpired(collection)) {
+      dropCollection(collectionId, collection);
+    } else if (collection) {
+      return collection;
+    }
+    throw new CollectionNotFoundError(collectionId);
+  };
+
+  const getExpiresAtIso = (collection: MemoryCollection): string | null =>
+    collection.expiresAt === null ? null : new Date(collection.expiresAt).toISOString();
+
+  const getUsage = (collection: MemoryCollection): CollectionUsage => ({
+    items: collection.items.size,
+    maxItems: MAX_ITEMS_PER_COLLECTION,
+    bytes: collection.totalBytes,
+    maxBytes: MAX_COLLECTION_BYTES,
+  });
+
+  const removeItem = (collection: MemoryCollection, item: ClipboardItemData) => {
+    collection.items.delete(item.id);
+    collection.blobs.delete(item.id);
+    collection.totalBytes -= getItemSizeBytes(item);
+  };
+
+  // Trashed items no longer count against the quotas, but keep their blob until purged
+  const trashItem = (collection: MemoryCollection, item: ClipboardItemData): ClipboardItemData => {
+    const trashed = { ...item, deletedAt: new Date(now()).toISOString() };
+    collection.items.delete(item.id);
+    collection.totalBytes -= getItemSizeBytes(item);
+    collection.trash.set(item.id, trashed);
+    return trashed;
+  };
+
+  const purgeItem = (collection: MemoryCollection, itemId: string) => {
+    collection.trash.delete(itemId);
+    collection.blobs.delete(itemId);
+  };
+
+  const dropExpiredTrash = (collection: MemoryCollection) => {
+    collection.trash.forEach((item, itemId) => {
+      if (isTrashExpired(item, now())) purgeItem(collection, itemId);
+    });
+  };
+
+  const applyExpiry = (collection: MemoryCollection, expiry: CollectionExpiry) => {
+    const seconds = COLLECTION_EXPIRY_SECONDS[expiry];
+    collection.meta.expiry = expiry;
+    collection.expiresAt = seconds === null ? null : now() + seconds * 1000;
+  };
+
+  const sweep = () => {
+    const time = now();
+    collections.forEach((collection, collectionId) => {
+      if (isExpired(collection)) {
+        dropCollection(collectionId, collection);
+        return;
+      }
+      collection.sessions.forEach((expiresAt, token) => {
+        if (expiresAt <= time) collection.sessions.delete(token);
+      });
+      dropExpiredTrash(collection);
+    });
+    rateLimiter.sweep();
+  };
+  if (sweepIntervalMs > 0) {
+    setInterval(sweep, sweepIntervalMs).unref?.();
+  }
+
+  return {
+    backend: 'memory',
+
+    createCollection: async (collectionId, { passwordHash, encrypted = false, expiry = DEFAULT_COLLECTION_EXPIRY, slidingExpiry = false, readOnlyToken } = {}) => {
+      const collection: MemoryCollection = {
+        meta: { id: collectionId, createdAt: new Date(now()).toISOString(), passwordHash, encrypted, expiry, slidingExpiry, readOnlyToken },
+        items: new Map(),
+        trash: new Map(),
+        blobs: new Map(),
+        totalBytes: 0,
+        expiresAt: null,
+        sessions: new Map(),
+        events: [],
+      };
+      applyExpiry(collection, expiry);
+      collections.set(collectionId, collection);
+      if (readOnlyToken) readOnlyTokens.set(readOnlyToken, collectionId);
+
+      return {
+        id: collectionId,
+        items: [],
+        createdAt: collection.meta.createdAt,
+        passwordProtected: !!passwordHash,
+        encrypted,
+        expiry,
+        slidingExpiry,
+        expiresAt: getExpiresAtIso(collection),
+      };
+    },
+
+    getCollection: async (collectionId) => {
+      const collection = getLive(collectionId);
+      const items = sortItems([...collection.items.values()]).map(item => redactLimitedItem(cloneItem(item)));
+      const { meta } = collection;
+      const result: SharedClipCollection = {
+        id: meta.id,
+        createdAt: meta.createdAt,
+        passwordProtected: !!meta.passwordHash,
+        encrypted: meta.encrypted,
+        expiry: meta.expiry,
+        slidingExpiry: meta.slidingExpiry,
+        expiresAt: getExpiresAtIso(collection),
+        usage: getUsage(collection),
+        tagCounts: countItemTags(items),
+        items,
+      };
+      return result;
+    },
+
+    getCollectionMeta: async (collectionId) => ({ ...getLive(collectionId).meta }),
+
+    resolveReadOnlyToken: async (token) => {
+      const collectionId = readOnlyTokens.get(token);
+      if (!collectionId) return null;
+      try {
+        getLive(collectionId);
+        return collectionId;
+      } catch {
+        return null;
+      }
+    },
+
+    setExpiry: async (collectionId, expiry) => {
+      const collection = getLive(collectionId);
+      applyExpiry(collection, expiry);
+      return getExpiresAtIso(collection);
+    },
+
+    touchCollection: async (collectionId, expiry) => {
+      applyExpiry(getLive(collectionId), expiry);
+    },
+
+    getItem: async (collectionId, itemId) => {
+      const item = getLive(collectionId).items.get(itemId);
+      return item ? cloneItem(item) : null;
+    },
+
+    getAttachmentBlob: async (collectionId, itemId) => getLive(collectionId).blobs.get(itemId) ?? null,
+
+    addItem: async (collectionId, item, blob) => {
+      const collection = getLive(collectionId);
+      const usage = getUsage(collection);
+      const itemBytes = getItemSizeBytes(item);
+      if (usage.items >= usage.maxItems || usage.bytes + itemBytes > usage.maxBytes) {
+        throw new CollectionFullError(collectionId, usage.items >= usage.maxItems ? 'items' : 'bytes', usage);
+      }
+      collection.items.set(item.id, cloneItem(item));
+      if (blob) collection.blobs.set(item.id, Buffer.from(blob));
+      collection.totalBytes += itemBytes;
+      return item;
+    },
+
+    addItems: async (collectionId, entries) => {
+      const collection = getLive(collectionId);
+      const usage = getUsage(collection);
+      const addedBytes = entries.reduce((total, { item }) => total + getItemSizeBytes(item), 0);
+      if (usage.items + entries.length > usage.maxItems || usage.bytes + addedBytes > usage.maxBytes) {
+        throw new CollectionFullError(collectionId, usage.items + entries.length > usage.maxItems ? 'items' : 'bytes', usage);
+      }
+      for (const { item, blob } of entries) {
+        collection.items.set(item.id, cloneItem(item));
+        if (blob) collection.blobs.set(item.id, Buffer.from(blob));
+      }
+      collection.totalBytes += addedBytes;
+      return entries.map(({ item }) => item);
+    },
+
+    updateItem: async (collectionId, itemId, edit, expectedVersion) => {
+      const collection = getLive(collectionId);
+      const item = collection.items.get(itemId);
+      if (!item) return null;
+      if (getItemVersion(item) !== expectedVersion) {
+        throw new ItemVersionConflictError(collectionId, cloneItem(item));
+      }
+      const updated = applyItemEdit(item, edit, new Date(now()).toISOString());
+      const byteDelta = getItemSizeBytes(updated) - getItemSizeBytes(item);
+      const usage = getUsage(collection);
+      if (byteDelta > 0 && usage.bytes + byteDelta > usage.maxBytes) {
+        throw new CollectionFullError(collectionId, 'bytes', usage);
+      }
+      collection.items.set(itemId, updated);
+      collection.totalBytes += byteDelta;
+      return cloneItem(updated);
+    },
+
+    arrangeItems: async (collectionId, arrangement) => {
+      const collection = getLive(collectionId);
+      const changed = arrangeItemList([...collection.items.values()], arrangement);
+      changed.forEach(item => collection.items.set(item.id, item));
+      return changed.map(cloneItem);
+    },
+
+    deleteItem: async (collectionId, itemId) => {
+      const collection = getLive(collectionId);
+      const item = collection.items.get(itemId);
+      if (!item) return null;
+      return cloneItem(trashItem(collection, item));
+    },
+
+    deleteItems: async (collectionId, itemIds) => {
+      const collection = getLive(collectionId);
+      const ids = itemIds === 'all' ? [...collection.items.keys()] : [...new Set(itemIds)];
+      const items = ids.flatMap(itemId => collection.items.get(itemId) ?? []);
+      return items.map(item => cloneItem(trashItem(collection, item)));
+    },
+
+    consumeItem: async (collectionId, itemId) => {
+      const collection = getLive(collectionId);
+      const item = collection.items.get(itemId);
+      if (!item) return null;
+      if (item.viewsRemaining === undefined) {
+        return { item: cloneItem(item), deleted: false }; // Unlimited items are simply returned
+      }
+      const viewsRemaining = Math.max(item.viewsRemaining - 1, 0);
+      if (viewsRemaining === 0) {
+        removeItem(collection, item);
+      } else {
+        item.viewsRemaining = viewsRemaining;
+      }
+      return { item: { ...cloneItem(item), viewsRemaining }, deleted: viewsRemaining === 0 };
+    },
+
+    getTrash: async (collectionId) => {
+      const collection = getLive(collectionId);
+      dropExpiredTrash(collection);
+      return [...collection.trash.values()]
+        .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime())
+        .map(item => redactLimitedItem(cloneItem(item)));
+    },
+
+    restoreItems: async (collectionId, itemIds) => {
+      const collection = getLive(collectionId);
+      dropExpiredTrash(collection);
+      const trashed = [...new Set(itemIds)].flatMap(itemId => collection.trash.get(itemId) ?? []);
+      if (trashed.length === 0) return [];
+      const usage = getUsage(collection);
+      const restoredBytes = trashed.reduce((total, item) => total + getItemSizeBytes(item), 0);
+      if (usage.items + trashed.length > usage.maxItems || usage.bytes + restoredBytes > usage.maxBytes) {
+        throw new CollectionFullError(collectionId, usage.items + trashed.length > usage.maxItems ? 'items' : 'bytes', usage);
+      }
+      return trashed.map(({ deletedAt, ...item }) => {
+        collection.trash.delete(item.id);
+        collection.items.set(item.id, item);
+        collection.totalBytes += getItemSizeBytes(item);
+        return cloneItem(item);
+      });
+    },
+
+    purgeTrash: async (collectionId, itemIds) => {
+      const collection = getLive(collectionId);
+      const ids = itemIds === 'all' ? [...collection.trash.keys()] : [...new Set(itemIds)].filter(itemId => collection.trash.has(itemId));
+      ids.forEach(itemId => purgeItem(collection, itemId));
+      return ids;
+    },
+
+    saveSession: async (collectionId, token, ttlMs) => {
+      const collection = getLive(collectionId);
+      const expiresAt = Math.min(now() + ttlMs, collection.expiresAt ?? Infinity);
+      collection.sessions.set(token, expiresAt);
+      return new Date(expiresAt).toISOString();
+    },
+
+    hasSession: async (collectionId, token) => {
+      const expiresAt = collections.get(collectionId)?.sessions.get(token);
+      return expiresAt !== undefined && expiresAt > now();
+    },
+
+    hitRateLimit: rateLimiter.hit,
+
+    publishEvent: async (collectionId, event) => {
+      const collection = collections.get(collectionId);
+      if (!collection || isExpired(collection)) return null;
+      const stored: StoredCollectionEvent = { id: nextEventId(), event: structuredClone(event) };
+      collection.events.push(stored);
+      if (collection.events.length > MAX_STORED_EVENTS) collection.events.shift();
+      emitter.emit(collectionId, stored);
+      return stored.id;
+    },
+
+    getEventsSince: async (collectionId, lastEventId) =>
+      (collections.get(collectionId)?.events ?? []).filter(({ id }) => compareEventIds(id, lastEventId) > 0),
+
+    subscribe: async (collectionId, listener) => {
+      emitter.on(collectionId, listener);
+      return async () => {
+        emitter.off(collectionId, listener);
+      };
+    },
+  };
+};
+
+// One store per server process, kept on globalThis so development hot reloads do not wipe it
+const globalForStore = globalThis as typeof globalThis & { __crossclipMemoryStore?: CollectionStore };
+
+export const getMemoryCollectionStore = (): CollectionStore => {
+  if (!globalForStore.__crossclipMemoryStore) {
+    console.warn('Using the in-memory collection store: data is lost on restart and not shared between server instances.');
+    globalForStore.__crossclipMemoryStore = createMemoryCollectionStore();
+  }
+  return globalForStore.__crossclipMemoryStore;
+};
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMutationQueue } from '@/lib/mutation-queue';
+
+const respond = (status: number) => new Response(null, { status });
+
+beforeEach(() => {
+  vi.stubGlobal('window', new EventTarget()); // wait() listens for 'online'
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createMutationQueue', () => {
+  const queue = () => createMutationQueue({ maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 });
+
+  it('does not repeat a non-idempotent request after a network error', async () => {
+    const request = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(queue().run(request)).rejects.toThrow('Failed to fetch');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([408, 502, 504])('returns %i for a non-idempotent request without repeating it', async status => {
+    const request = vi.fn().mockResolvedValue(respond(status));
+    expect((await queue().run(request)).status).toBe(status);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([409, 425, 429, 503])('repeats a non-idempotent request after %i', async status => {
+    const request = vi.fn().mockResolvedValueOnce(respond(status)).mockResolvedValue(respond(201));
+    expect((await queue().run(request)).status).toBe(201);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('repeats an idempotent request after a network error or a gateway error', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(respond(504))
+      .mockResolvedValue(respond(200));
+    expect((await queue().run(request, { idempotent: true })).status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last response once attempts run out', async () => {
+    const request = vi.fn().mockResolvedValue(respond(503));
+    expect((await queue().run(request)).status).toBe(503);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,150 @@
+// Browser-side queue for shared-collection mutations (add, upload, edit, delete, reveal).
+// Mutations run one at a time in the order they were made. A mutation that fails for a
+// transient reason (network error, 409 conflict, 429 rate limit, 502-504) stays at the head
+// of the queue and is retried with exponential backoff and jitter, honouring Retry-After.
+// While the browser is offline the queue waits for connectivity without using up attempts.
+//
+// Only idempotent mutations are retried blindly. After a network error, 408, 502 or 504 the
+// server may already have committed the first attempt, so repeating an add, upload or
+// reveal could duplicate the item or burn another view; those are retried only on statuses
+// that prove the request was rejected before anything was written.
+
+// Statuses worth repeating an idempotent request for; everything else is returned to the caller
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 502, 503, 504]);
+
+// Statuses our API only returns before committing anything, safe to repeat any request for
+const UNCOMMITTED_STATUSES = new Set([409, 425, 429, 503]);
+
+export interface MutationQueueOptions {
+  maxAttempts?: number; // Including the first attempt
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onStatusChange?: (status: MutationQueueStatus) => void;
+}
+
+export interface MutationQueueStatus {
+  pending: number; // Mutations waiting or in flight
+  retrying: boolean; // True while the head mutation waits for its next attempt (or for connectivity)
+}
+
+export interface MutationOptions {
+  idempotent?: boolean; // Repeating the request cannot apply it twice (DELETE, versioned PATCH, ...). Defaults to false
+}
+
+export interface MutationQueue {
+  // Resolves with the first non-retryable response (or the last one once attempts run out)
+  run: (request: () => Promise<Response>, options?: MutationOptions) => Promise<Response>;
+}
+
+interface QueuedMutation {
+  request: () => Promise<Response>;
+  idempotent: boolean;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+const isRetryableResponse = (response: Response, idempotent: boolean): boolean =>
+  (idempotent ? RETRYABLE_STATUSES : UNCOMMITTED_STATUSES).has(response.status);
+
+// Seconds (or an HTTP date) from a Retry-After header, in milliseconds
+const getRetryAfterMs = (response: Response): number | null => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const createMutationQueue = ({
+  maxAttempts = 5,
+  baseDelayMs = 500,
+  maxDelayMs = 15_000,
+  onStatusChange,
+}: MutationQueueOptions = {}): MutationQueue => {
+  const queue: QueuedMutation[] = [];
+  let isRunning = false;
+  let isRetrying = false;
+
+  const notify = () => onStatusChange?.({ pending: queue.length, retrying: isRetrying });
+  const setRetrying = (retrying: boolean) => {
+    if (retrying === isRetrying) return;
+    isRetrying = retrying;
+    notify();
+  };
+
+  // Resolves after `ms`, or earlier when the browser comes back online
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    window.addEventListener('online', done);
+  });
+
+  const waitForConnectivity = async () => {
+    while (isOffline()) {
+      setRetrying(true);
+      await wait(maxDelayMs);
+    }
+  };
+
+  const execute = async ({ request, idempotent }: QueuedMutation): Promise<Response> => {
+    for (let attempt = 1; ; attempt++) {
+      await waitForConnectivity();
+
+      let response: Response | null = null;
+      let networkError: unknown = null;
+      try {
+        response = await request();
+      } catch (error) {
+        networkError = error; // fetch() only rejects when the request never got a response
+      }
+
+      if (response && !isRetryableResponse(response, idempotent)) return response;
+      if (networkError && !idempotent) throw networkError; // It may have reached the server before failing
+      if (networkError && isOffline()) {
+        attempt--; // Time spent offline does not count against the attempts
+        continue;
+      }
+      if (attempt >= maxAttempts) {
+        if (response) return response;
+        throw networkError;
+      }
+
+      const backoffMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const retryAfterMs = response ? getRetryAfterMs(response) : null;
+      setRetrying(true);
+      await wait(retryAfterMs !== null ? Math.min(retryAfterMs + backoffMs / 2, maxDelayMs * 4) : backoffMs);
+    }
+  };
+
+  const drain = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    while (queue.length > 0) {
+      const mutation = queue[0];
+      try {
+        mutation.resolve(await execute(mutation));
+      } catch (error) {
+        mutation.reject(error);
+      }
+      queue.shift();
+      isRetrying = false;
+      notify();
+    }
+    isRunning = false;
+  };
+
+  return {
+    run: (request, { idempotent = false } = {}) => new Promise<Response>((resolve, reject) => {
+      queue.push({ request, idempotent, resolve, reject });
+      notify();
+      void drain();
+    }),
+  };
+};
@@ -0,0 +1,139 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RedisClientType } from 'redis';
+import { startFakeRedis, type FakeRedis } from '@/test/fake-redis';
+import { checkRateLimit, enforceRateLimit, getClientIp } from '@/lib/rate-limit';
+import { TooManyRequestsError } from '@/lib/api-errors';
+import type { CollectionStore } from '@/lib/storage';
+
+const requestFrom = (headers: Record<string, string>) => new Request('http://localhost/api/clip/abc', { headers });
+
+describe('checkRateLimit', () => {
+  let fake: FakeRedis;
+  let redis: RedisClientType;
+  const rule = { limit: 3, windowSeconds: 60 };
+
+  beforeAll(async () => {
+    fake = await startFakeRedis();
+    redis = await fake.connect();
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] }); // Only the clock: the Redis client still needs real timers
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fake.flushAll();
+  });
+
+  it('allows up to the limit within the window, then rejects', async () => {
+    const remaining = [];
+    for (let i = 0; i < 3; i++) {
+      remaining.push((await checkRateLimit(redis, 'ratelimit:test', rule)).remaining);
+      vi.advanceTimersByTime(10_000);
+    }
+    expect(remaining).toEqual([2, 1, 0]);
+
+    expect(await checkRateLimit(redis, 'ratelimit:test', rule)).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      retryAfterSeconds: 30, // The first request leaves the window 60 s after it was made
+    });
+  });
+
+  it('slides: each request frees its slot one window after it was made', async () => {
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit(redis, 'ratelimit:test', rule);
+      vi.advanceTimersByTime(10_000);
+    }
+    vi.setSystemTime(new Date('2026-01-01T00:01:00.000Z'));
+    expect((await checkRateLimit(redis, 'ratelimit:test', rule)).allowed).toBe(true);
+    expect((await checkRateLimit(redis, 'ratelimit:test', rule)).allowed).toBe(false);
+    vi.advanceTimersByTime(10_000);
+    expect((await checkRateLimit(redis, 'ratelimit:test', rule)).allowed).toBe(true);
+  });
+
+  it('does not count rejected requests', async () => {
+    for (let i = 0; i < 10; i++) await checkRateLimit(redis, 'ratelimit:test', rule);
+    expect(await redis.zCard('ratelimit:test')).toBe(3);
+    vi.advanceTimersByTime(60_000);
+    expect((await checkRateLimit(redis, 'ratelimit:test', rule)).remaining).toBe(2);
+  });
+
+  it('keeps separate windows per key', async () => {
+    for (let i = 0; i < 3; i++) await checkRateLimit(redis, 'ratelimit:a', rule);
+    expect((await checkRateLimit(redis, 'ratelimit:a', rule)).allowed).toBe(false);
+    expect((await checkRateLimit(redis, 'ratelimit:b', rule)).allowed).toBe(true);
+  });
+});
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('takes the hop added by the proxy, not the one sent by the client', () => {
+    expect(getClientIp(requestFrom({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(requestFrom({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('skips the hops of further trusted proxies', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2');
+    expect(getClientIp(requestFrom({ 'x-forwarded-for': 'spoofed, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    expect(getClientIp(requestFrom({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP, and to null rather than a shared bucket', () => {
+    expect(getClientIp(requestFrom({ 'x-real-ip': '203.0.113.9' }))).toBe('203.0.113.9');
+    expect(getClientIp(requestFrom({}))).toBeNull();
+  });
+});
+
+describe('enforceRateLimit', () => {
+  const hitRateLimit = vi.fn<CollectionStore['hitRateLimit']>();
+  const resolveReadOnlyToken = vi.fn<CollectionStore['resolveReadOnlyToken']>();
+  const store = { hitRateLimit, resolveReadOnlyToken } as unknown as CollectionStore;
+
+  beforeEach(() => {
+    hitRateLimit.mockResolvedValue({ allowed: true, limit: 10, remaining: 9, retryAfterSeconds: 0 });
+    resolveReadOnlyToken.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const keys = () => hitRateLimit.mock.calls.map(([key]) => key);
+
+  it('counts read-only links against the collection they belong to', async () => {
+    resolveReadOnlyToken.mockResolvedValue('abc');
+    await enforceRateLimit(store, requestFrom({ 'x-forwarded-for': '203.0.113.7' }), 'unlock', 'ro_token');
+    await enforceRateLimit(store, requestFrom({ 'x-forwarded-for': '203.0.113.7' }), 'unlock', 'abc');
+
+    expect(resolveReadOnlyToken).toHaveBeenCalledWith('ro_token');
+    expect(keys()).toEqual([
+      'ratelimit:unlock:ip:203.0.113.7',
+      'ratelimit:unlock:collection:abc',
+      'ratelimit:unlock:ip:203.0.113.7',
+      'ratelimit:unlock:collection:abc',
+    ]);
+  });
+
+  it('skips IP rules for requests without a client address', async () => {
+    await enforceRateLimit(store, requestFrom({}), 'unlock', 'abc');
+    expect(keys()).toEqual(['ratelimit:unlock:collection:abc']);
+  });
+
+  it('throws TooManyRequestsError with the retry delay', async () => {
+    hitRateLimit.mockResolvedValue({ allowed: false, limit: 10, remaining: 0, retryAfterSeconds: 42 });
+    const error = await enforceRateLimit(store, requestFrom({ 'x-forwarded-for': '203.0.113.7' }), 'unlock', 'abc').catch(e => e);
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect(error.headers).toMatchObject({ 'Retry-After': '42' });
+  });
+});
@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import type { RedisClientType } from 'redis';
+import { TooManyRequestsError } from '@/lib/api-errors';
+import { isReadOnlyToken, type CollectionStore } from '@/lib/storage';
+
+/*
+ * Sliding-window rate limiting backed by Redis sorted sets.
+ *
+ *   ratelimit:{route}:{scope}:{subject}   sorted set   one member per accepted request, scored by time (ms)
+ *
+ * Each check drops members older than the window, adds the current request and counts.
+ * Rejected requests are removed again, so hammering a limit does not extend the lockout.
+ *
+ * Limits can be overridden per route and scope with environment variables of the form
+ * RATE_LIMIT_<ROUTE>_<SCOPE>="<requests>/<seconds>" (e.g. RATE_LIMIT_ADD_COLLECTION="200/60"),
+ * and disabled entirely with RATE_LIMIT_DISABLED=1. Behind more than one proxy, set
+ * TRUSTED_PROXY_COUNT so that client IPs are read from the right X-Forwarded-For hop.
+ */
+export type RateLimitScope = 'ip' | 'collection';
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+}
+
+export type RateLimitedRoute = 'create' | 'read' | 'add' | 'upload' | 'update' | 'delete' | 'unlock' | 'extend' | 'consume';
+
+const DEFAULT_RULES: Record<RateLimitedRoute, RateLimitRule[]> = {
+  create: [{ scope: 'ip', limit: 20, windowSeconds: 60 * 60 }],
+  read: [{ scope: 'ip', limit: 300, windowSeconds: 60 }],
+  add: [
+    { scope: 'ip', limit: 60, windowSeconds: 60 },
+    { scope: 'collection', limit: 120, windowSeconds: 60 },
+  ],
+  upload: [
+    { scope: 'ip', limit: 20, windowSeconds: 60 },
+    { scope: 'collection', limit: 40, windowSeconds: 60 },
+  ],
+  update: [
+    { scope: 'ip', limit: 60, windowSeconds: 60 },
+    { scope: 'collection', limit: 120, windowSeconds: 60 },
+  ],
+  delete: [{ scope: 'ip', limit: 120, windowSeconds: 60 }],
+  // Slows down passphrase guessing
+  unlock: [
+    { scope: 'ip', limit: 10, windowSeconds: 15 * 60 },
+    { scope: 'collection', limit: 30, windowSeconds: 15 * 60 },
+  ],
+  extend: [{ scope: 'ip', limit: 30, windowSeconds: 60 }],
+  consume: [{ scope: 'ip', limit: 60, windowSeconds: 60 }],
+};
+
+const getRuleOverride = (route: RateLimitedRoute, rule: RateLimitRule): RateLimitRule => {
+  const override = process.env[`RATE_LIMIT_${route.toUpperCase()}_${rule.scope.toUpperCase()}`];
+  const match = override?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (!match) return rule;
+  return { ...rule, limit: Number(match[1]), windowSeconds: Number(match[2]) };
+};
+
+export const getRateLimitRules = (route: RateLimitedRoute): RateLimitRule[] =>
+  DEFAULT_RULES[route].map(rule => getRuleOverride(route, rule));
+
+// Proxies in front of the app that append to X-Forwarded-For (TRUSTED_PROXY_COUNT, default 1)
+const getTrustedProxyCount = (): number => {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count >= 1 ? count : 1;
+};
+
+/**
+ * Address of the client as seen by the outermost trusted proxy. Clients can send any
+ * X-Forwarded-For they like, and each proxy only appends the address it received the request
+ * from, so only the hops added by trusted proxies (counted from the right) are reliable.
+ * Next.js fills the header from the socket address when a request arrives without one.
+ * Falls back to X-Real-IP; returns null when neither header is present.
+ */
+export const getClientIp = (request: Request): string | null => {
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - getTrustedProxyCount())];
+  return request.headers.get('x-real-ip')?.trim() || null;
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export const checkRateLimit = async (
+  redis: RedisClientType,
+  key: string,
+  { limit, windowSeconds }: Pick<RateLimitRule, 'limit' | 'windowSeconds'>
+): Promise<RateLimitResult> => {
+  const now = Date.now();
+  const windowMs = windowSeconds * 1000;
+  const member = `${now}-${randomUUID()}`;
+
+  const replies = await redis.multi()
+    .zRemRangeByScore(key, 0, now - windowMs)
+    .zAdd(key, { score: now, value: member })
+    .zCard(key)
+    .pExpire(key, windowMs)
+    .exec();
+  const count = Number(replies[2]);
+
+  if (count <= limit) {
+    return { allowed: true, limit, remaining: limit - count, retryAfterSeconds: 0 };
+  }
+
+  await redis.zRem(key, member);
+  const [oldest] = await redis.zRangeWithScores(key, 0, 0);
+  const retryAfterMs = oldest ? oldest.score + windowMs - now : windowMs;
+  return { allowed: false, limit, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+};
+
+/**
+ * Applies every rule configured for a route and throws TooManyRequestsError (429) when a
+ * limit is exceeded. `collectionRef` is the ID (or read-only token) from the URL; tokens are
+ * resolved, so collection-scoped rules count both links of a collection together. Requests
+ * without a client address skip the IP-scoped rules.
+ * Redis failures are logged and let the request through: rate limiting must not take
+ * the API down with it.
+ */
+export const enforceRateLimit = async (
+  store: CollectionStore,
+  request: Request,
+  route: RateLimitedRoute,
+  collectionRef?: string
+): Promise<void> => {
+  if (process.env.RATE_LIMIT_DISABLED === '1') return;
+
+  let exceeded: { rule: RateLimitRule; result: RateLimitResult } | null = null;
+  try {
+    let collectionId: string | undefined;
+    for (const rule of getRateLimitRules(route)) {
+      if (rule.scope === 'collection' && collectionRef && collectionId === undefined) {
+        // Unknown tokens keep their own bucket; the route answers 404 for them anyway
+        collectionId = isReadOnlyToken(collectionRef) ? (await store.resolveReadOnlyToken(collectionRef)) ?? collectionRef : collectionRef;
+      }
+      const subject = rule.scope === 'ip' ? getClientIp(request) : collectionId;
+      if (!subject) continue;
+
+      const result = await store.hitRateLimit(`ratelimit:${route}:${rule.scope}:${subject}`, rule);
+      if (!result.allowed) {
+        exceeded = { rule, result };
+        break;
+      }
+    }
+  } catch (error) {
+    console.error(`Rate limit check failed for route "${route}"; allowing request:`, error);
+  }
+
+  if (exceeded) {
+    const { rule, result } = exceeded;
+    throw new TooManyRequestsError(
+      rule.scope === 'ip'
+        ? `Rate limit exceeded. Try again in ${result.retryAfterSeconds} seconds.`
+        : `This clipboard is receiving too many requests. Try again in ${result.retryAfterSeconds} seconds.`,
+      result.retryAfterSeconds,
+      result.limit
+    );
+  }
+};
@@ -0,0 +1,29 @@
+import { afterAll, beforeAll, vi } from 'vitest';
+import type { RedisClientType } from 'redis';
+import { startFakeRedis, type FakeRedis } from '@/test/fake-redis';
+import { describeStoreContract } from '@/test/store-contract';
+import { createRedisCollectionStore } from '@/lib/redis-storage';
+
+let fake: FakeRedis;
+let redis: RedisClientType;
+
+// withOptimisticRetry takes its isolated connections from the shared client
+vi.mock('@/lib/redis', () => ({
+  getRedisClient: async () => redis,
+  getRedisInitializationError: () => null,
+}));
+
+beforeAll(async () => {
+  fake = await startFakeRedis();
+  redis = await fake.connect();
+});
+
+afterAll(async () => {
+  await fake.close();
+});
+
+describeStoreContract('redis', {
+  createStore: async () => createRedisCollectionStore(redis),
+  cleanup: async () => fake.flushAll(),
+  fakeSystemClock: true,
+});
@@ -0,0 +1,116 @@
+import { commandOptions, type RedisClientType } from 'redis';
+import { getRedisClient, getRedisInitializationError } from '@/lib/redis';
+import { withOptimisticRetry } from '@/lib/redis-transaction';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getEventsSince, publishCollectionEvent, subscribeToCollectionEvents } from '@/lib/events';
+import { getAttachmentBlobKey } from '@/lib/attachments';
+import { ServerConfigError, StorageUnavailableError } from '@/lib/api-errors';
+import {
+  addItem,
+  addItems,
+  arrangeItems,
+  consumeItem,
+  createCollection,
+  deleteItem,
+  deleteItems,
+  getCollection,
+  getCollectionMeta,
+  getCollectionMetaKey,
+  getItem,
+  getReadOnlyTokenKey,
+  getSessionKey,
+  getTrash,
+  purgeExpiredTrash,
+  purgeTrash,
+  restoreItems,
+  setCollectionExpiry,
+  updateItem,
+} from '@/lib/collection-store';
+import { CollectionConflictError, type CollectionStore } from '@/lib/storage';
+
+// Best effort, like touchCollection: a trash that is busy right now gets cleaned up on the next call
+const dropExpiredTrash = async (collectionId: string) => {
+  try {
+    await withOptimisticRetry(client => purgeExpiredTrash(client, collectionId), { maxAttempts: 2 });
+  } catch (error) {
+    if (!(error instanceof CollectionConflictError)) throw error;
+  }
+};
+
+// CollectionStore backed by the Redis layout in collection-store.ts. Writes run on isolated connections and retry WATCH conflicts.
+export const createRedisCollectionStore = (redis: RedisClientType): CollectionStore => ({
+  backend: 'redis',
+
+  createCollection: (collectionId, options) => createCollection(redis, collectionId, options),
+  getCollection: (collectionId) => getCollection(redis, collectionId),
+  getCollectionMeta: (collectionId) => getCollectionMeta(redis, collectionId),
+  resolveReadOnlyToken: (token) => redis.get(getReadOnlyTokenKey(token)),
+
+  setExpiry: (collectionId, expiry) => withOptimisticRetry(client => setCollectionExpiry(client, collectionId, expiry)),
+  touchCollection: async (collectionId, expiry) => {
+    try {
+      await withOptimisticRetry(client => setCollectionExpiry(client, collectionId, expiry), { maxAttempts: 2 });
+    } catch (error) {
+      // Still conflicting after a retry: skip this refresh rather than slow the read down, the next read refreshes
+      if (!(error instanceof CollectionConflictError)) throw error;
+    }
+  },
+
+  getItem: (collectionId, itemId) => getItem(redis, collectionId, itemId),
+  getAttachmentBlob: (collectionId, itemId) =>
+    redis.get(commandOptions({ returnBuffers: true }), getAttachmentBlobKey(collectionId, itemId)),
+  addItem: (collectionId, item, blob) => withOptimisticRetry(client => addItem(client, collectionId, item, blob)),
+  addItems: (collectionId, entries) => withOptimisticRetry(client => addItems(client, collectionId, entries)),
+  updateItem: (collectionId, itemId, edit, expectedVersion) =>
+    withOptimisticRetry(client => updateItem(client, collectionId, itemId, edit, expectedVersion)),
+  arrangeItems: (collectionId, arrangement) => withOptimisticRetry(client => arrangeItems(client, collectionId, arrangement)),
+  // Deleting is what fills the trash, so it also clears out what has expired there
+  deleteItem: async (collectionId, itemId) => {
+    const item = await withOptimisticRetry(client => deleteItem(client, collectionId, itemId));
+    await dropExpiredTrash(collectionId);
+    return item;
+  },
+  deleteItems: async (collectionId, itemIds) => {
+    const items = await withOptimisticRetry(client => deleteItems(client, collectionId, itemIds));
+    await dropExpiredTrash(collectionId);
+    return items;
+  },
+  consumeItem: (collectionId, itemId) => consumeItem(redis, collectionId, itemId),
+
+  getTrash: async (collectionId) => {
+    await dropExpiredTrash(collectionId);
+    return getTrash(redis, collectionId);
+  },
+  restoreItems: (collectionId, itemIds) => withOptimisticRetry(client => restoreItems(client, collectionId, itemIds)),
+  purgeTrash: (collectionId, itemIds) => withOptimisticRetry(client => purgeTrash(client, collectionId, itemIds)),
+
+  saveSession: async (collectionId, token, ttlMs) => {
+    const collectionTTL = await redis.pTTL(getCollectionMetaKey(collectionId));
+    const sessionTTL = collectionTTL > 0 ? Math.min(collectionTTL, ttlMs) : ttlMs;
+    await redis.set(getSessionKey(collectionId, token), '1', { PX: sessionTTL });
+    return new Date(Date.now() + sessionTTL).toISOString();
+  },
+  hasSession: async (collectionId, token) => (await redis.exists(getSessionKey(collectionId, token))) > 0,
+
+  hitRateLimit: (key, rule) => checkRateLimit(redis, key, rule),
+
+  publishEvent: (collectionId, event) => publishCollectionEvent(redis, collectionId, event),
+  getEventsSince: (collectionId, lastEventId) => getEventsSince(redis, collectionId, lastEventId),
+  subscribe: (collectionId, listener) => subscribeToCollectionEvents(redis, collectionId, listener),
+});
+
+/**
+ * Connects the shared client and wraps it. Runtime client errors ("Redis Client Error: ...")
+ * may clear on reconnect; any other initialization error is a setup problem.
+ */
+export const connectRedisCollectionStore = async (): Promise<CollectionStore> => {
+  const initError = getRedisInitializationError();
+  if (initError && !initError.startsWith('Redis Client Error')) {
+    throw new ServerConfigError(initError);
+  }
+  try {
+    return createRedisCollectionStore(await getRedisClient());
+  } catch (error) {
+    throw new StorageUnavailableError(error instanceof Error ? error.message : 'Could not connect to Redis.', error);
+  }
+};
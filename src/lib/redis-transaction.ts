@@ -0,0 +1,53 @@
+import type { RedisClientType } from 'redis';
+import { getRedisClient } from '@/lib/redis';
+import { CollectionConflictError } from '@/lib/storage';
+
+/*
+ * Retries for optimistic (WATCH/MULTI/EXEC) transactions.
+ *
+ * WATCH state belongs to the connection: on the shared client, one request's EXEC or UNWATCH
+ * would clear every other request's watches. Each attempt therefore runs on a connection of
+ * its own from the client's isolation pool.
+ *
+ * Store functions throw CollectionConflictError when a WATCHed key changed before EXEC.
+ * Nothing was written in that case, so the whole read-check-write sequence can simply run
+ * again. Attempts are spaced with exponential backoff and full jitter so that requests
+ * which collided once do not collide again on the next round.
+ */
+export interface OptimisticRetryOptions {
+  maxAttempts?: number; // Including the first attempt
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 20;
+const DEFAULT_MAX_DELAY_MS = 500;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Random delay between 0 and the exponential cap for the given (1-based) attempt
+export const getRetryDelayMs = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+/**
+ * Runs `operation` on an isolated connection, repeating it when it fails with a
+ * CollectionConflictError. Any other error, or a conflict on the last attempt, is rethrown,
+ * so routes only answer 409 once the retries are used up.
+ */
+export const withOptimisticRetry = async <T>(
+  operation: (redis: RedisClientType) => Promise<T>,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS }: OptimisticRetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const redis = await getRedisClient();
+    try {
+      return await redis.executeIsolated(isolated => operation(isolated));
+    } catch (error) {
+      if (!(error instanceof CollectionConflictError) || attempt >= maxAttempts) {
+        throw error;
+      }
+      await sleep(getRetryDelayMs(attempt, baseDelayMs, maxDelayMs));
+    }
+  }
+};
@@ -2,6 +2,8 @@
 import { createClient, type RedisClientType, type RedisClientOptions } from 'redis';
 
 const redisUrl = process.env.REDIS_URL;
+// Connections for WATCH/MULTI/EXEC transactions (see redis-transaction.ts), opened on demand
+const ISOLATION_POOL_SIZE = 10;
 let redisClient: RedisClientType | null = null;
 let initializationError: string | null = null;
 let connectionPromise: Promise<void> | null = null;
@@ -22,6 +24,7 @@ if (redisUrl && (redisUrl.startsWith('redis://') || redisUrl.startsWith('rediss:
     try {
         const clientOptions: RedisClientOptions = {
             url: redisUrl,
+            isolationPoolOptions: { max: ISOLATION_POOL_SIZE },
             // Add socket options if needed, e.g., for timeouts or TLS with rediss://
             // socket: {
             //     connectTimeout: 10000, // 10 seconds
@@ -0,0 +1,208 @@
+import type { RateLimitResult, RateLimitRule } from '@/lib/rate-limit';
+import type { StoredCollectionEvent } from '@/lib/events';
+import { getItemVersion, type ClipboardItemEdit } from '@/lib/item-history';
+import type {
+  ClipboardItemData,
+  CollectionEvent,
+  ItemArrangement,
+  CollectionExpiry,
+  CollectionUsage,
+  SharedClipCollection,
+} from '@/lib/types';
+
+/*
+ * Storage contract for shared collections. API routes only talk to a CollectionStore;
+ * which backend implements it is chosen by configuration (see `getCollectionStore`):
+ *
+ *   redis    persistent, shared between server instances (collection-store.ts, redis-storage.ts)
+ *   file     JSON files in one directory (STORAGE_DIR), for single-instance deployments
+ *            without Redis (file-storage.ts)
+ *   memory   in-process maps with TTLs, for local development and tests (memory-storage.ts);
+ *            everything is lost on restart and each server instance has its own data
+ */
+export type StorageBackend = 'redis' | 'file' | 'memory';
+
+// Read-only links use an opaque token instead of the collection ID
+export const READ_ONLY_TOKEN_PREFIX = 'ro_';
+export const isReadOnlyToken = (value: string): boolean => value.startsWith(READ_ONLY_TOKEN_PREFIX);
+
+export class CollectionNotFoundError extends Error {
+  constructor(collectionId: string) {
+    super(`Collection ${collectionId} not found.`);
+    this.name = 'CollectionNotFoundError';
+  }
+}
+
+// Thrown when a concurrent write won the race (Redis WATCH); the caller may retry
+export class CollectionConflictError extends Error {
+  constructor(collectionId: string) {
+    super(`Collection ${collectionId} was updated concurrently.`);
+    this.name = 'CollectionConflictError';
+  }
+}
+
+// Thrown by addItem when the item would exceed the collection's item or byte quota
+export class CollectionFullError extends Error {
+  constructor(collectionId: string, public readonly quota: 'items' | 'bytes', public readonly usage: CollectionUsage) {
+    super(`Collection ${collectionId} has reached its ${quota} quota.`);
+    this.name = 'CollectionFullError';
+  }
+}
+
+// Thrown by updateItem when the item is no longer at the version the edit was based on
+export class ItemVersionConflictError extends Error {
+  constructor(collectionId: string, public readonly current: ClipboardItemData) {
+    super(`Item ${current.id} in collection ${collectionId} is at version ${getItemVersion(current)}.`);
+    this.name = 'ItemVersionConflictError';
+  }
+}
+
+export class CorruptCollectionError extends Error {
+  constructor(collectionId: string, details: string) {
+    super(`Collection ${collectionId} has corrupted data: ${details}`);
+    this.name = 'CorruptCollectionError';
+  }
+}
+
+// Collection-level fields, as stored by every backend
+export interface CollectionMeta {
+  id: string;
+  createdAt: string;
+  passwordHash?: string; // Salted scrypt hash, see collection-auth.ts
+  encrypted: boolean; // End-to-end encrypted: the server only ever stores ciphertext
+  expiry: CollectionExpiry;
+  slidingExpiry: boolean;
+  readOnlyToken?: string; // Collections created before read-only links have none
+}
+
+export interface CreateCollectionOptions {
+  passwordHash?: string;
+  encrypted?: boolean;
+  expiry?: CollectionExpiry;
+  slidingExpiry?: boolean; // Restart the countdown on every read
+  readOnlyToken?: string; // Opaque token for the view-only link
+}
+
+// One item of a bulk add, with the bytes of its attachment if it has one
+export interface NewItemEntry {
+  item: ClipboardItemData;
+  blob?: Buffer;
+}
+
+export interface ConsumeResult {
+  item: ClipboardItemData; // Full content, with `viewsRemaining` already decremented
+  deleted: boolean; // True when this was the last allowed view
+}
+
+// Deleted items stay restorable this long (or until the collection itself expires)
+export const TRASH_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashExpired = (item: ClipboardItemData, now: number = Date.now()): boolean =>
+  item.deletedAt !== undefined && new Date(item.deletedAt).getTime() + TRASH_RETENTION_MS <= now;
+
+// View-limited items are listed without their content; it is only released by `consumeItem`
+export const redactLimitedItem = (item: ClipboardItemData): ClipboardItemData =>
+  item.viewsRemaining === undefined ? item : { ...item, content: '', htmlContent: undefined };
+
+// Bytes an item counts against the collection quota: its text fields (edit history included) plus any attachment blob
+export const getItemSizeBytes = (item: ClipboardItemData): number =>
+  Buffer.byteLength(item.content) + Buffer.byteLength(item.htmlContent ?? '') + (item.attachment?.size ?? 0) +
+  (item.history ?? []).reduce((total, revision) => total + Buffer.byteLength(revision.content) + Buffer.byteLength(revision.htmlContent ?? ''), 0);
+
+export type CollectionEventListener = (stored: StoredCollectionEvent) => void;
+
+/**
+ * Everything the API needs from storage. Methods throw CollectionNotFoundError for
+ * unknown or expired collections unless noted otherwise; write methods retry internal
+ * conflicts themselves and only throw CollectionConflictError once they give up.
+ */
+export interface CollectionStore {
+  readonly backend: StorageBackend;
+
+  // --- Collections ---
+  createCollection(collectionId: string, options?: CreateCollectionOptions): Promise<SharedClipCollection>;
+  getCollection(collectionId: string): Promise<SharedClipCollection>; // View-limited items come back redacted
+  getCollectionMeta(collectionId: string): Promise<CollectionMeta>;
+  resolveReadOnlyToken(token: string): Promise<string | null>; // Collection ID behind a read-only link
+
+  // --- Expiry ---
+  // Applies a preset to the whole collection, counted from now; returns the new expiry time (null = never)
+  setExpiry(collectionId: string, expiry: CollectionExpiry): Promise<string | null>;
+  // Sliding expiry: restarts the collection's current preset. Best effort; never throws on conflicts.
+  touchCollection(collectionId: string, expiry: CollectionExpiry): Promise<void>;
+
+  // --- Items ---
+  getItem(collectionId: string, itemId: string): Promise<ClipboardItemData | null>;
+  getAttachmentBlob(collectionId: string, itemId: string): Promise<Buffer | null>;
+  addItem(collectionId: string, item: ClipboardItemData, blob?: Buffer): Promise<ClipboardItemData>; // Throws CollectionFullError
+  // Adds all items or none: throws CollectionFullError when the whole batch does not fit
+  addItems(collectionId: string, entries: NewItemEntry[]): Promise<ClipboardItemData[]>;
+  // Applies an edit made to `expectedVersion` (see applyItemEdit); null if the item did not exist.
+  // Throws ItemVersionConflictError when the item has moved on, CollectionFullError when the edit does not fit.
+  updateItem(collectionId: string, itemId: string, edit: ClipboardItemEdit, expectedVersion: number): Promise<ClipboardItemData | null>;
+  // Pins, stars and reorders items (see arrangeItemList); returns the items that changed
+  arrangeItems(collectionId: string, arrangement: ItemArrangement): Promise<ClipboardItemData[]>;
+  // Deleting moves items to the trash; trashed items are invisible to the other item methods
+  deleteItem(collectionId: string, itemId: string): Promise<ClipboardItemData | null>; // null if it did not exist
+  // Deletes the given items, or every item with 'all', at once; returns the items that existed
+  deleteItems(collectionId: string, itemIds: string[] | 'all'): Promise<ClipboardItemData[]>;
+  // The last allowed view deletes the item for good (it never goes to the trash)
+  consumeItem(collectionId: string, itemId: string): Promise<ConsumeResult | null>; // null if it did not exist
+
+  // --- Trash: deleted items, kept for TRASH_RETENTION_MS ---
+  getTrash(collectionId: string): Promise<ClipboardItemData[]>; // Most recently deleted first, view-limited items redacted
+  // Moves items back into the list at their old position; unknown or expired IDs are ignored.
+  // Throws CollectionFullError when they no longer fit.
+  restoreItems(collectionId: string, itemIds: string[]): Promise<ClipboardItemData[]>;
+  purgeTrash(collectionId: string, itemIds: string[] | 'all'): Promise<string[]>; // Returns the IDs deleted for good
+
+  // --- Unlock sessions (tokens never outlive their collection) ---
+  saveSession(collectionId: string, token: string, ttlMs: number): Promise<string>; // Returns the expiry time
+  hasSession(collectionId: string, token: string): Promise<boolean>;
+
+  // --- Rate limiting: records one request under `key` and counts the window ---
+  hitRateLimit(key: string, rule: Pick<RateLimitRule, 'limit' | 'windowSeconds'>): Promise<RateLimitResult>;
+
+  // --- Live events ---
+  // Never throws: the mutation behind an event is already committed. Returns the event ID, or null on failure.
+  publishEvent(collectionId: string, event: CollectionEvent): Promise<string | null>;
+  getEventsSince(collectionId: string, lastEventId: string): Promise<StoredCollectionEvent[]>; // Oldest first
+  subscribe(collectionId: string, listener: CollectionEventListener): Promise<() => Promise<void>>; // Resolves to an unsubscribe function
+}
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['redis', 'file', 'memory'];
+
+/**
+ * Backend selected by STORAGE_BACKEND. Without it, Redis is used when REDIS_URL is set,
+ * and the in-memory store otherwise, except in production, where a missing REDIS_URL
+ * stays a configuration error instead of silently losing data.
+ */
+export const getConfiguredBackend = (): StorageBackend => {
+  const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  if (configured) {
+    if (!STORAGE_BACKENDS.includes(configured as StorageBackend)) {
+      throw new Error(`Invalid STORAGE_BACKEND "${configured}". Expected one of: ${STORAGE_BACKENDS.join(', ')}.`);
+    }
+    return configured as StorageBackend;
+  }
+  return process.env.REDIS_URL || process.env.NODE_ENV === 'production' ? 'redis' : 'memory';
+};
+
+/**
+ * Returns the configured store, ready to use. Backends are loaded on demand so the
+ * file and in-memory stores never touch (or log about) the Redis client.
+ * Redis failures surface as ServerConfigError / StorageUnavailableError.
+ */
+export const getCollectionStore = async (): Promise<CollectionStore> => {
+  const backend = getConfiguredBackend();
+  if (backend === 'memory') {
+    const { getMemoryCollectionStore } = await import('@/lib/memory-storage');
+    return getMemoryCollectionStore();
+  }
+  if (backend === 'file') {
+    const { getFileCollectionStore } = await import('@/lib/file-storage');
+    return getFileCollectionStore();
+  }
+  const { connectRedisCollectionStore } = await import('@/lib/redis-storage');
+  return connectRedisCollectionStore();
+};
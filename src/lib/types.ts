@@ -1,16 +1,248 @@
+import { z } from 'zod';
+
+
+// Metadata describing a binary attachment (image or file item)
+export interface ClipboardAttachment {
+  filename: string; // Original file name as provided by the uploader
+  mimeType: string; // e.g. 'image/png', 'application/pdf'
+  size: number; // Size of the blob in bytes
+  checksum: string; // SHA-256 hex digest of the blob contents
+  dataUrl?: string; // Local mode only: the blob inlined as a data URL (shared blobs live under their own Redis keys)
+}
+
+export const CLIPBOARD_ITEM_TYPES = ['text', 'url', 'html', 'image', 'file'] as const;
+export type ClipboardItemType = (typeof CLIPBOARD_ITEM_TYPES)[number];
 
 // Defines the structure for a single clipboard item (used locally and in shared collections)
 export interface ClipboardItemData {
   id: string; // Unique identifier for the item
-  type: 'text' | 'url' | 'html';
-  content: string; // Plain text content or URL
+  type: ClipboardItemType;
+  content: string; // Plain text content or URL (file name for image/file items)
   htmlContent?: string; // Optional HTML content
+  attachment?: ClipboardAttachment; // Present for 'image' and 'file' items
+  viewLimit?: number; // Shared text items only: deleted after this many reveals/copies (1 = burn after reading)
+  viewsRemaining?: number; // Reveals left; while set, the server withholds the content until it is consumed
   createdAt: Date | string; // Use Date object for local, string for Redis storage
+  version?: number; // Bumped by every edit; items without one are at version 1
+  updatedAt?: Date | string; // Time of the last edit; unset until the item is first edited
+  history?: ClipboardItemRevision[]; // Earlier versions, newest first (see item-history.ts)
+  pinned?: boolean; // Shown in a section above the rest of the list
+  starred?: boolean;
+  position?: number; // Sort key, highest first; defaults to the creation time in ms (see item-order.ts)
+  tags?: string[]; // Free-form labels, normalized by itemTagsSchema; stored unencrypted even in encrypted collections
+  deletedAt?: Date | string; // Only set on items in the trash (see TRASH_RETENTION_MS)
+}
+
+// An earlier version of an edited item
+export interface ClipboardItemRevision {
+  version: number;
+  type: ClipboardItemType;
+  content: string;
+  htmlContent?: string;
+  updatedAt: string; // When this version was saved
 }
 
+// Lifetime chosen when a shared collection is created (or extended); 'never' pins it
+export type CollectionExpiry = '1h' | '1d' | '7d' | '30d' | 'never';
+
 // Defines the structure for a shared clipboard collection stored in Redis
 export interface SharedClipCollection {
     id: string;
     items: ClipboardItemData[];
     createdAt: string; // Store as ISO string in Redis
+    passwordProtected?: boolean; // True when a passphrase is required (the salted hash itself is never sent to clients)
+    encrypted?: boolean; // True for end-to-end encrypted collections: item fields are ciphertext
+    expiry?: CollectionExpiry; // Lifetime preset the collection was created or last extended with
+    slidingExpiry?: boolean; // When true, every read restarts the expiry countdown
+    expiresAt?: string | null; // ISO timestamp; null for collections that never expire
+    readOnly?: boolean; // True when opened through a read-only link (adding and deleting are rejected)
+    readOnlyToken?: string; // Editors only: token for the view-only link (/clip/{token})
+    usage?: CollectionUsage; // Current usage against the per-collection quotas
+    tagCounts?: Record<string, number>; // Tag index: number of items carrying each tag
 }
+
+// Quota usage of a shared collection, for display in the UI
+export interface CollectionUsage {
+    items: number;
+    maxItems: number;
+    bytes: number; // Text content plus attachment sizes
+    maxBytes: number;
+}
+
+// Real-time change notifications streamed to subscribers of a shared collection
+export type CollectionEvent =
+    | { type: 'item-added'; item: ClipboardItemData }
+    | { type: 'item-updated'; item: ClipboardItemData }
+    | { type: 'item-deleted'; itemId: string }
+    | { type: 'items-deleted'; itemIds: string[] } // Batch deletes and clearing the collection
+    | { type: 'items-imported'; count: number }; // Bulk imports; clients reload the list instead of receiving every item
+
+// --- Validation shared by the API routes and ClipboardManager ---
+// Lengths are measured on what is sent, i.e. on ciphertext for encrypted collections.
+export const MAX_CONTENT_LENGTH = 100_000; // characters
+export const MAX_HTML_CONTENT_LENGTH = 500_000; // characters; rich text carries a lot of markup
+export const MAX_ITEMS_PER_COLLECTION = 500;
+export const MAX_COLLECTION_BYTES = 50 * 1024 * 1024; // 50 MB of content and attachments per collection
+export const MAX_VIEW_LIMIT = 100;
+export const MAX_TAGS_PER_ITEM = 10;
+export const MAX_TAG_LENGTH = 32; // characters
+
+// Tags are trimmed and lowercased; duplicates are dropped
+export const itemTagsSchema = z.array(
+  z.string()
+    .trim()
+    .toLowerCase()
+    .min(1, 'Tags must not be empty.')
+    .refine(tag => tag.length <= MAX_TAG_LENGTH, `Tags must be at most ${MAX_TAG_LENGTH} characters.`)
+    .refine(tag => !tag.includes(','), 'Tags must not contain commas.')
+).max(MAX_TAGS_PER_ITEM, `An item can have at most ${MAX_TAGS_PER_ITEM} tags.`).transform(tags => [...new Set(tags)]);
+
+// Body of POST /api/clip/add/[id]. Unknown fields are stripped, so clients cannot set
+// server-owned fields such as id, createdAt or viewsRemaining. Images and files go
+// through the upload route instead.
+export const newClipboardItemSchema = z.object({
+  type: z.enum(['text', 'url', 'html']),
+  content: z.string()
+    .min(1, 'Content must not be empty.')
+    .max(MAX_CONTENT_LENGTH, `Content must be at most ${MAX_CONTENT_LENGTH.toLocaleString('en-US')} characters.`),
+  htmlContent: z.string()
+    .max(MAX_HTML_CONTENT_LENGTH, `HTML content must be at most ${MAX_HTML_CONTENT_LENGTH.toLocaleString('en-US')} characters.`)
+    .optional(),
+  viewLimit: z.number().int().min(1).max(MAX_VIEW_LIMIT).optional(),
+  tags: itemTagsSchema.optional(),
+});
+
+export type NewClipboardItem = z.infer<typeof newClipboardItemSchema>;
+
+// Body of PATCH /api/clip/[id]/items/[itemId]: the replacement fields (an omitted
+// htmlContent removes it) and the version they were edited from. Tags are changed
+// through PATCH /api/clip/[id]/items and are not versioned.
+export const clipboardItemUpdateSchema = newClipboardItemSchema.omit({ viewLimit: true, tags: true }).extend({
+  version: z.number().int().min(1),
+});
+
+export type ClipboardItemUpdate = z.infer<typeof clipboardItemUpdateSchema>;
+
+// Body of PATCH /api/clip/[id]/items: flag and tag changes and/or a new order for a set of
+// items (e.g. the pinned section or one page), top first. `tags` replaces an item's tags.
+export const itemArrangementSchema = z.object({
+  flags: z.array(z.object({
+    id: z.string().min(1),
+    pinned: z.boolean().optional(),
+    starred: z.boolean().optional(),
+    tags: itemTagsSchema.optional(),
+  })).max(MAX_ITEMS_PER_COLLECTION).optional(),
+  order: z.array(z.string().min(1)).max(MAX_ITEMS_PER_COLLECTION).optional(),
+}).refine(body => (body.flags?.length ?? 0) + (body.order?.length ?? 0) > 0, 'Nothing to change: provide flags or order.');
+
+export type ItemArrangement = z.infer<typeof itemArrangementSchema>;
+
+// Body of DELETE /api/clip/[id]/items (and of DELETE /api/clip/[id]/trash): either the IDs
+// to delete or `all` to clear the collection (or empty the trash)
+export const itemBatchDeleteSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_ITEMS_PER_COLLECTION).optional(),
+  all: z.literal(true).optional(),
+}).refine(body => (body.ids === undefined) !== (body.all === undefined), 'Provide either ids or all, not both.');
+
+export type ItemBatchDelete = z.infer<typeof itemBatchDeleteSchema>;
+
+// Body of POST /api/clip/[id]/trash/restore
+export const itemRestoreSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MAX_ITEMS_PER_COLLECTION),
+});
+
+// Response of GET /api/clip/[id]/trash: deleted items, most recent first, each with `deletedAt`
+export interface CollectionTrash {
+  items: ClipboardItemData[];
+  retentionSeconds: number; // How long an item stays restorable after its deletion
+}
+
+export const MAX_SEARCH_QUERY_LENGTH = 200; // characters
+export const MAX_SEARCH_PAGE_SIZE = 100;
+
+// Query of GET /api/clip/[id]/items (see item-search.ts). `from`/`to` bound createdAt, both inclusive;
+// `cursor` is the `nextCursor` of the previous page.
+export const itemSearchQuerySchema = z.object({
+  q: z.string().trim().refine(q => q.length <= MAX_SEARCH_QUERY_LENGTH, `Search text must be at most ${MAX_SEARCH_QUERY_LENGTH} characters.`).optional(),
+  types: z.array(z.enum(CLIPBOARD_ITEM_TYPES)).optional(),
+  tags: itemTagsSchema.optional(), // Items must carry every one of them
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(20),
+});
+
+export type ItemSearchQuery = z.infer<typeof itemSearchQuerySchema>;
+
+// Response of GET /api/clip/[id]/items
+export interface ItemSearchPage {
+  items: ClipboardItemData[]; // In list order (see item-order.ts), view-limited items redacted
+  nextCursor: string | null; // null on the last page
+  total: number; // Matching items across all pages
+}
+
+// Formats of GET /api/clip/[id]/export; only 'json' and 'zip' can be imported again
+export const EXPORT_FORMATS = ['json', 'md', 'txt', 'zip'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export const EXPORT_FORMAT_VERSION = 1;
+
+// The JSON export, also stored as collection.json in ZIP exports (see collection-export.ts)
+export interface CollectionExport {
+  version: typeof EXPORT_FORMAT_VERSION;
+  exportedAt: string;
+  createdAt: string; // When the exported collection was created
+  encrypted: boolean; // Item fields are ciphertext, readable only with the original key
+  items: ClipboardItemData[]; // Newest first; view-limited items are left out
+}
+
+// One item of an import. Type, timestamps, flags and tags come from the export; IDs and
+// positions are reassigned, and edit history and view limits are not imported.
+export const importedItemSchema = newClipboardItemSchema.omit({ type: true, viewLimit: true }).extend({
+  id: z.string().min(1).max(128).optional(), // Finds the attachment bytes in a ZIP export
+  type: z.enum(CLIPBOARD_ITEM_TYPES),
+  createdAt: z.string().datetime({ offset: true }),
+  updatedAt: z.string().datetime({ offset: true }).optional(),
+  attachment: z.object({ filename: z.string().min(1), mimeType: z.string().min(1) }).optional(),
+  pinned: z.boolean().optional(),
+  starred: z.boolean().optional(),
+  position: z.number().finite().optional(),
+}).refine(
+  item => (item.type === 'image' || item.type === 'file') === (item.attachment !== undefined),
+  { message: 'Image and file items need attachment metadata; other items must not have any.', path: ['attachment'] }
+);
+
+// Body of POST /api/clip/[id]/import: a CollectionExport (JSON), or a ZIP export holding one
+export const collectionImportSchema = z.object({
+  version: z.literal(EXPORT_FORMAT_VERSION),
+  encrypted: z.boolean().default(false),
+  items: z.array(importedItemSchema).max(MAX_ITEMS_PER_COLLECTION),
+});
+
+export type CollectionImport = z.infer<typeof collectionImportSchema>;
+
+// Response of POST /api/clip/[id]/import
+export interface CollectionImportResult {
+  imported: number;
+  skipped: number; // Images and files whose bytes were not part of the upload (JSON exports have none)
+}
+
+// Structured error returned with 400/413 responses
+export interface ValidationErrorBody {
+  error: string;
+  details: string; // First problem, suitable for showing inline
+  issues: { path: string; message: string; code: string }[];
+}
+
+// Size violations map to 413, everything else to 400
+export const toValidationErrorResponse = (error: z.ZodError): { status: 400 | 413; body: ValidationErrorBody } => {
+  const tooLarge = error.issues.some(issue => issue.code === 'too_big' && issue.type === 'string');
+  const issues = error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message, code: issue.code }));
+  return {
+    status: tooLarge ? 413 : 400,
+    body: {
+      error: tooLarge ? 'Item too large' : 'Invalid item',
+      details: issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))[0] ?? 'Validation failed.',
+      issues,
+    },
+  };
+};
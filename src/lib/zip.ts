@@ -0,0 +1,160 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+/*
+ * Minimal ZIP (PKZIP 2.0) support for collection exports: writes deflated entries and reads
+ * archives that use "stored" or "deflate" entries, which covers what common tools produce.
+ * No ZIP64, encryption or multi-disk archives; entries are held in memory, so callers bound
+ * the archive size before reading it.
+ */
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/' separated
+  data: Buffer;
+  modifiedAt?: Date;
+}
+
+export class InvalidZipError extends Error {
+  constructor(details: string) {
+    super(`Invalid ZIP archive: ${details}`);
+    this.name = 'InvalidZipError';
+  }
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_NAMES_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers (local time, 2 second resolution, from 1980)
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract: 2.0
+    local.writeUInt16LE(UTF8_NAMES_FLAG, 6);
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_NAMES_FLAG, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // Offset of the local header; the remaining fields stay zero
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+export const isZipArchive = (data: Buffer): boolean => data.length >= 4 && data.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+
+/**
+ * Reads every file entry (directories are skipped) using the central directory.
+ * Throws InvalidZipError for malformed archives, unsupported features, checksum
+ * mismatches, or when the entries would unpack to more than `maxTotalBytes`.
+ */
+export const readZip = (archive: Buffer, { maxTotalBytes }: { maxTotalBytes: number }): ZipEntry[] => {
+  // The end record sits in the last 22 bytes, followed by a comment of up to 64 KB
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new InvalidZipError('end of central directory not found');
+
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let pointer = archive.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (pointer + 46 > archive.length || archive.readUInt32LE(pointer) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new InvalidZipError('corrupt central directory');
+    }
+    const flags = archive.readUInt16LE(pointer + 8);
+    const method = archive.readUInt16LE(pointer + 10);
+    const crc = archive.readUInt32LE(pointer + 16);
+    const compressedSize = archive.readUInt32LE(pointer + 20);
+    const size = archive.readUInt32LE(pointer + 24);
+    const nameLength = archive.readUInt16LE(pointer + 28);
+    const extraLength = archive.readUInt16LE(pointer + 30);
+    const commentLength = archive.readUInt16LE(pointer + 32);
+    const localOffset = archive.readUInt32LE(pointer + 42);
+    const name = archive.toString(flags & UTF8_NAMES_FLAG ? 'utf8' : 'latin1', pointer + 46, pointer + 46 + nameLength);
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new InvalidZipError(`${name} is encrypted`);
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATE) throw new InvalidZipError(`${name} uses an unsupported compression method`);
+    totalBytes += size;
+    if (totalBytes > maxTotalBytes) throw new InvalidZipError('archive contents are too large');
+
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new InvalidZipError(`local header of ${name} not found`);
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    try {
+      data = method === METHOD_STORED ? Buffer.from(raw) : inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+    } catch {
+      throw new InvalidZipError(`${name} could not be decompressed`);
+    }
+    if (data.length !== size || crc32(data) !== crc) throw new InvalidZipError(`${name} failed its checksum`);
+    entries.push({ name, data });
+  }
+  return entries;
+};
@@ -0,0 +1,38 @@
+/**
+ * One-off migration of every legacy (JSON string) collection to the per-item Redis layout.
+ * Collections are also migrated lazily on first access, so running this is optional.
+ *
+ * Usage: REDIS_URL=redis://... npm run migrate:collections
+ */
+import { disconnectRedis, getRedisClient } from '@/lib/redis';
+import { COLLECTION_META_KEY_PATTERN, migrateLegacyCollection } from '@/lib/collection-store';
+
+const main = async () => {
+  const redis = await getRedisClient();
+  let scanned = 0;
+  let migrated = 0;
+  let failed = 0;
+
+  // Legacy collections are plain strings named clip:{id}; attachment blobs are strings too, so filter by name
+  for await (const key of redis.scanIterator({ MATCH: 'clip:*', TYPE: 'string', COUNT: 200 })) {
+    if (!COLLECTION_META_KEY_PATTERN.test(key)) continue;
+    scanned++;
+    const collectionId = key.slice('clip:'.length);
+    try {
+      if (await migrateLegacyCollection(redis, collectionId)) migrated++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to migrate collection ${collectionId}:`, error);
+    }
+  }
+
+  console.log(`Legacy collections found: ${scanned}, migrated: ${migrated}, failed: ${failed}.`);
+  await disconnectRedis();
+  process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main().catch(async (error) => {
+  console.error('Collection migration aborted:', error);
+  await disconnectRedis();
+  process.exitCode = 1;
+});
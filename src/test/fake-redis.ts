@@ -0,0 +1,592 @@
+import { createServer, type Socket } from 'net';
+import { createClient, type RedisClientType } from 'redis';
+import { lauxlib, lua, lualib, to_luastring } from 'fengari';
+
+/*
+ * In-process stand-in for a Redis server, for tests that exercise the Redis layout without a
+ * real server. It speaks RESP over TCP, so the real node-redis client runs unchanged: WATCH
+ * state per connection, MULTI/EXEC (aborting with WatchError), duplicate() and isolated
+ * connections, Buffer replies. EVAL runs the script with fengari, a Lua VM in JavaScript.
+ *
+ * Only the commands this app uses are implemented, with Redis' semantics for the options it
+ * passes. Keys expire lazily against Date.now(), so tests can move time with fake timers.
+ */
+
+interface ValueTypes {
+  string: Buffer;
+  hash: Map<string, string>;
+  zset: Map<string, number>;
+  stream: { id: string; fields: string[] }[];
+}
+type ValueType = keyof ValueTypes;
+
+interface StoredKey {
+  type: ValueType;
+  value: ValueTypes[ValueType];
+  expiresAt: number | null;
+}
+
+interface Status { status: string }
+type Reply = number | string | Buffer | null | Status | typeof NIL_ARRAY | ReplyError | Reply[];
+
+const NIL_ARRAY = Symbol('nil array');
+const OK: Status = { status: 'OK' };
+
+class ReplyError extends Error {}
+const toReplyError = (error: unknown) =>
+  error instanceof ReplyError ? error : new ReplyError(`ERR ${error instanceof Error ? error.message : String(error)}`);
+const wrongType = () => new ReplyError('WRONGTYPE Operation against a key holding the wrong kind of value');
+
+const formatScore = (score: number): string => (score === Infinity ? 'inf' : score === -Infinity ? '-inf' : String(score));
+
+const parseScoreBound = (bound: string): { value: number; exclusive: boolean } => {
+  const exclusive = bound.startsWith('(');
+  const raw = exclusive ? bound.slice(1) : bound;
+  const value = raw === '+inf' || raw === 'inf' ? Infinity : raw === '-inf' ? -Infinity : Number(raw);
+  if (Number.isNaN(value)) throw new ReplyError('ERR min or max is not a float');
+  return { value, exclusive };
+};
+
+const parseInteger = (value: string): number => {
+  if (!/^-?\d+$/.test(value)) throw new ReplyError('ERR value is not an integer or out of range');
+  return Number(value);
+};
+
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+class FakeRedisServer {
+  private readonly keys = new Map<string, StoredKey>();
+  private readonly versions = new Map<string, number>(); // Bumped on every change, for WATCH
+  private lastStreamMs = 0;
+  private lastStreamSeq = 0;
+
+  version(key: string): number {
+    this.lookup(key); // Expiring a key counts as a change
+    return this.versions.get(key) ?? 0;
+  }
+
+  keyNames(): string[] {
+    return [...this.keys.keys()].filter(key => this.lookup(key));
+  }
+
+  flush(): void {
+    [...this.keys.keys()].forEach(key => this.remove(key));
+  }
+
+  private touch(key: string) {
+    this.versions.set(key, (this.versions.get(key) ?? 0) + 1);
+  }
+
+  private remove(key: string): boolean {
+    if (!this.keys.delete(key)) return false;
+    this.touch(key);
+    return true;
+  }
+
+  private lookup(key: string): StoredKey | undefined {
+    const entry = this.keys.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private read<T extends ValueType>(key: string, type: T): ValueTypes[T] | undefined {
+    const entry = this.lookup(key);
+    if (!entry) return undefined;
+    if (entry.type !== type) throw wrongType();
+    return entry.value as ValueTypes[T];
+  }
+
+  // Returns the container at `key`, creating an empty one; callers must call `written` afterwards
+  private write<T extends 'hash' | 'zset' | 'stream'>(key: string, type: T): ValueTypes[T] {
+    const existing = this.read(key, type);
+    if (existing) return existing;
+    const value = (type === 'stream' ? [] : new Map()) as ValueTypes[T];
+    this.keys.set(key, { type, value, expiresAt: null });
+    return value;
+  }
+
+  // Records a change and drops containers that became empty, as Redis does
+  private written(key: string) {
+    const entry = this.keys.get(key);
+    if (entry && entry.value instanceof Map && entry.value.size === 0) {
+      this.keys.delete(key);
+    }
+    this.touch(key);
+  }
+
+  private setExpiry(key: string, expiresAt: number | null): number {
+    const entry = this.lookup(key);
+    if (!entry) return 0;
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      this.remove(key);
+      return 1;
+    }
+    entry.expiresAt = expiresAt;
+    this.touch(key);
+    return 1;
+  }
+
+  private ttl(key: string): number {
+    const entry = this.lookup(key);
+    if (!entry) return -2;
+    return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+  }
+
+  private zrange(args: string[]): Reply {
+    const [key, start, stop, ...options] = args;
+    const upper = options.map(option => option.toUpperCase());
+    const byScore = upper.includes('BYSCORE');
+    const rev = upper.includes('REV');
+    const withScores = upper.includes('WITHSCORES');
+    const limitIndex = upper.indexOf('LIMIT');
+    const zset = this.read(key, 'zset');
+    let entries = [...(zset ?? new Map<string, number>())].sort(([aMember, aScore], [bMember, bScore]) =>
+      aScore - bScore || (aMember < bMember ? -1 : aMember > bMember ? 1 : 0)
+    );
+    if (rev) entries.reverse();
+
+    if (byScore) {
+      const [min, max] = rev ? [parseScoreBound(stop), parseScoreBound(start)] : [parseScoreBound(start), parseScoreBound(stop)];
+      entries = entries.filter(([, score]) =>
+        (min.exclusive ? score > min.value : score >= min.value) && (max.exclusive ? score < max.value : score <= max.value)
+      );
+      if (limitIndex !== -1) {
+        const offset = Number(options[limitIndex + 1]);
+        const count = Number(options[limitIndex + 2]);
+        entries = entries.slice(offset, count < 0 ? undefined : offset + count);
+      }
+    } else {
+      const length = entries.length;
+      const from = Math.max(0, parseInteger(start) < 0 ? length + parseInteger(start) : parseInteger(start));
+      const to = parseInteger(stop) < 0 ? length + parseInteger(stop) : parseInteger(stop);
+      entries = entries.slice(from, to + 1);
+    }
+    return entries.flatMap(([member, score]) => (withScores ? [member, formatScore(score)] : [member]));
+  }
+
+  private nextStreamId(): string {
+    const now = Date.now();
+    if (now > this.lastStreamMs) {
+      this.lastStreamMs = now;
+      this.lastStreamSeq = 0;
+    } else {
+      this.lastStreamSeq++;
+    }
+    return `${this.lastStreamMs}-${this.lastStreamSeq}`;
+  }
+
+  // Runs one command atomically; `raw` holds the name followed by its arguments
+  execute(raw: (string | Buffer)[]): Reply {
+    const name = raw[0].toString().toUpperCase();
+    const args = raw.slice(1).map(arg => arg.toString());
+    switch (name) {
+      case 'PING':
+        return { status: 'PONG' };
+      case 'CLIENT':
+      case 'SELECT':
+        return OK;
+      case 'TYPE':
+        return { status: this.lookup(args[0])?.type ?? 'none' };
+      case 'EXISTS':
+        return args.filter(key => this.lookup(key)).length;
+      case 'DEL':
+        return args.filter(key => this.lookup(key) && this.remove(key)).length;
+      case 'GET': {
+        return this.read(args[0], 'string') ?? null;
+      }
+      case 'SET': {
+        const [key] = args;
+        const options = args.slice(2).map(option => option.toUpperCase());
+        const exists = !!this.lookup(key);
+        if ((options.includes('NX') && exists) || (options.includes('XX') && !exists)) return null;
+        let expiresAt: number | null = null;
+        const ex = options.indexOf('EX');
+        const px = options.indexOf('PX');
+        if (ex !== -1) expiresAt = Date.now() + parseInteger(args[ex + 3]) * 1000;
+        if (px !== -1) expiresAt = Date.now() + parseInteger(args[px + 3]);
+        this.keys.set(key, { type: 'string', value: Buffer.from(raw[2]), expiresAt });
+        this.touch(key);
+        return OK;
+      }
+      case 'PTTL':
+        return this.ttl(args[0]);
+      case 'TTL': {
+        const ttl = this.ttl(args[0]);
+        return ttl < 0 ? ttl : Math.round(ttl / 1000);
+      }
+      case 'PEXPIRE':
+        return this.setExpiry(args[0], Date.now() + parseInteger(args[1]));
+      case 'EXPIRE':
+        return this.setExpiry(args[0], Date.now() + parseInteger(args[1]) * 1000);
+      case 'PERSIST': {
+        const entry = this.lookup(args[0]);
+        if (!entry || entry.expiresAt === null) return 0;
+        return this.setExpiry(args[0], null);
+      }
+
+      case 'HGETALL':
+        return [...(this.read(args[0], 'hash') ?? [])].flat();
+      case 'HGET':
+        return this.read(args[0], 'hash')?.get(args[1]) ?? null;
+      case 'HEXISTS':
+        return this.read(args[0], 'hash')?.has(args[1]) ? 1 : 0;
+      case 'HSET': {
+        const hash = this.write(args[0], 'hash');
+        let added = 0;
+        for (let i = 1; i < args.length; i += 2) {
+          if (!hash.has(args[i])) added++;
+          hash.set(args[i], args[i + 1]);
+        }
+        this.written(args[0]);
+        return added;
+      }
+      case 'HDEL': {
+        const hash = this.read(args[0], 'hash');
+        if (!hash) return 0;
+        const removed = args.slice(1).filter(field => hash.delete(field)).length;
+        if (removed > 0) this.written(args[0]);
+        return removed;
+      }
+      case 'HINCRBY': {
+        const hash = this.write(args[0], 'hash');
+        const value = parseInteger(hash.get(args[1]) ?? '0') + parseInteger(args[2]);
+        hash.set(args[1], String(value));
+        this.written(args[0]);
+        return value;
+      }
+
+      case 'ZADD': {
+        const [key, ...rest] = args;
+        const flags = new Set<string>();
+        while (rest.length > 0 && ['NX', 'XX', 'GT', 'LT', 'CH'].includes(rest[0].toUpperCase())) flags.add(rest.shift()!.toUpperCase());
+        const zset = this.write(key, 'zset');
+        let added = 0;
+        for (let i = 0; i < rest.length; i += 2) {
+          const score = parseScoreBound(rest[i]).value;
+          const member = rest[i + 1];
+          const exists = zset.has(member);
+          if ((flags.has('NX') && exists) || (flags.has('XX') && !exists)) continue;
+          if (!exists) added++;
+          zset.set(member, score);
+        }
+        this.written(key);
+        return added;
+      }
+      case 'ZREM': {
+        const zset = this.read(args[0], 'zset');
+        if (!zset) return 0;
+        const removed = args.slice(1).filter(member => zset.delete(member)).length;
+        if (removed > 0) this.written(args[0]);
+        return removed;
+      }
+      case 'ZCARD':
+        return this.read(args[0], 'zset')?.size ?? 0;
+      case 'ZSCORE': {
+        const score = this.read(args[0], 'zset')?.get(args[1]);
+        return score === undefined ? null : formatScore(score);
+      }
+      case 'ZRANGE':
+        return this.zrange(args);
+      case 'ZREMRANGEBYSCORE': {
+        const zset = this.read(args[0], 'zset');
+        if (!zset) return 0;
+        const min = parseScoreBound(args[1]);
+        const max = parseScoreBound(args[2]);
+        const doomed = [...zset].filter(([, score]) =>
+          (min.exclusive ? score > min.value : score >= min.value) && (max.exclusive ? score < max.value : score <= max.value)
+        );
+        doomed.forEach(([member]) => zset.delete(member));
+        if (doomed.length > 0) this.written(args[0]);
+        return doomed.length;
+      }
+
+      case 'XADD': {
+        const [key, ...rest] = args;
+        let maxLength: number | null = null;
+        if (rest[0]?.toUpperCase() === 'MAXLEN') {
+          rest.shift();
+          if (rest[0] === '~' || rest[0] === '=') rest.shift();
+          maxLength = parseInteger(rest.shift()!);
+        }
+        const requestedId = rest.shift()!;
+        const stream = this.write(key, 'stream');
+        const id = requestedId === '*' ? this.nextStreamId() : requestedId;
+        stream.push({ id, fields: rest });
+        if (maxLength !== null && stream.length > maxLength) stream.splice(0, stream.length - maxLength);
+        this.written(key);
+        return id;
+      }
+      case 'XRANGE': {
+        const [key, start, end] = args;
+        const compare = (a: string, b: string) => {
+          const [aMs, aSeq = '0'] = a.split('-');
+          const [bMs, bSeq = '0'] = b.split('-');
+          return Number(aMs) - Number(bMs) || Number(aSeq) - Number(bSeq);
+        };
+        const inRange = (id: string) => {
+          const afterStart = start === '-' || (start.startsWith('(') ? compare(id, start.slice(1)) > 0 : compare(id, start) >= 0);
+          const beforeEnd = end === '+' || (end.startsWith('(') ? compare(id, end.slice(1)) < 0 : compare(id, end) <= 0);
+          return afterStart && beforeEnd;
+        };
+        return (this.read(key, 'stream') ?? []).filter(({ id }) => inRange(id)).map(({ id, fields }) => [id, fields]);
+      }
+      case 'PUBLISH':
+        return 0; // No subscribers: pub/sub is not implemented
+
+      case 'SCAN': {
+        const upper = args.map(arg => arg.toUpperCase());
+        const matchIndex = upper.indexOf('MATCH');
+        const typeIndex = upper.indexOf('TYPE');
+        const pattern = matchIndex === -1 ? null : globToRegExp(args[matchIndex + 1]);
+        const type = typeIndex === -1 ? null : args[typeIndex + 1].toLowerCase();
+        const keys = this.keyNames().filter(key => (!pattern || pattern.test(key)) && (!type || this.keys.get(key)!.type === type));
+        return ['0', keys];
+      }
+      case 'EVAL': {
+        const keyCount = parseInteger(args[1]);
+        return this.evaluate(args[0], args.slice(2, 2 + keyCount), args.slice(2 + keyCount));
+      }
+      default:
+        throw new ReplyError(`ERR unknown command '${name}'`);
+    }
+  }
+
+  // --- EVAL: the script runs to completion inside one `execute`, so it is atomic like in Redis ---
+  private evaluate(script: string, keys: string[], argv: string[]): Reply {
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+    const pushStrings = (values: string[]) => {
+      lua.lua_createtable(L, values.length, 0);
+      values.forEach((value, i) => {
+        lua.lua_pushstring(L, to_luastring(value));
+        lua.lua_rawseti(L, -2, i + 1);
+      });
+    };
+    pushStrings(keys);
+    lua.lua_setglobal(L, to_luastring('KEYS'));
+    pushStrings(argv);
+    lua.lua_setglobal(L, to_luastring('ARGV'));
+
+    lua.lua_newtable(L);
+    lua.lua_pushjsfunction(L, (state: unknown) => {
+      const command: Buffer[] = [];
+      for (let i = 1; i <= lua.lua_gettop(state); i++) command.push(Buffer.from(lua.lua_tolstring(state, i)));
+      let reply: Reply;
+      try {
+        reply = this.execute(command);
+      } catch (error) {
+        return lauxlib.luaL_error(state, to_luastring(error instanceof Error ? error.message : String(error)));
+      }
+      pushLuaValue(state, reply);
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring('call'));
+    lua.lua_setglobal(L, to_luastring('redis'));
+
+    if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      throw new ReplyError(`ERR Error running script: ${Buffer.from(lua.lua_tolstring(L, -1)).toString()}`);
+    }
+    return toReply(L, lua.lua_gettop(L));
+  }
+}
+
+// Redis' conversion of command replies into Lua values
+const pushLuaValue = (L: unknown, reply: Reply) => {
+  if (reply instanceof ReplyError) {
+    lauxlib.luaL_error(L, to_luastring(reply.message));
+  } else if (reply === null || reply === NIL_ARRAY) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof reply === 'number') {
+    lua.lua_pushinteger(L, reply);
+  } else if (typeof reply === 'string' || Buffer.isBuffer(reply)) {
+    lua.lua_pushstring(L, typeof reply === 'string' ? to_luastring(reply) : new Uint8Array(reply));
+  } else if (Array.isArray(reply)) {
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((element, i) => {
+      pushLuaValue(L, element);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else {
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushstring(L, to_luastring(reply.status));
+    lua.lua_setfield(L, -2, to_luastring('ok'));
+  }
+};
+
+// Redis' conversion of a script's return value into a reply
+const toReply = (L: unknown, index: number): Reply => {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return Buffer.from(lua.lua_tolstring(L, index));
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      const reply: Reply[] = [];
+      for (let i = 1; lua.lua_rawgeti(L, index, i) !== lua.LUA_TNIL; i++) {
+        reply.push(toReply(L, lua.lua_gettop(L)));
+        lua.lua_pop(L, 1);
+      }
+      lua.lua_pop(L, 1);
+      return reply;
+    }
+    default:
+      return null;
+  }
+};
+
+// --- RESP ---
+const encode = (reply: Reply): Buffer => {
+  if (reply instanceof ReplyError) return Buffer.from(`-${reply.message}\r\n`);
+  if (reply === null) return Buffer.from('$-1\r\n');
+  if (reply === NIL_ARRAY) return Buffer.from('*-1\r\n');
+  if (typeof reply === 'number') return Buffer.from(`:${reply}\r\n`);
+  if (typeof reply === 'string' || Buffer.isBuffer(reply)) {
+    const bytes = Buffer.from(reply);
+    return Buffer.concat([Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from('\r\n')]);
+  }
+  if (Array.isArray(reply)) return Buffer.concat([Buffer.from(`*${reply.length}\r\n`), ...reply.map(encode)]);
+  return Buffer.from(`+${reply.status}\r\n`);
+};
+
+// Splits complete commands (arrays of bulk strings) off the front of `buffer`
+const parseCommands = (buffer: Buffer): { commands: Buffer[][]; rest: Buffer } => {
+  const commands: Buffer[][] = [];
+  let offset = 0;
+  for (;;) {
+    const headerEnd = buffer.indexOf('\r\n', offset);
+    if (headerEnd === -1) break;
+    const count = Number(buffer.subarray(offset + 1, headerEnd).toString());
+    let cursor = headerEnd + 2;
+    const parts: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+      const lengthEnd = buffer.indexOf('\r\n', cursor);
+      if (lengthEnd === -1) break;
+      const length = Number(buffer.subarray(cursor + 1, lengthEnd).toString());
+      if (lengthEnd + 2 + length + 2 > buffer.length) break;
+      parts.push(buffer.subarray(lengthEnd + 2, lengthEnd + 2 + length));
+      cursor = lengthEnd + 2 + length + 2;
+    }
+    if (parts.length < count) break;
+    commands.push(parts);
+    offset = cursor;
+  }
+  return { commands, rest: buffer.subarray(offset) };
+};
+
+// Per-connection transaction state
+const serveConnection = (server: FakeRedisServer, socket: Socket) => {
+  let pending: Buffer = Buffer.alloc(0);
+  let watched: Map<string, number> | null = null;
+  let queued: Buffer[][] | null = null;
+
+  const handle = (command: Buffer[]): Reply => {
+    const name = command[0].toString().toUpperCase();
+    const keys = command.slice(1).map(arg => arg.toString());
+    if (name === 'QUIT') {
+      socket.end(encode(OK));
+      return OK;
+    }
+    if (name === 'WATCH') {
+      watched ??= new Map();
+      keys.forEach(key => watched!.set(key, server.version(key)));
+      return OK;
+    }
+    if (name === 'UNWATCH') {
+      watched = null;
+      return OK;
+    }
+    if (name === 'MULTI') {
+      queued = [];
+      return OK;
+    }
+    if (name === 'DISCARD') {
+      queued = null;
+      watched = null;
+      return OK;
+    }
+    if (name === 'EXEC') {
+      const commands = queued ?? [];
+      const aborted = watched !== null && [...watched].some(([key, version]) => server.version(key) !== version);
+      queued = null;
+      watched = null;
+      if (aborted) return NIL_ARRAY;
+      return commands.map(queuedCommand => {
+        try {
+          return server.execute(queuedCommand);
+        } catch (error) {
+          return toReplyError(error); // Encoded as an error element, as Redis does
+        }
+      });
+    }
+    if (queued) {
+      queued.push(command);
+      return { status: 'QUEUED' };
+    }
+    return server.execute(command);
+  };
+
+  socket.on('data', chunk => {
+    const { commands, rest } = parseCommands(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const command of commands) {
+      let reply: Reply;
+      try {
+        reply = handle(command);
+      } catch (error) {
+        reply = toReplyError(error);
+      }
+      if (socket.writable && command[0].toString().toUpperCase() !== 'QUIT') {
+        socket.write(encode(reply));
+      }
+    }
+  });
+  socket.on('error', () => socket.destroy());
+};
+
+export interface FakeRedis {
+  url: string;
+  keys: () => string[]; // Live (unexpired) key names
+  flushAll: () => void;
+  // A connected client; closed again by `close`
+  connect: () => Promise<RedisClientType>;
+  close: () => Promise<void>;
+}
+
+export const startFakeRedis = async (): Promise<FakeRedis> => {
+  const server = new FakeRedisServer();
+  const sockets = new Set<Socket>();
+  const clients: RedisClientType[] = [];
+  const tcpServer = createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    serveConnection(server, socket);
+  });
+  await new Promise<void>(resolve => tcpServer.listen(0, '127.0.0.1', resolve));
+  const address = tcpServer.address();
+  if (!address || typeof address === 'string') throw new Error('Fake Redis did not get a TCP port');
+  const url = `redis://127.0.0.1:${address.port}`;
+
+  return {
+    url,
+    keys: () => server.keyNames(),
+    flushAll: () => server.flush(),
+    connect: async () => {
+      const client = createClient({ url, isolationPoolOptions: { max: 10 } }) as unknown as RedisClientType;
+      client.on('error', () => undefined); // Sockets are torn down under the client in `close`
+      await client.connect();
+      clients.push(client);
+      return client;
+    },
+    close: async () => {
+      await Promise.all(clients.map(client => (client.isOpen ? client.disconnect() : undefined)));
+      sockets.forEach(socket => socket.destroy());
+      await new Promise<void>(resolve => tcpServer.close(() => resolve()));
+    },
+  };
+};
@@ -0,0 +1,2 @@
+// fengari ships without type declarations; the fake Redis uses a handful of its C-style API calls
+declare module 'fengari';
@@ -0,0 +1,323 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CollectionFullError,
+  CollectionNotFoundError,
+  ItemVersionConflictError,
+  TRASH_RETENTION_MS,
+  getItemSizeBytes,
+  type CollectionStore,
+  type StorageBackend,
+} from '@/lib/storage';
+import { MAX_COLLECTION_BYTES, MAX_ITEMS_PER_COLLECTION, type ClipboardItemData } from '@/lib/types';
+
+/*
+ * Behaviour every CollectionStore backend shares. Each backend's test file runs this suite
+ * against a fresh store per test. Time is simulated: `createStore` gets the test clock, and
+ * with `fakeSystemClock` the suite also moves Date for backends that read the system clock
+ * (Redis TTLs).
+ */
+export interface StoreContractOptions {
+  createStore: (now: () => number) => Promise<CollectionStore>;
+  cleanup?: () => Promise<void>;
+  fakeSystemClock?: boolean;
+}
+
+const START_TIME = Date.parse('2026-01-01T00:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+export const describeStoreContract = (backend: StorageBackend, { createStore, cleanup, fakeSystemClock = false }: StoreContractOptions) => {
+  describe(`${backend} collection store`, () => {
+    let time: number;
+    let store: CollectionStore;
+
+    const advance = (ms: number) => {
+      time += ms;
+      if (fakeSystemClock) vi.setSystemTime(time);
+    };
+
+    beforeEach(async () => {
+      time = START_TIME;
+      if (fakeSystemClock) {
+        vi.useFakeTimers({ toFake: ['Date'] }); // Only the clock: clients and servers still need real timers
+        vi.setSystemTime(time);
+      }
+      store = await createStore(() => time);
+      await store.createCollection('c1', { expiry: '1h', readOnlyToken: 'ro_c1' });
+    });
+
+    afterEach(async () => {
+      await cleanup?.();
+      if (fakeSystemClock) vi.useRealTimers();
+    });
+
+    // Items are created one second apart, so later ones are listed first
+    const textItem = (id: string, extra: Partial<ClipboardItemData> = {}): ClipboardItemData => {
+      const item: ClipboardItemData = { id, type: 'text', content: `content of ${id}`, createdAt: new Date(time).toISOString(), ...extra };
+      advance(1000);
+      return item;
+    };
+    const fileItem = (id: string, size: number): ClipboardItemData =>
+      textItem(id, { type: 'file', content: `${id}.bin`, attachment: { filename: `${id}.bin`, mimeType: 'application/octet-stream', size, checksum: 'sha' } });
+    const addTexts = async (...ids: string[]) => {
+      for (const id of ids) await store.addItem('c1', textItem(id));
+    };
+    const listedIds = async () => (await store.getCollection('c1')).items.map(({ id }) => id);
+
+    describe('collections', () => {
+      it('creates collections and reports unknown ones', async () => {
+        const collection = await store.getCollection('c1');
+        expect(collection).toMatchObject({ id: 'c1', items: [], expiry: '1h', usage: { items: 0, bytes: 0 } });
+        expect(await store.resolveReadOnlyToken('ro_c1')).toBe('c1');
+        expect(await store.resolveReadOnlyToken('ro_unknown')).toBeNull();
+        await expect(store.getCollection('unknown')).rejects.toBeInstanceOf(CollectionNotFoundError);
+      });
+    });
+
+    describe('expiry', () => {
+      it('drops a collection once its preset runs out', async () => {
+        await addTexts('a');
+        advance(HOUR_MS - 2000); // One second went into creating the item
+        expect(await listedIds()).toEqual(['a']);
+
+        advance(1000);
+        await expect(store.getCollection('c1')).rejects.toBeInstanceOf(CollectionNotFoundError);
+        await expect(store.addItem('c1', textItem('b'))).rejects.toBeInstanceOf(CollectionNotFoundError);
+        expect(await store.resolveReadOnlyToken('ro_c1')).toBeNull();
+      });
+
+      it('restarts the countdown on setExpiry and keeps pinned collections', async () => {
+        advance(HOUR_MS / 2);
+        expect(await store.setExpiry('c1', '1h')).toBe(new Date(time + HOUR_MS).toISOString());
+        advance(HOUR_MS - 1);
+        await expect(store.getCollection('c1')).resolves.toMatchObject({ id: 'c1' });
+
+        expect(await store.setExpiry('c1', 'never')).toBeNull();
+        advance(365 * 24 * HOUR_MS);
+        await expect(store.getCollection('c1')).resolves.toMatchObject({ expiry: 'never', expiresAt: null });
+      });
+    });
+
+    describe('quotas', () => {
+      it('rejects items beyond the item quota', async () => {
+        const entries = Array.from({ length: MAX_ITEMS_PER_COLLECTION }, (_, index) => ({ item: textItem(`item-${index}`) }));
+        await store.addItems('c1', entries);
+
+        const error = await store.addItem('c1', textItem('one-too-many')).catch(e => e);
+        expect(error).toBeInstanceOf(CollectionFullError);
+        expect(error).toMatchObject({ quota: 'items', usage: { items: MAX_ITEMS_PER_COLLECTION } });
+      });
+
+      it('rejects items beyond the byte quota', async () => {
+        const big = fileItem('big', MAX_COLLECTION_BYTES - 100);
+        await store.addItem('c1', big);
+        expect((await store.getCollection('c1')).usage?.bytes).toBe(getItemSizeBytes(big));
+
+        const error = await store.addItem('c1', textItem('overflow', { content: 'x'.repeat(100) })).catch(e => e);
+        expect(error).toBeInstanceOf(CollectionFullError);
+        expect(error).toMatchObject({ quota: 'bytes', usage: { bytes: getItemSizeBytes(big) } });
+      });
+
+      it('adds a batch completely or not at all', async () => {
+        const entries = Array.from({ length: MAX_ITEMS_PER_COLLECTION - 1 }, (_, index) => ({ item: textItem(`item-${index}`) }));
+        await store.addItems('c1', entries);
+
+        await expect(store.addItems('c1', [{ item: textItem('x') }, { item: textItem('y') }])).rejects.toBeInstanceOf(CollectionFullError);
+        expect((await store.getCollection('c1')).usage?.items).toBe(MAX_ITEMS_PER_COLLECTION - 1);
+        expect(await store.getItem('c1', 'x')).toBeNull();
+
+        await store.addItems('c1', [{ item: textItem('z') }]);
+        expect((await store.getCollection('c1')).usage?.items).toBe(MAX_ITEMS_PER_COLLECTION);
+      });
+    });
+
+    describe('consumeItem', () => {
+      it('counts views and deletes the item with its last one', async () => {
+        const secret = textItem('secret', { content: 'the secret', viewLimit: 2, viewsRemaining: 2 });
+        await store.addItem('c1', secret);
+        expect((await store.getCollection('c1')).items[0]).toMatchObject({ id: 'secret', content: '', viewsRemaining: 2 });
+
+        expect(await store.consumeItem('c1', 'secret')).toMatchObject({ deleted: false, item: { content: 'the secret', viewsRemaining: 1 } });
+        expect(await store.consumeItem('c1', 'secret')).toMatchObject({ deleted: true, item: { content: 'the secret', viewsRemaining: 0 } });
+        expect(await store.consumeItem('c1', 'secret')).toBeNull();
+        expect(await store.getItem('c1', 'secret')).toBeNull();
+        expect((await store.getCollection('c1')).usage).toMatchObject({ items: 0, bytes: 0 });
+      });
+
+      it('releases an attachment once and then deletes its bytes', async () => {
+        const file = { ...fileItem('file', 4), viewLimit: 1, viewsRemaining: 1 };
+        await store.addItem('c1', file, Buffer.from('data'));
+
+        expect(await store.consumeItem('c1', 'file')).toMatchObject({ deleted: true });
+        expect(await store.getAttachmentBlob('c1', 'file')).toBeNull();
+      });
+
+      it('returns unlimited items without counting a view', async () => {
+        await addTexts('plain');
+        expect(await store.consumeItem('c1', 'plain')).toMatchObject({ deleted: false, item: { content: 'content of plain' } });
+        expect(await store.getItem('c1', 'plain')).toMatchObject({ content: 'content of plain' });
+      });
+    });
+
+    describe('sessions and rate limits', () => {
+      it('ends unlock sessions with their TTL', async () => {
+        await store.saveSession('c1', 'token', 10_000);
+        expect(await store.hasSession('c1', 'token')).toBe(true);
+        advance(10_000);
+        expect(await store.hasSession('c1', 'token')).toBe(false);
+      });
+
+      it('keeps a sliding window per key', async () => {
+        const rule = { limit: 2, windowSeconds: 60 };
+        expect(await store.hitRateLimit('ratelimit:test', rule)).toMatchObject({ allowed: true, remaining: 1 });
+        advance(30_000);
+        expect(await store.hitRateLimit('ratelimit:test', rule)).toMatchObject({ allowed: true, remaining: 0 });
+        expect(await store.hitRateLimit('ratelimit:test', rule)).toMatchObject({ allowed: false, retryAfterSeconds: 30 });
+        expect(await store.hitRateLimit('ratelimit:other', rule)).toMatchObject({ allowed: true });
+        advance(30_000);
+        expect(await store.hitRateLimit('ratelimit:test', rule)).toMatchObject({ allowed: true });
+      });
+    });
+
+    describe('events', () => {
+      it('replays the events published after a given ID', async () => {
+        const ids: string[] = [];
+        for (const itemId of ['a', 'b', 'c']) {
+          ids.push((await store.publishEvent('c1', { type: 'item-deleted', itemId }))!);
+          advance(1);
+        }
+        const replayed = await store.getEventsSince('c1', ids[0]);
+        expect(replayed).toEqual([
+          { id: ids[1], event: { type: 'item-deleted', itemId: 'b' } },
+          { id: ids[2], event: { type: 'item-deleted', itemId: 'c' } },
+        ]);
+      });
+
+      it('delivers events to subscribers until they unsubscribe', async () => {
+        if (backend === 'redis') return; // Redis pub/sub has tests of its own (events.test.ts)
+        const listener = vi.fn();
+        const unsubscribe = await store.subscribe('c1', listener);
+        const id = await store.publishEvent('c1', { type: 'item-deleted', itemId: 'a' });
+        await unsubscribe();
+        await store.publishEvent('c1', { type: 'item-deleted', itemId: 'b' });
+        expect(listener.mock.calls).toEqual([[{ id, event: { type: 'item-deleted', itemId: 'a' } }]]);
+      });
+    });
+
+    describe('updateItem', () => {
+      it('edits in place and bumps the version', async () => {
+        await addTexts('a', 'b');
+        const updated = await store.updateItem('c1', 'a', { type: 'text', content: 'edited' }, 1);
+
+        expect(updated).toMatchObject({ content: 'edited', version: 2, updatedAt: new Date(time).toISOString() });
+        expect(updated?.history).toEqual([expect.objectContaining({ version: 1, content: 'content of a' })]);
+        expect(await listedIds()).toEqual(['b', 'a']);
+        expect((await store.getCollection('c1')).usage?.bytes).toBe(
+          ['edited', 'content of b', 'content of a'].reduce((total, text) => total + Buffer.byteLength(text), 0)
+        );
+      });
+
+      it('rejects an edit based on an outdated version with the current item', async () => {
+        await addTexts('a');
+        await store.updateItem('c1', 'a', { type: 'text', content: 'first edit' }, 1);
+
+        const error = await store.updateItem('c1', 'a', { type: 'text', content: 'stale edit' }, 1).catch(e => e);
+        expect(error).toBeInstanceOf(ItemVersionConflictError);
+        expect(error.current).toMatchObject({ id: 'a', content: 'first edit', version: 2 });
+        expect(await store.getItem('c1', 'a')).toMatchObject({ content: 'first edit', version: 2 });
+      });
+
+      it('lets exactly one of two concurrent edits of the same version win', async () => {
+        await addTexts('a');
+        const results = await Promise.allSettled([
+          store.updateItem('c1', 'a', { type: 'text', content: 'one' }, 1),
+          store.updateItem('c1', 'a', { type: 'text', content: 'two' }, 1),
+        ]);
+
+        const winners = results.filter(result => result.status === 'fulfilled');
+        const losers = results.filter(result => result.status === 'rejected');
+        expect(winners).toHaveLength(1);
+        expect(losers).toHaveLength(1);
+        expect((losers[0] as PromiseRejectedResult).reason).toBeInstanceOf(ItemVersionConflictError);
+        expect(await store.getItem('c1', 'a')).toMatchObject({ version: 2, content: (winners[0] as PromiseFulfilledResult<ClipboardItemData>).value.content });
+      });
+
+      it('returns null for unknown items', async () => {
+        expect(await store.updateItem('c1', 'missing', { type: 'text', content: 'x' }, 1)).toBeNull();
+      });
+    });
+
+    describe('tag counts', () => {
+      it('follow tag edits and deletes', async () => {
+        await store.addItem('c1', textItem('a', { tags: ['work', 'urgent'] }));
+        await store.addItem('c1', textItem('b', { tags: ['work'] }));
+        expect((await store.getCollection('c1')).tagCounts).toEqual({ work: 2, urgent: 1 });
+
+        await store.arrangeItems('c1', { flags: [{ id: 'a', tags: ['urgent', 'later'] }] });
+        expect((await store.getCollection('c1')).tagCounts).toEqual({ work: 1, urgent: 1, later: 1 });
+
+        await store.updateItem('c1', 'b', { type: 'text', content: 'edited' }, 1);
+        expect((await store.getCollection('c1')).tagCounts).toEqual({ work: 1, urgent: 1, later: 1 });
+
+        await store.deleteItem('c1', 'b');
+        expect((await store.getCollection('c1')).tagCounts).toEqual({ urgent: 1, later: 1 });
+      });
+
+      it('follow restores and purges', async () => {
+        await store.addItem('c1', textItem('a', { tags: ['work'] }));
+        await store.addItem('c1', textItem('b', { tags: ['work', 'home'] }));
+        await store.deleteItems('c1', ['a', 'b']);
+        expect((await store.getCollection('c1')).tagCounts).toEqual({});
+
+        await store.restoreItems('c1', ['b']);
+        expect((await store.getCollection('c1')).tagCounts).toEqual({ work: 1, home: 1 });
+
+        await store.purgeTrash('c1', 'all');
+        expect((await store.getCollection('c1')).tagCounts).toEqual({ work: 1, home: 1 });
+      });
+    });
+
+    describe('trash', () => {
+      it('restores deleted items at their old position', async () => {
+        await addTexts('a', 'b', 'c');
+        await store.arrangeItems('c1', { order: ['a', 'c', 'b'] });
+        const bytesBefore = (await store.getCollection('c1')).usage?.bytes;
+
+        await store.deleteItem('c1', 'c');
+        expect(await listedIds()).toEqual(['a', 'b']);
+        expect(await store.getTrash('c1')).toEqual([expect.objectContaining({ id: 'c', deletedAt: new Date(time).toISOString() })]);
+        expect(await store.getItem('c1', 'c')).toBeNull();
+
+        expect(await store.restoreItems('c1', ['c'])).toEqual([expect.not.objectContaining({ deletedAt: expect.anything() })]);
+        expect(await listedIds()).toEqual(['a', 'c', 'b']);
+        expect(await store.getTrash('c1')).toEqual([]);
+        expect((await store.getCollection('c1')).usage?.bytes).toBe(bytesBefore);
+      });
+
+      it('keeps deleted items for the retention period only', async () => {
+        await addTexts('a', 'b');
+        await store.deleteItems('c1', ['a', 'b']);
+        await store.setExpiry('c1', 'never'); // Outlive the retention
+
+        advance(TRASH_RETENTION_MS - 1);
+        expect((await store.getTrash('c1')).map(({ id }) => id).sort()).toEqual(['a', 'b']);
+
+        advance(1);
+        expect(await store.getTrash('c1')).toEqual([]);
+        expect(await store.restoreItems('c1', ['a'])).toEqual([]);
+        expect(await listedIds()).toEqual([]);
+      });
+
+      it('purges the whole trash with its attachments', async () => {
+        await store.addItem('c1', fileItem('file', 4), Buffer.from('data'));
+        await addTexts('a', 'b');
+        await store.deleteItems('c1', 'all');
+        expect((await store.getCollection('c1')).usage).toMatchObject({ items: 0, bytes: 0 });
+
+        expect((await store.purgeTrash('c1', 'all')).sort()).toEqual(['a', 'b', 'file']);
+        expect(await store.getTrash('c1')).toEqual([]);
+        expect(await store.restoreItems('c1', ['a', 'b', 'file'])).toEqual([]);
+        expect(await store.getAttachmentBlob('c1', 'file')).toBeNull();
+      });
+    });
+  });
+};